@@ -0,0 +1,12 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    // Transpile only; type checking is left to tsc
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+  },
+  moduleNameMapper: {
+    // The models barrel is src/models/Index.ts but is imported as '../models'
+    '^(.*)/models$': '$1/models/Index',
+  },
+};
\ No newline at end of file
@@ -45,7 +45,7 @@ if (appConfig.nodeEnv === 'development') {
   app.use(morganMiddleware);
 }
 
-// Static file serving for uploads
+// Static file serving for uploads; evidence and appeal documents are stored outside this folder and served only through the violations API
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
 // Health check endpoint
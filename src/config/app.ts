@@ -4,6 +4,27 @@ export const appConfig = {
   nodeEnv: process.env.NODE_ENV || 'development',
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880'), // 5MB
   uploadPath: process.env.UPLOAD_PATH || 'uploads',
+  privateUploadPath: process.env.PRIVATE_UPLOAD_PATH || 'storage', // Evidence and appeal documents; never served statically
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
   rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
+  scheduledJobsEnabled: process.env.SCHEDULED_JOBS_ENABLED !== 'false',
+  penaltyAccrualTime: process.env.PENALTY_ACCRUAL_TIME || '01:00', // Daily, local time
+  installmentReminderTime: process.env.INSTALLMENT_REMINDER_TIME || '09:00', // Daily, local time
+  pointsExpiryMonths: parseInt(process.env.POINTS_EXPIRY_MONTHS || '24'),
+  pointsRecalculationTime: process.env.POINTS_RECALCULATION_TIME || '02:00', // Daily, local time
+  suspensionExpiryTime: process.env.SUSPENSION_EXPIRY_TIME || '02:30', // Daily, local time
+  fineScheduleSyncTime: process.env.FINE_SCHEDULE_SYNC_TIME || '00:05', // Daily, local time
+  fineEscalationWindowMonths: parseInt(process.env.FINE_ESCALATION_WINDOW_MONTHS || '12'),
+  duplicateWindowMinutes: parseInt(process.env.DUPLICATE_WINDOW_MINUTES || '30'),
+  duplicateRadiusMeters: parseInt(process.env.DUPLICATE_RADIUS_METERS || '500'),
+  duplicateAction: (process.env.DUPLICATE_ACTION === 'reject' ? 'reject' : 'review') as 'reject' | 'review',
+  ticketCorrectionGraceHours: parseInt(process.env.TICKET_CORRECTION_GRACE_HOURS || '72'),
+  offlineSyncMaxAgeDays: parseInt(process.env.OFFLINE_SYNC_MAX_AGE_DAYS || '14'),
+  reportOrganisationName: process.env.REPORT_ORGANISATION_NAME || 'DRSVMS - Road Safety', // Printed on report headers
+  reportLogoPath: process.env.REPORT_LOGO_PATH || '', // Optional PNG or JPEG for PDF report headers
+  statsRollupRefreshIntervalMs: parseInt(process.env.STATS_ROLLUP_REFRESH_INTERVAL_MS || '60000'), // How stale dashboard statistics can get
+  reportScheduleCheckIntervalMs: parseInt(process.env.REPORT_SCHEDULE_CHECK_INTERVAL_MS || '60000'), // How often due report schedules are looked for
+  reportRunMaxAttempts: parseInt(process.env.REPORT_RUN_MAX_ATTEMPTS || '3'),
+  reportRetryDelayMinutes: parseInt(process.env.REPORT_RETRY_DELAY_MINUTES || '15'), // Doubles after each failed attempt
+  evidenceSigningKey: (process.env.EVIDENCE_SIGNING_PRIVATE_KEY || '').replace(/\\n/g, '\n'), // Ed25519 private key, PEM
 };
\ No newline at end of file
@@ -3,6 +3,16 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Fixed offset used for the connection; statistics and scheduled reports count calendar days in it
+export const DB_TIMEZONE = '+01:00'; // West Africa Time
+
+// The same offset in milliseconds, for date arithmetic on wall-clock times
+export const DB_TIMEZONE_OFFSET_MS = (() => {
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):(\d{2})$/.exec(DB_TIMEZONE) || ['', '+', '00', '00'];
+
+  return (sign === '-' ? -1 : 1) * (parseInt(hours) * 60 + parseInt(minutes)) * 60 * 1000;
+})();
+
 const sequelize = new Sequelize({
   host: process.env.DB_HOST || 'localhost',
   port: parseInt(process.env.DB_PORT || '3307'),
@@ -17,7 +27,7 @@ const sequelize = new Sequelize({
     acquire: 30000,
     idle: 10000,
   },
-  timezone: '+01:00', // West Africa Time
+  timezone: DB_TIMEZONE,
 });
 
 export default sequelize;
\ No newline at end of file
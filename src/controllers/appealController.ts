@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppealService } from '../services/appealService';
+import { logger } from '../utils/logger';
+
+export class AppealController {
+  // GET /api/v1/violations/appeals/queue
+  static async getAppealQueue(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+
+      const result = await AppealService.getAppealQueue({
+        status: query.status as any,
+        reviewerId: query.reviewerId ? parseInt(query.reviewerId as string) : undefined,
+        page: parseInt(query.page as string) || 1,
+        limit: Math.min(parseInt(query.limit as string) || 20, 100),
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} open appeal(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/appeal
+  static async getAppeal(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const appeal = await AppealService.getAppealByViolationId(violationId, {
+        userId: req.user!.userId,
+        role: req.user!.role,
+      });
+
+      res.status(200).json({
+        status: 'success',
+        data: { appeal },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/violations/:id/appeal/reviewer
+  static async assignReviewer(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const { reviewerId } = req.body;
+
+      const appeal = await AppealService.assignReviewer(violationId, reviewerId, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Reviewer assigned successfully',
+        data: { appeal },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/:id/appeal/documents
+  static async addDocuments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const files = Array.isArray(req.files) ? req.files : [];
+
+      if (files.length === 0) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'At least one document is required',
+        });
+      }
+
+      const appeal = await AppealService.addDocuments(violationId, files, {
+        userId: req.user!.userId,
+        role: req.user!.role,
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: `${files.length} document(s) attached successfully`,
+        data: { appeal },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/appeal/documents/:fileName
+  static async getDocument(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const file = await AppealService.getDocumentFile(violationId, req.params.fileName as string, {
+        userId: req.user!.userId,
+        role: req.user!.role,
+      });
+
+      res.type(file.mimeType);
+      res.setHeader('Cache-Control', 'no-store');
+
+      if (req.query.download === 'true') {
+        return res.download(file.filePath, file.downloadName);
+      }
+
+      res.sendFile(file.filePath);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/violations/:id/appeal/hearing
+  static async scheduleHearing(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const { hearingDate, hearingLocation } = req.body;
+
+      const appeal = await AppealService.scheduleHearing(
+        violationId,
+        new Date(hearingDate),
+        hearingLocation,
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Hearing scheduled successfully',
+        data: { appeal },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/:id/appeal/decision
+  static async recordDecision(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const { decision, decisionReason, revisedFineAmount } = req.body;
+
+      const appeal = await AppealService.recordDecision(
+        violationId,
+        {
+          decision,
+          decisionReason,
+          revisedFineAmount: revisedFineAmount !== undefined ? parseFloat(revisedFineAmount) : undefined,
+        },
+        req.user!.userId
+      );
+
+      logger.info(`Appeal decision recorded by ${req.user!.employeeId}: violation ${violationId} - ${decision}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Appeal decision recorded successfully',
+        data: { appeal },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
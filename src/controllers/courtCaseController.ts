@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { CourtCaseService } from '../services/courtCaseService';
+import { logger } from '../utils/logger';
+
+export class CourtCaseController {
+  // POST /api/v1/court-cases
+  static async referToCourt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { violationIds, caseNumber, courtName, courtLocation, prosecutingOfficerId, hearingDate, referralReason } = req.body;
+
+      const courtCase = await CourtCaseService.referToCourt(
+        {
+          violationIds,
+          caseNumber,
+          courtName,
+          courtLocation,
+          prosecutingOfficerId: parseInt(prosecutingOfficerId),
+          hearingDate: new Date(hearingDate),
+          referralReason,
+        },
+        req.user!.userId
+      );
+
+      logger.info(`Court referral by ${req.user!.employeeId}: case ${caseNumber} - ${violationIds.length} violation(s)`);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Violation(s) referred to court successfully',
+        data: { courtCase },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/court-cases
+  static async getCourtCases(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+
+      const result = await CourtCaseService.getCourtCases({
+        status: query.status as any,
+        courtName: query.courtName as string,
+        prosecutingOfficerId: query.prosecutingOfficerId ? parseInt(query.prosecutingOfficerId as string) : undefined,
+        page: parseInt(query.page as string) || 1,
+        limit: Math.min(parseInt(query.limit as string) || 20, 100),
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} court case(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/court-cases/:id
+  static async getCourtCaseById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+
+      const courtCase = await CourtCaseService.getCourtCaseById(id);
+
+      res.status(200).json({
+        status: 'success',
+        data: { courtCase },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/court-cases/:id/adjournments
+  static async recordAdjournment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+      const { newHearingDate, reason } = req.body;
+
+      const courtCase = await CourtCaseService.recordAdjournment(
+        id,
+        new Date(newHearingDate),
+        reason,
+        req.user!.userId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Adjournment recorded successfully',
+        data: { courtCase },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/court-cases/:id/verdict
+  static async recordVerdict(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+      const { verdict, verdictNotes, adjustments } = req.body;
+
+      const courtCase = await CourtCaseService.recordVerdict(
+        id,
+        {
+          verdict,
+          verdictNotes,
+          adjustments: (adjustments || []).map((adjustment: any) => ({
+            violationId: parseInt(adjustment.violationId),
+            fineAmount: adjustment.fineAmount !== undefined ? parseFloat(adjustment.fineAmount) : undefined,
+            points: adjustment.points !== undefined ? parseInt(adjustment.points) : undefined,
+          })),
+        },
+        req.user!.userId
+      );
+
+      logger.info(`Court verdict recorded by ${req.user!.employeeId}: case ${courtCase.caseNumber} - ${verdict}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Court verdict recorded successfully',
+        data: { courtCase },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from 'express';
+import { DriverService } from '../services/driverService';
+import { DriverLicenseStatus } from '../models/Driver';
+import { logger } from '../utils/logger';
+
+export class DriverController {
+  // GET /api/v1/drivers/search
+  static async searchDrivers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+      const page = parseInt(query.page as string) || 1;
+      const limit = parseInt(query.limit as string) || 20;
+
+      const result = await DriverService.searchDrivers({
+        licenseNumber: query.licenseNumber as string,
+        fullName: query.fullName as string,
+        status: query.status as DriverLicenseStatus,
+        page,
+        limit: Math.min(limit, 100)
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} driver(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/drivers/lookup/:licenseNumber
+  static async lookupByLicenseNumber(req: Request, res: Response, next: NextFunction) {
+    try {
+      const licenseNumber = req.params.licenseNumber as string;
+      const driver = await DriverService.getDriverByLicenseNumber(licenseNumber);
+
+      logger.info(`Licence lookup by ${req.user?.employeeId}: ${licenseNumber}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driver found',
+        data: { driver },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/drivers/:id
+  static async getDriverById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const driver = await DriverService.getDriverById(parseInt(req.params.id as string));
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driver retrieved successfully',
+        data: { driver },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/drivers/:id/suspensions
+  static async getDriverSuspensions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const suspensions = await DriverService.getDriverSuspensions(parseInt(req.params.id as string));
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Suspension history retrieved successfully',
+        data: { suspensions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/drivers (Admin/Supervisor only)
+  static async createDriver(req: Request, res: Response, next: NextFunction) {
+    try {
+      const driver = await DriverService.createDriver(req.body, req.user!.userId);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Driver record created successfully',
+        data: { driver },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/drivers/:id (Admin/Supervisor only)
+  static async updateDriver(req: Request, res: Response, next: NextFunction) {
+    try {
+      const driver = await DriverService.updateDriver(parseInt(req.params.id as string), req.body, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Driver record updated successfully',
+        data: { driver },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/drivers/points/recalculate
+  static async recalculatePoints(req: Request, res: Response, next: NextFunction) {
+    try {
+      const asOf = req.body.asOf ? new Date(req.body.asOf) : new Date();
+
+      const result = await DriverService.recalculatePoints(asOf);
+
+      logger.info(`Driver points recalculation run manually by ${req.user!.employeeId}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Points recalculated for ${result.driversProcessed} driver(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
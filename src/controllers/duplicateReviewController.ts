@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { DuplicateReviewService } from '../services/duplicateReviewService';
+
+export class DuplicateReviewController {
+  // GET /api/v1/violations/duplicates/queue
+  static async getReviewQueue(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+
+      const result = await DuplicateReviewService.getReviewQueue({
+        status: query.status as any,
+        page: parseInt(query.page as string) || 1,
+        limit: Math.min(parseInt(query.limit as string) || 20, 100),
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} duplicate review(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/duplicates/:reviewId/resolve
+  static async resolveReview(req: Request, res: Response, next: NextFunction) {
+    try {
+      const reviewId = parseInt(req.params.reviewId as string);
+      const { action, notes } = req.body;
+
+      const review = await DuplicateReviewService.resolveReview(reviewId, action, notes, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Duplicate review resolved: ${review.status}`,
+        data: { review },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
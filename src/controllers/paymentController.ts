@@ -1,11 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
-import { PaymentService } from '../services/paymentService';
+import { PaymentService, PaymentSearchQuery } from '../services/paymentService';
+import { PaymentPlanService } from '../services/paymentPlanService';
+import { RecordExport, ExportFormat } from '../utils/recordExport';
 import { logger } from '../utils/logger';
 import Payment from '../models/Payment';
 import Violation from '../models/Violation';
 import VehicleOwner from '../models/VehicleOwner';
 import ViolationType from '../models/ViolationType';
 
+// Search filters shared by the paged search and the export
+const parseSearchQuery = (query: Request['query']): PaymentSearchQuery => ({
+    violationId: query.violationId ? parseInt(query.violationId as string) : undefined,
+    paymentReference: query.paymentReference as string,
+    gatewayReference: query.gatewayReference as string,
+    payerEmail: query.payerEmail as string,
+    status: query.status as any,
+    gateway: query.gateway as any,
+    startDate: query.startDate ? new Date(query.startDate as string) : undefined,
+    endDate: query.endDate ? new Date(query.endDate as string) : undefined,
+    page: parseInt(query.page as string) || 1,
+    limit: Math.min(parseInt(query.limit as string) || 20, 100)
+});
+
 export class PaymentController {
     // POST /api/v1/payments/initiate
     static async initiatePayment(req: Request, res: Response, next: NextFunction) {
@@ -92,24 +108,7 @@ export class PaymentController {
     // GET /api/v1/payments/search
     static async searchPayments(req: Request, res: Response, next: NextFunction) {
         try {
-            const query = req.query;
-            const page = parseInt(query.page as string) || 1;
-            const limit = Math.min(parseInt(query.limit as string) || 20, 100);
-
-            const searchQuery = {
-                violationId: query.violationId ? parseInt(query.violationId as string) : undefined,
-                paymentReference: query.paymentReference as string,
-                gatewayReference: query.gatewayReference as string,
-                payerEmail: query.payerEmail as string,
-                status: query.status as any,
-                gateway: query.gateway as any,
-                startDate: query.startDate ? new Date(query.startDate as string) : undefined,
-                endDate: query.endDate ? new Date(query.endDate as string) : undefined,
-                page,
-                limit
-            };
-
-            const result = await PaymentService.searchPayments(searchQuery);
+            const result = await PaymentService.searchPayments(parseSearchQuery(req.query));
 
             res.status(200).json({
                 status: 'success',
@@ -121,6 +120,24 @@ export class PaymentController {
         }
     }
 
+    // GET /api/v1/payments/export
+    static async exportPayments(req: Request, res: Response, next: NextFunction) {
+        try {
+            const format = (req.query.format as ExportFormat) || 'csv';
+            const source = PaymentService.exportPayments(parseSearchQuery(req.query));
+
+            const rowCount = await RecordExport.stream(res, {
+                ...source,
+                format,
+                fileName: `payments-${new Date().toISOString().split('T')[0]}`
+            });
+
+            logger.info(`Payment export (${format}) by ${req.user!.employeeId}: ${rowCount} row(s)`);
+        } catch (error) {
+            next(error);
+        }
+    }
+
     // GET /api/v1/payments/:id
     static async getPaymentById(req: Request, res: Response, next: NextFunction) {
         try {
@@ -343,4 +360,49 @@ export class PaymentController {
             next(error);
         }
     }
+
+    // POST /api/v1/payments/violation/:violationId/plan
+    static async grantPaymentPlan(req: Request, res: Response, next: NextFunction) {
+        try {
+            const violationId = parseInt(req.params.violationId as string);
+            const { numberOfInstallments, intervalDays, firstDueDate, notes } = req.body;
+
+            const plan = await PaymentPlanService.grantPlan(
+                violationId,
+                {
+                    numberOfInstallments: parseInt(numberOfInstallments),
+                    intervalDays: intervalDays !== undefined ? parseInt(intervalDays) : undefined,
+                    firstDueDate: firstDueDate ? new Date(firstDueDate) : undefined,
+                    notes
+                },
+                req.user!.userId
+            );
+
+            logger.info(`Payment plan granted by ${req.user!.employeeId}: violation ${violationId} - ${numberOfInstallments} installments`);
+
+            res.status(201).json({
+                status: 'success',
+                message: 'Payment plan granted successfully',
+                data: { plan },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // GET /api/v1/payments/violation/:violationId/plan
+    static async getPaymentPlan(req: Request, res: Response, next: NextFunction) {
+        try {
+            const violationId = parseInt(req.params.violationId as string);
+
+            const plan = await PaymentPlanService.getPlanByViolationId(violationId);
+
+            res.status(200).json({
+                status: 'success',
+                data: { plan, balance: plan.balance },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
 }
\ No newline at end of file
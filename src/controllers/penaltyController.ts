@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from 'express';
+import { PenaltyService } from '../services/penaltyService';
+import { FineEscalationService } from '../services/fineEscalationService';
+import { logger } from '../utils/logger';
+
+export class PenaltyController {
+  // GET /api/v1/penalties/rules
+  static async getPenaltyRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rules = await PenaltyService.getPenaltyRules();
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${rules.length} penalty rule(s)`,
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/penalties/rules/:violationTypeId
+  static async upsertPenaltyRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationTypeId = parseInt(req.params.violationTypeId as string);
+      const { ruleType, amount, intervalDays, maxAmount, isActive } = req.body;
+
+      const rule = await PenaltyService.upsertPenaltyRule(
+        violationTypeId,
+        { ruleType, amount, intervalDays, maxAmount, isActive },
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Penalty rule saved successfully',
+        data: { rule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/penalties/accrue
+  static async runAccrual(req: Request, res: Response, next: NextFunction) {
+    try {
+      const asOf = req.body.asOf ? new Date(req.body.asOf) : new Date();
+
+      const result = await PenaltyService.accrueOverduePenalties(asOf);
+
+      logger.info(`Penalty accrual run manually by ${req.user!.employeeId}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: `${result.accrualsCreated} penalty line item(s) created`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/penalties/violation/:violationId
+  static async getViolationPenalties(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.violationId as string);
+
+      const result = await PenaltyService.getViolationPenalties(violationId);
+
+      res.status(200).json({
+        status: 'success',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/penalties/escalation-rules
+  static async getEscalationRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rules = await FineEscalationService.getRules();
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${rules.length} escalation rule(s)`,
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/penalties/escalation-rules
+  static async replaceEscalationRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { violationTypeId, steps } = req.body;
+
+      const rules = await FineEscalationService.replaceRules(
+        violationTypeId ? parseInt(violationTypeId) : null,
+        steps.map((step: any) => ({
+          offenceNumber: parseInt(step.offenceNumber),
+          multiplier: parseFloat(step.multiplier),
+        })),
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Escalation rules saved successfully',
+        data: { rules },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { ReportScheduleService } from '../services/reportScheduleService';
+import { ReportRunStatus } from '../models/ReportRun';
+
+export class ReportScheduleController {
+  // GET /api/v1/report-schedules
+  static async getSchedules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+      const page = parseInt(query.page as string) || 1;
+      const limit = parseInt(query.limit as string) || 20;
+
+      const result = await ReportScheduleService.getSchedules({
+        isActive: query.isActive !== undefined ? query.isActive === 'true' : undefined,
+        page,
+        limit: Math.min(limit, 100)
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} report schedule(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/report-schedules/:id
+  static async getScheduleById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const schedule = await ReportScheduleService.getScheduleById(parseInt(req.params.id as string));
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Report schedule retrieved successfully',
+        data: { schedule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/report-schedules/:id/runs
+  static async getScheduleRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+      const page = parseInt(query.page as string) || 1;
+      const limit = parseInt(query.limit as string) || 20;
+
+      const result = await ReportScheduleService.getScheduleRuns(parseInt(req.params.id as string), {
+        status: query.status as ReportRunStatus,
+        page,
+        limit: Math.min(limit, 100)
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} report run(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/report-schedules (Admin only)
+  static async createSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const schedule = await ReportScheduleService.createSchedule(req.body, req.user!.userId);
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Report schedule created successfully',
+        data: { schedule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/report-schedules/:id (Admin only)
+  static async updateSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const schedule = await ReportScheduleService.updateSchedule(parseInt(req.params.id as string), req.body, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Report schedule updated successfully',
+        data: { schedule },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/v1/report-schedules/:id (Admin only)
+  static async deleteSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      await ReportScheduleService.deleteSchedule(parseInt(req.params.id as string), req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Report schedule deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/report-schedules/:id/run (Admin only)
+  static async runNow(req: Request, res: Response, next: NextFunction) {
+    try {
+      const run = await ReportScheduleService.runNow(parseInt(req.params.id as string), req.user!.userId);
+
+      const message = run.status === 'succeeded'
+        ? `Report sent to ${run.recipients.length} recipient(s)`
+        : `Report run failed: ${run.error}${run.status === 'retrying' ? '; it will be retried automatically' : ''}`;
+
+      res.status(200).json({
+        status: 'success',
+        message,
+        data: { run },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
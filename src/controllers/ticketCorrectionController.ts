@@ -0,0 +1,82 @@
+import { Request, Response, NextFunction } from 'express';
+import { TicketCorrectionService } from '../services/ticketCorrectionService';
+
+export class TicketCorrectionController {
+  // POST /api/v1/violations/:id/corrections
+  static async requestCorrection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const { type, reason, changes } = req.body;
+
+      const correction = await TicketCorrectionService.requestCorrection(
+        violationId,
+        { type, reason, changes },
+        req.user!.userId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: `${type === 'void' ? 'Void' : 'Amendment'} request submitted for supervisor approval`,
+        data: { correction },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/corrections
+  static async getViolationCorrections(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const corrections = await TicketCorrectionService.getViolationCorrections(violationId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${corrections.length} correction request(s)`,
+        data: { corrections },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/corrections/queue
+  static async getCorrectionQueue(req: Request, res: Response, next: NextFunction) {
+    try {
+      const query = req.query;
+
+      const result = await TicketCorrectionService.getCorrectionQueue({
+        status: query.status as any,
+        page: parseInt(query.page as string) || 1,
+        limit: Math.min(parseInt(query.limit as string) || 20, 100),
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} correction request(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/corrections/:correctionId/review
+  static async reviewCorrection(req: Request, res: Response, next: NextFunction) {
+    try {
+      const correctionId = parseInt(req.params.correctionId as string);
+      const { decision, notes } = req.body;
+
+      const correction = await TicketCorrectionService.reviewCorrection(correctionId, decision, notes, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Correction request ${decision}`,
+        data: { correction },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
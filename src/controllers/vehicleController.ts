@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { VehicleService } from '../services/vehicleService';
+import { SuspensionPolicyService } from '../services/suspensionPolicyService';
 import { PlateValidator } from '../utils/plateValidation';
 import { logger } from '../utils/logger';
 
@@ -277,4 +278,83 @@ export class VehicleController {
       next(error);
     }
   }
+
+  // POST /api/v1/vehicles/points/recalculate
+  static async recalculatePoints(req: Request, res: Response, next: NextFunction) {
+    try {
+      const asOf = req.body.asOf ? new Date(req.body.asOf) : new Date();
+
+      const result = await VehicleService.recalculatePoints(asOf);
+
+      logger.info(`Points recalculation run manually by ${req.user!.employeeId}`);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Points recalculated for ${result.ownersProcessed} vehicle owner(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/vehicles/suspension-policy
+  static async getSuspensionPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+      const policy = await SuspensionPolicyService.getPolicy();
+
+      res.status(200).json({
+        status: 'success',
+        data: { policy },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/vehicles/suspension-policy
+  static async updateSuspensionPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { warningPoints, tiers, offenceSuspensionDays, revocationSuspensionCount, revocationWindowMonths } = req.body;
+
+      const policy = await SuspensionPolicyService.updatePolicy(
+        {
+          warningPoints: parseInt(warningPoints),
+          tiers: tiers.map((tier: any) => ({
+            points: parseInt(tier.points),
+            durationDays: parseInt(tier.durationDays),
+          })),
+          offenceSuspensionDays: parseInt(offenceSuspensionDays),
+          revocationSuspensionCount: parseInt(revocationSuspensionCount),
+          revocationWindowMonths: parseInt(revocationWindowMonths),
+        },
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Suspension policy updated successfully',
+        data: { policy },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/vehicles/:id/suspensions
+  static async getVehicleSuspensions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+
+      const suspensions = await SuspensionPolicyService.getOwnerSuspensions(id);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${suspensions.length} suspension(s)`,
+        data: { suspensions },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
\ No newline at end of file
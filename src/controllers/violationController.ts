@@ -1,14 +1,65 @@
 import { Request, Response, NextFunction } from 'express';
-import { ViolationService } from '../services/violationService';
+import { ViolationService, ViolationSearchQuery } from '../services/violationService';
+import { ViolationSyncService } from '../services/violationSyncService';
+import { HotspotService } from '../services/hotspotService';
+import { ReportExportService, ReportFormat } from '../services/reportExportService';
+import { StatisticsRollupService } from '../services/statisticsRollupService';
+import { EvidenceService, EvidenceAccessContext, EvidenceVariant } from '../services/evidenceService';
+import { deleteEvidencePhotos, ProcessedEvidenceFile } from '../middleware/upload';
+import { RecordExport, ExportFormat } from '../utils/recordExport';
 import { logger } from '../utils/logger';
 
+const getAccessContext = (req: Request): EvidenceAccessContext => ({
+  userId: req.user!.userId,
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent'),
+});
+
+// Search filters shared by the paged search and the export
+const parseSearchQuery = (query: Request['query']): ViolationSearchQuery => {
+  const page = parseInt(query.page as string) || 1;
+  const limit = Math.min(parseInt(query.limit as string) || 20, 100);
+  const bbox = query.bbox ? (query.bbox as string).split(',').map(Number) : undefined;
+
+  return {
+    plateNumber: query.plateNumber as string,
+    ticketNumber: query.ticketNumber as string,
+    officerId: query.officerId ? parseInt(query.officerId as string) : undefined,
+    driverId: query.driverId ? parseInt(query.driverId as string) : undefined,
+    violationTypeId: query.violationTypeId ? parseInt(query.violationTypeId as string) : undefined,
+    status: query.status as any,
+    locationState: query.locationState as string,
+    locationLga: query.locationLga as string,
+    startDate: query.startDate ? new Date(query.startDate as string) : undefined,
+    endDate: query.endDate ? new Date(query.endDate as string) : undefined,
+    minAmount: query.minAmount ? parseFloat(query.minAmount as string) : undefined,
+    maxAmount: query.maxAmount ? parseFloat(query.maxAmount as string) : undefined,
+    near: query.nearLat && query.nearLng ? {
+      lat: parseFloat(query.nearLat as string),
+      lng: parseFloat(query.nearLng as string),
+      radiusMeters: query.radiusMeters ? parseInt(query.radiusMeters as string) : undefined
+    } : undefined,
+    bounds: bbox ? { west: bbox[0], south: bbox[1], east: bbox[2], north: bbox[3] } : undefined,
+    q: query.q as string,
+    page,
+    limit,
+    // Best matches first when searching text
+    sortBy: query.sortBy as any || (query.q ? 'relevance' : 'violationDate'),
+    // Nearest first unless asked otherwise
+    sortOrder: query.sortOrder as any || (query.sortBy === 'distance' ? 'ASC' : 'DESC')
+  };
+};
+
 export class ViolationController {
   // POST /api/v1/violations
   static async createViolation(req: Request, res: Response, next: NextFunction) {
     try {
       const violationData = {
         ...req.body,
-        officerId: req.user!.userId
+        officerId: req.user!.userId,
+        // Backdated and client-referenced tickets only come through the offline sync endpoint
+        violationDate: undefined,
+        clientReference: undefined
       };
 
       const result = await ViolationService.createViolation(violationData);
@@ -17,17 +68,38 @@ export class ViolationController {
 
       res.status(201).json({
         status: 'success',
-        message: `${result.violations.length} violation(s) created successfully`,
+        message: violationData.mode === 'caution'
+          ? `${result.violations.length} caution(s) recorded successfully`
+          : `${result.violations.length} violation(s) created successfully`,
         data: {
           violations: result.violations,
           summary: {
             totalAmount: result.totalAmount,
             totalPoints: result.totalPoints,
-            suspensionTriggered: result.suspensionTriggered
+            suspensionTriggered: result.suspensionTriggered,
+            flaggedDuplicates: result.flaggedDuplicates
           },
           vehicleOwner: result.vehicleOwner
         },
       });
+    } catch (error) {
+      // Don't leave orphaned photos behind when the ticket was not issued
+      const evidenceFiles: ProcessedEvidenceFile[] = req.body?.evidenceFiles || [];
+      await deleteEvidencePhotos(evidenceFiles.map(file => file.fileName));
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/sync
+  static async syncOfflineViolations(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await ViolationSyncService.syncBatch(req.body.violations, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Synced ${req.body.violations.length} offline violation(s): ${result.summary.created} created, ${result.summary.duplicate} already synced, ${result.summary.failed} failed`,
+        data: result,
+      });
     } catch (error) {
       next(error);
     }
@@ -35,34 +107,55 @@ export class ViolationController {
 
   // GET /api/v1/violations/search
   static async searchViolations(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await ViolationService.searchViolations(parseSearchQuery(req.query));
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.totalCount} violation(s)`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/export
+  static async exportViolations(req: Request, res: Response, next: NextFunction) {
+    try {
+      const format = (req.query.format as ExportFormat) || 'csv';
+      const source = ViolationService.exportViolations(parseSearchQuery(req.query));
+
+      const rowCount = await RecordExport.stream(res, {
+        ...source,
+        format,
+        fileName: `violations-${new Date().toISOString().split('T')[0]}`
+      });
+
+      logger.info(`Violation export (${format}) by ${req.user!.employeeId}: ${rowCount} row(s)`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/analytics/hotspots
+  static async getHotspots(req: Request, res: Response, next: NextFunction) {
     try {
       const query = req.query;
-      const page = parseInt(query.page as string) || 1;
-      const limit = Math.min(parseInt(query.limit as string) || 20, 100);
-
-      const searchQuery = {
-        plateNumber: query.plateNumber as string,
-        ticketNumber: query.ticketNumber as string,
-        officerId: query.officerId ? parseInt(query.officerId as string) : undefined,
-        violationTypeId: query.violationTypeId ? parseInt(query.violationTypeId as string) : undefined,
-        status: query.status as any,
-        locationState: query.locationState as string,
-        locationLga: query.locationLga as string,
+
+      const result = await HotspotService.getHotspots({
         startDate: query.startDate ? new Date(query.startDate as string) : undefined,
         endDate: query.endDate ? new Date(query.endDate as string) : undefined,
-        minAmount: query.minAmount ? parseFloat(query.minAmount as string) : undefined,
-        maxAmount: query.maxAmount ? parseFloat(query.maxAmount as string) : undefined,
-        page,
-        limit,
-        sortBy: query.sortBy as any || 'violationDate',
-        sortOrder: query.sortOrder as any || 'DESC'
-      };
-
-      const result = await ViolationService.searchViolations(searchQuery);
+        category: query.category as string,
+        locationState: query.locationState as string,
+        startHour: query.startHour !== undefined ? parseInt(query.startHour as string) : undefined,
+        endHour: query.endHour !== undefined ? parseInt(query.endHour as string) : undefined,
+        cellSizeMeters: query.cellSizeMeters ? parseInt(query.cellSizeMeters as string) : undefined,
+      });
 
       res.status(200).json({
         status: 'success',
-        message: `Found ${result.totalCount} violation(s)`,
+        message: `Found ${result.metadata.hotspotCount} hotspot(s) across ${result.metadata.cellsWithViolations} cell(s)`,
         data: result,
       });
     } catch (error) {
@@ -173,6 +266,155 @@ export class ViolationController {
     }
   }
 
+  // GET /api/v1/violations/:id/history
+  static async getViolationHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      if (isNaN(violationId)) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'Invalid violation ID',
+        });
+      }
+
+      const result = await ViolationService.getStatusHistory(violationId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${result.history.length} status change(s) for ${result.violation.ticketNumber}`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/evidence
+  static async getEvidence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const evidence = await EvidenceService.getViolationEvidence(violationId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${evidence.length} evidence file(s)`,
+        data: { evidence },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/:id/evidence
+  static async addEvidence(req: Request, res: Response, next: NextFunction) {
+    const evidenceFiles: ProcessedEvidenceFile[] = req.body?.evidenceFiles || [];
+
+    try {
+      if (evidenceFiles.length === 0) {
+        return res.status(400).json({
+          status: 'error',
+          message: 'At least one evidence photo is required',
+        });
+      }
+
+      const violationId = parseInt(req.params.id as string);
+
+      const evidence = await EvidenceService.addEvidence(violationId, {
+        files: evidenceFiles,
+        uploadedBy: req.user!.userId,
+        capturedAt: req.body.capturedAt,
+        description: req.body.description
+      });
+
+      res.status(201).json({
+        status: 'success',
+        message: `${evidence.length} evidence file(s) added successfully`,
+        data: { evidence },
+      });
+    } catch (error) {
+      await deleteEvidencePhotos(evidenceFiles.map(file => file.fileName));
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/evidence/:evidenceId/file
+  static async getEvidenceFile(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+      const evidenceId = parseInt(req.params.evidenceId as string);
+      const variant = (req.query.variant as EvidenceVariant) || 'display';
+      const download = req.query.download === 'true';
+
+      const file = await EvidenceService.getEvidenceFile(violationId, evidenceId, variant, download, getAccessContext(req));
+
+      res.type(file.mimeType);
+      res.setHeader('Cache-Control', 'no-store');
+
+      if (download) {
+        return res.download(file.filePath, file.downloadName);
+      }
+
+      res.sendFile(file.filePath);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/evidence/manifest
+  static async getEvidenceManifest(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const manifest = await EvidenceService.getSignedManifest(violationId, getAccessContext(req));
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Evidence manifest signed successfully',
+        data: manifest,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violations/:id/evidence/verify
+  static async verifyEvidence(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const result = await EvidenceService.verifyEvidence(violationId, getAccessContext(req));
+
+      res.status(200).json({
+        status: 'success',
+        message: result.intact
+          ? `All ${result.files.length} evidence file(s) match their recorded hashes`
+          : 'One or more evidence files do not match their recorded hashes',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violations/:id/evidence/access-log
+  static async getEvidenceAccessLog(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationId = parseInt(req.params.id as string);
+
+      const accessLog = await EvidenceService.getAccessLog(violationId);
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${accessLog.length} evidence access record(s)`,
+        data: { accessLog },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // GET /api/v1/violations/plate/:plateNumber
   static async getViolationsByPlate(req: Request, res: Response, next: NextFunction) {
     try {
@@ -238,6 +480,25 @@ export class ViolationController {
     }
   }
 
+  // POST /api/v1/violations/stats/rollup/rebuild
+  static async rebuildStatsRollup(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await StatisticsRollupService.queueRebuild(
+        new Date(req.body.startDate),
+        new Date(req.body.endDate),
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: `${result.daysQueued} day(s) queued for re-aggregation`,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // POST /api/v1/violations/reports/generate
   static async generateReport(req: Request, res: Response, next: NextFunction) {
     try {
@@ -254,8 +515,17 @@ export class ViolationController {
       const end = new Date(endDate);
 
       const report = await ViolationService.generateReport(reportType, start, end, filters);
+      const format: ReportFormat | 'json' = req.body.format || 'json';
+
+      logger.info(`Report generated by ${req.user!.employeeId}: ${reportType} from ${startDate} to ${endDate} (${format})`);
 
-      logger.info(`Report generated by ${req.user!.employeeId}: ${reportType} from ${startDate} to ${endDate}`);
+      if (format !== 'json') {
+        const file = await ReportExportService.render(report, format);
+
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        return res.status(200).send(file.content);
+      }
       
       res.status(200).json({
         status: 'success',
@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction } from 'express';
+import { ViolationTypeService } from '../services/violationTypeService';
+
+export class ViolationTypeController {
+  // GET /api/v1/violation-types
+  static async getViolationTypes(req: Request, res: Response, next: NextFunction) {
+    try {
+      const violationTypes = await ViolationTypeService.getViolationTypes({
+        category: req.query.category as any,
+        includeInactive: req.query.includeInactive === 'true',
+      });
+
+      res.status(200).json({
+        status: 'success',
+        message: `Found ${violationTypes.length} violation type(s)`,
+        data: { violationTypes },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/v1/violation-types/:id
+  static async getViolationTypeById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+
+      const violationType = await ViolationTypeService.getViolationTypeById(id);
+
+      res.status(200).json({
+        status: 'success',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violation-types
+  static async createViolationType(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { code, title, description, category, fineAmount, points, suspensionEligible, cautionEligible, liability, measurementSchema, bands, reference } = req.body;
+
+      const violationType = await ViolationTypeService.createViolationType(
+        {
+          code,
+          title,
+          description,
+          category,
+          fineAmount: parseFloat(fineAmount),
+          points: parseInt(points),
+          suspensionEligible,
+          cautionEligible,
+          liability,
+          measurementSchema,
+          bands,
+          reference,
+        },
+        req.user!.userId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Violation type created successfully',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/violation-types/:id
+  static async updateViolationType(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+      const { title, description, category, suspensionEligible, cautionEligible, liability, measurementSchema } = req.body;
+
+      const violationType = await ViolationTypeService.updateViolationType(
+        id,
+        { title, description, category, suspensionEligible, cautionEligible, liability, measurementSchema },
+        req.user!.userId
+      );
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Violation type updated successfully',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/violation-types/:id/deactivate
+  static async deactivateViolationType(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+
+      const violationType = await ViolationTypeService.setActive(id, false, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Violation type deactivated successfully',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/v1/violation-types/:id/activate
+  static async activateViolationType(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+
+      const violationType = await ViolationTypeService.setActive(id, true, req.user!.userId);
+
+      res.status(200).json({
+        status: 'success',
+        message: 'Violation type activated successfully',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/v1/violation-types/:id/fine-schedules
+  static async addFineSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const id = parseInt(req.params.id as string);
+      const { fineAmount, points, effectiveFrom, bands, reference } = req.body;
+
+      const violationType = await ViolationTypeService.addFineSchedule(
+        id,
+        {
+          fineAmount: parseFloat(fineAmount),
+          points: parseInt(points),
+          effectiveFrom,
+          bands,
+          reference,
+        },
+        req.user!.userId
+      );
+
+      res.status(201).json({
+        status: 'success',
+        message: 'Fine schedule added successfully',
+        data: { violationType },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { JobScheduler } from './scheduler';
+import { PenaltyService } from '../services/penaltyService';
+import { PaymentPlanService } from '../services/paymentPlanService';
+import { VehicleService } from '../services/vehicleService';
+import { DriverService } from '../services/driverService';
+import { SuspensionPolicyService } from '../services/suspensionPolicyService';
+import { ViolationTypeService } from '../services/violationTypeService';
+import { ReportScheduleService } from '../services/reportScheduleService';
+import { StatisticsRollupService } from '../services/statisticsRollupService';
+import { appConfig } from '../config/app';
+import { logger } from '../utils/logger';
+
+// Register and start all background jobs
+export const startScheduledJobs = () => {
+  if (!appConfig.scheduledJobsEnabled) {
+    logger.info('Scheduled jobs are disabled');
+    return;
+  }
+
+  JobScheduler.register({
+    name: 'penalty-accrual',
+    dailyAt: appConfig.penaltyAccrualTime,
+    run: () => PenaltyService.accrueOverduePenalties(),
+  });
+
+  JobScheduler.register({
+    name: 'installment-reminders',
+    dailyAt: appConfig.installmentReminderTime,
+    run: () => PaymentPlanService.sendMissedInstallmentReminders(),
+  });
+
+  JobScheduler.register({
+    name: 'points-recalculation',
+    dailyAt: appConfig.pointsRecalculationTime,
+    run: () => VehicleService.recalculatePoints(),
+  });
+
+  JobScheduler.register({
+    name: 'driver-points-recalculation',
+    dailyAt: appConfig.pointsRecalculationTime,
+    run: () => DriverService.recalculatePoints(),
+  });
+
+  JobScheduler.register({
+    name: 'suspension-expiry',
+    dailyAt: appConfig.suspensionExpiryTime,
+    run: () => SuspensionPolicyService.completeExpiredSuspensions(),
+  });
+
+  JobScheduler.register({
+    name: 'fine-schedule-sync',
+    dailyAt: appConfig.fineScheduleSyncTime,
+    run: () => ViolationTypeService.syncEffectiveRates(),
+  });
+
+  JobScheduler.register({
+    name: 'statistics-rollup',
+    intervalMs: appConfig.statsRollupRefreshIntervalMs,
+    run: () => StatisticsRollupService.refreshStaleDays(),
+  });
+
+  JobScheduler.register({
+    name: 'scheduled-reports',
+    intervalMs: appConfig.reportScheduleCheckIntervalMs,
+    run: () => ReportScheduleService.runDueSchedules(),
+  });
+
+  JobScheduler.start();
+};
+
+export { JobScheduler };
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { logger } from '../utils/logger';
+
+export interface ScheduledJob {
+  name: string;
+  // Either run at a fixed local time every day ("HH:MM") or on a fixed interval
+  dailyAt?: string;
+  intervalMs?: number;
+  run: () => Promise<unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimal in-process scheduler for background maintenance jobs
+export class JobScheduler {
+  private static jobs: ScheduledJob[] = [];
+  private static timers = new Map<string, NodeJS.Timeout>();
+  private static running = new Set<string>();
+
+  static register(job: ScheduledJob): void {
+    if (!job.dailyAt && !job.intervalMs) {
+      throw new Error(`Job ${job.name} needs either dailyAt or intervalMs`);
+    }
+    this.jobs.push(job);
+  }
+
+  static start(): void {
+    for (const job of this.jobs) {
+      this.scheduleNext(job);
+    }
+    logger.info(`Job scheduler started with ${this.jobs.length} job(s)`);
+  }
+
+  static stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private static scheduleNext(job: ScheduledJob): void {
+    const delay = job.dailyAt ? this.msUntil(job.dailyAt) : job.intervalMs!;
+
+    const timer = setTimeout(async () => {
+      await this.execute(job);
+      this.scheduleNext(job);
+    }, delay);
+
+    // Don't keep the process alive just for scheduled jobs
+    timer.unref();
+    this.timers.set(job.name, timer);
+  }
+
+  private static async execute(job: ScheduledJob): Promise<void> {
+    if (this.running.has(job.name)) {
+      logger.warn(`Job ${job.name} is still running, skipping this run`);
+      return;
+    }
+
+    this.running.add(job.name);
+    const startedAt = Date.now();
+
+    try {
+      logger.info(`Job ${job.name} started`);
+      await job.run();
+      logger.info(`Job ${job.name} finished in ${Date.now() - startedAt}ms`);
+    } catch (error) {
+      logger.error(`Job ${job.name} failed:`, error);
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+
+  private static msUntil(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const next = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes, 0, 0);
+
+    if (next.getTime() <= now.getTime()) {
+      return next.getTime() + DAY_MS - now.getTime();
+    }
+    return next.getTime() - now.getTime();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from './violationValidation';
+
+// Court referral validation
+export const validateCourtReferral = [
+  body('violationIds')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('At least 1 and maximum 20 violations can be referred together')
+    .custom((violationIds) => {
+      return violationIds.every((id: any) => Number.isInteger(id) && id > 0);
+    })
+    .withMessage('All violation IDs must be positive integers'),
+    
+  body('caseNumber')
+    .trim()
+    .notEmpty()
+    .withMessage('Case number is required')
+    .isLength({ max: 50 })
+    .withMessage('Case number cannot exceed 50 characters'),
+    
+  body('courtName')
+    .trim()
+    .notEmpty()
+    .withMessage('Court name is required')
+    .isLength({ max: 255 })
+    .withMessage('Court name cannot exceed 255 characters'),
+    
+  body('courtLocation')
+    .optional()
+    .isLength({ max: 255 })
+    .withMessage('Court location cannot exceed 255 characters'),
+    
+  body('prosecutingOfficerId')
+    .isInt({ min: 1 })
+    .withMessage('Prosecuting officer ID must be a positive integer'),
+    
+  body('hearingDate')
+    .isISO8601()
+    .withMessage('Hearing date must be a valid ISO 8601 date'),
+    
+  body('referralReason')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Referral reason cannot exceed 1000 characters'),
+    
+  handleValidationErrors,
+];
+
+// Court case list validation
+export const validateCourtCaseQuery = [
+  query('status')
+    .optional()
+    .isIn(['open', 'decided'])
+    .withMessage('Status must be: open or decided'),
+    
+  query('prosecutingOfficerId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Prosecuting officer ID must be a positive integer'),
+    
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  handleValidationErrors,
+];
+
+// Court case ID parameter validation
+export const validateCourtCaseId = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Court case ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
+
+// Adjournment validation
+export const validateAdjournment = [
+  body('newHearingDate')
+    .isISO8601()
+    .withMessage('New hearing date must be a valid ISO 8601 date'),
+    
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Adjournment reason is required')
+    .isLength({ max: 1000 })
+    .withMessage('Adjournment reason cannot exceed 1000 characters'),
+    
+  handleValidationErrors,
+];
+
+// Verdict validation
+export const validateCourtVerdict = [
+  body('verdict')
+    .isIn(['convicted', 'acquitted', 'struck_out'])
+    .withMessage('Verdict must be: convicted, acquitted, or struck_out'),
+    
+  body('verdictNotes')
+    .trim()
+    .notEmpty()
+    .withMessage('Verdict notes are required')
+    .isLength({ max: 2000 })
+    .withMessage('Verdict notes cannot exceed 2000 characters'),
+    
+  body('adjustments')
+    .optional()
+    .isArray()
+    .withMessage('Adjustments must be an array'),
+    
+  body('adjustments.*.violationId')
+    .isInt({ min: 1 })
+    .withMessage('Adjustment violation ID must be a positive integer'),
+    
+  body('adjustments.*.fineAmount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Adjusted fine amount must be a positive number'),
+    
+  body('adjustments.*.points')
+    .optional()
+    .isInt({ min: 0, max: 20 })
+    .withMessage('Adjusted points must be between 0 and 20'),
+    
+  handleValidationErrors,
+];
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from './violationValidation';
+
+const licenseNumberRule = (field: ReturnType<typeof body>) => field
+  .isLength({ min: 5, max: 50 })
+  .withMessage('License number must be 5-50 characters')
+  .matches(/^[A-Za-z0-9\-\s]+$/)
+  .withMessage('License number can only contain letters, numbers, hyphens, and spaces');
+
+// Fields shared by driver creation and update
+const driverDetailRules = [
+  body('dateOfBirth')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Date of birth must be a valid date'),
+    
+  body('address')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Address must be less than 500 characters'),
+    
+  body('phone')
+    .optional()
+    .matches(/^\+234[0-9]{10}$/)
+    .withMessage('Phone must be in format +234xxxxxxxxxx'),
+    
+  body('email')
+    .optional()
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+    
+  body('licenseClass')
+    .optional()
+    .isIn(['A', 'B', 'C', 'D', 'E', 'F'])
+    .withMessage('License class must be A, B, C, D, E, or F'),
+    
+  body('stateOfIssue')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('State of issue must be 2-50 characters'),
+    
+  body('issueDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Issue date must be a valid date'),
+    
+  body('expiryDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Expiry date must be a valid date'),
+    
+  body(['currentPoints', 'status'])
+    .not().exists()
+    .withMessage('Points and licence status are managed by the suspension policy'),
+];
+
+// Driver creation validation
+export const validateDriverCreation = [
+  licenseNumberRule(body('licenseNumber')
+    .notEmpty()
+    .withMessage('License number is required')),
+    
+  body('fullName')
+    .notEmpty()
+    .withMessage('Full name is required')
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Full name must be 2-255 characters')
+    .matches(/^[a-zA-Z\s\-'.]+$/)
+    .withMessage('Full name can only contain letters, spaces, hyphens, apostrophes, and periods'),
+    
+  ...driverDetailRules,
+    
+  handleValidationErrors,
+];
+
+// Driver update validation
+export const validateDriverUpdate = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Driver ID must be a positive integer'),
+    
+  licenseNumberRule(body('licenseNumber').optional()),
+    
+  body('fullName')
+    .optional()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Full name must be 2-255 characters')
+    .matches(/^[a-zA-Z\s\-'.]+$/)
+    .withMessage('Full name can only contain letters, spaces, hyphens, apostrophes, and periods'),
+    
+  ...driverDetailRules,
+    
+  handleValidationErrors,
+];
+
+// Driver search validation
+export const validateDriverSearch = [
+  query('licenseNumber')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('License number must be 2-50 characters'),
+    
+  query('fullName')
+    .optional()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Full name must be 2-255 characters'),
+    
+  query('status')
+    .optional()
+    .isIn(['active', 'suspended', 'expired', 'revoked'])
+    .withMessage('Status must be: active, suspended, expired, or revoked'),
+    
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  handleValidationErrors,
+];
+
+// Driver ID parameter validation
+export const validateDriverId = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Driver ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
+
+// License number parameter validation
+export const validateLicenseParam = [
+  param('licenseNumber')
+    .isLength({ min: 5, max: 50 })
+    .withMessage('License number must be 5-50 characters')
+    .matches(/^[A-Za-z0-9\-\s]+$/)
+    .withMessage('License number can only contain letters, numbers, hyphens, and spaces'),
+    
+  handleValidationErrors,
+];
+
+// Points recalculation validation
+export const validateDriverPointsRecalculation = [
+  body('asOf')
+    .optional()
+    .isISO8601()
+    .withMessage('asOf must be a valid ISO 8601 date'),
+    
+  handleValidationErrors,
+];
\ No newline at end of file
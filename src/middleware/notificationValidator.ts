@@ -59,7 +59,7 @@ export const validateNotification = [
     .withMessage('Phone must be in format +234xxxxxxxxxx'),
     
   body('type')
-    .isIn(['violation_created', 'payment_reminder', 'payment_confirmed', 'license_suspended', 'password_reset', 'officer_notification'])
+    .isIn(['violation_created', 'payment_reminder', 'payment_confirmed', 'license_suspended', 'password_reset', 'officer_notification', 'appeal_decided', 'installment_missed', 'points_warning', 'license_revoked'])
     .withMessage('Invalid notification type'),
     
   body('channels')
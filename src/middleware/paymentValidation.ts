@@ -180,6 +180,16 @@ export const validatePaymentSearch = [
   handleValidationErrors,
 ];
 
+// Payment export format validation; filters are checked by validatePaymentSearch
+export const validatePaymentExport = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'ndjson'])
+    .withMessage('Format must be csv or ndjson'),
+    
+  handleValidationErrors,
+];
+
 // Payment ID parameter validation
 export const validatePaymentId = [
   param('id')
@@ -231,5 +241,33 @@ export const validateStatsDateRange = [
       return true;
     }),
     
+  handleValidationErrors,
+];
+
+// Payment plan grant validation
+export const validatePaymentPlan = [
+  param('violationId')
+    .isInt({ min: 1 })
+    .withMessage('Violation ID must be a positive integer'),
+    
+  body('numberOfInstallments')
+    .isInt({ min: 2, max: 12 })
+    .withMessage('Number of installments must be between 2 and 12'),
+    
+  body('intervalDays')
+    .optional()
+    .isInt({ min: 7, max: 90 })
+    .withMessage('Interval must be between 7 and 90 days'),
+    
+  body('firstDueDate')
+    .optional()
+    .isISO8601()
+    .withMessage('First due date must be a valid ISO 8601 date'),
+    
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+    
   handleValidationErrors,
 ];
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { body, param } from 'express-validator';
+import { handleValidationErrors } from './violationValidation';
+
+// Penalty rule validation
+export const validatePenaltyRule = [
+  param('violationTypeId')
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer'),
+    
+  body('ruleType')
+    .isIn(['flat', 'percentage'])
+    .withMessage('Rule type must be: flat or percentage'),
+    
+  body('amount')
+    .isFloat({ min: 0 })
+    .withMessage('Amount must be a positive number'),
+    
+  body('intervalDays')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Interval must be between 1 and 365 days'),
+    
+  body('maxAmount')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Maximum amount must be a positive number'),
+    
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+    
+  handleValidationErrors,
+];
+
+// Accrual run validation
+export const validatePenaltyAccrualRun = [
+  body('asOf')
+    .optional()
+    .isISO8601()
+    .withMessage('asOf must be a valid ISO 8601 date'),
+    
+  handleValidationErrors,
+];
+
+// Violation ID parameter validation
+export const validateViolationIdParam = [
+  param('violationId')
+    .isInt({ min: 1 })
+    .withMessage('Violation ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
+
+// Fine escalation schedule validation
+export const validateEscalationRules = [
+  body('violationTypeId')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer'),
+    
+  body('steps')
+    .isArray({ max: 10 })
+    .withMessage('Steps must be an array of at most 10 items'),
+    
+  body('steps.*.offenceNumber')
+    .isInt({ min: 2, max: 20 })
+    .withMessage('Offence number must be between 2 and 20'),
+    
+  body('steps.*.multiplier')
+    .isFloat({ min: 1, max: 10 })
+    .withMessage('Multiplier must be between 1 and 10'),
+    
+  handleValidationErrors,
+];
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from './violationValidation';
+
+// Definition fields shared by schedule creation and update; creation additionally requires them
+const scheduleRules = (required: boolean) => {
+  const field = (name: string) => required ? body(name) : body(name).optional();
+
+  return [
+    field('name')
+      .isLength({ min: 3, max: 255 })
+      .withMessage('Name must be 3-255 characters')
+      .matches(/^[^<>]+$/)
+      .withMessage('Name cannot contain < or >'),
+    
+    field('reportType')
+      .isIn(['daily', 'weekly', 'monthly'])
+      .withMessage('Report type must be: daily, weekly, or monthly'),
+    
+    field('format')
+      .isIn(['pdf', 'xlsx', 'csv'])
+      .withMessage('Format must be: pdf, xlsx, or csv'),
+    
+    field('recipients')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Recipients must be a list of 1-20 email addresses'),
+    
+    body('recipients.*')
+      .isEmail()
+      .withMessage('Each recipient must be a valid email address'),
+    
+    field('frequency')
+      .isIn(['daily', 'weekly', 'monthly'])
+      .withMessage('Frequency must be: daily, weekly, or monthly'),
+    
+    field('timeOfDay')
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage('Time of day must be in HH:MM format'),
+    
+    body('dayOfWeek')
+      .optional({ values: 'null' })
+      .isInt({ min: 0, max: 6 })
+      .withMessage('Day of week must be 0 (Sunday) to 6 (Saturday)')
+      .toInt(),
+    
+    body('dayOfMonth')
+      .optional({ values: 'null' })
+      .isInt({ min: 1, max: 28 })
+      .withMessage('Day of month must be between 1 and 28')
+      .toInt(),
+    
+    body('filters')
+      .optional({ values: 'null' })
+      .isObject()
+      .withMessage('Filters must be an object'),
+    
+    body('filters.state')
+      .optional()
+      .isLength({ min: 2, max: 50 })
+      .withMessage('State filter must be 2-50 characters'),
+    
+    body('filters.officerId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Officer ID filter must be a positive integer')
+      .toInt(),
+    
+    body('filters.violationTypeId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Violation type ID filter must be a positive integer')
+      .toInt(),
+    
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean')
+      .toBoolean(),
+    
+    body(['nextRunAt', 'lastRunAt'])
+      .not().exists()
+      .withMessage('Run times are set by the scheduler'),
+  ];
+};
+
+// Report schedule creation validation
+export const validateReportScheduleCreation = [
+  ...scheduleRules(true),
+    
+  handleValidationErrors,
+];
+
+// Report schedule update validation
+export const validateReportScheduleUpdate = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Report schedule ID must be a positive integer'),
+    
+  ...scheduleRules(false),
+    
+  handleValidationErrors,
+];
+
+// Report schedule list validation
+export const validateReportScheduleList = [
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be true or false'),
+    
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  handleValidationErrors,
+];
+
+// Report run history validation
+export const validateReportRunList = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Report schedule ID must be a positive integer'),
+    
+  query('status')
+    .optional()
+    .isIn(['running', 'retrying', 'succeeded', 'failed'])
+    .withMessage('Status must be: running, retrying, succeeded, or failed'),
+    
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  handleValidationErrors,
+];
+
+// Report schedule ID parameter validation
+export const validateReportScheduleId = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Report schedule ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
\ No newline at end of file
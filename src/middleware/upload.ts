@@ -2,15 +2,40 @@ import multer from 'multer';
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { createError } from './errorHandler';
+import { appConfig } from '../config/app';
 import { logger } from '../utils/logger';
 
+// Evidence and appeal documents live outside the public uploads folder so they can only be read through the API
+export const EVIDENCE_DIRS = {
+  display: path.join(appConfig.privateUploadPath, 'evidence'),
+  thumbnail: path.join(appConfig.privateUploadPath, 'evidence/thumbnails'),
+  original: path.join(appConfig.privateUploadPath, 'evidence/originals'),
+};
+
+export const APPEAL_DOCUMENTS_DIR = path.join(appConfig.privateUploadPath, 'appeals');
+
+// Move a folder earlier releases kept under the public uploads folder
+const moveLegacyDir = (legacyDir: string, dir: string) => {
+  if (fs.existsSync(legacyDir) && !fs.existsSync(dir)) {
+    fs.mkdirSync(path.dirname(dir), { recursive: true });
+    fs.renameSync(legacyDir, dir);
+    logger.info(`Moved ${legacyDir} to ${dir}`);
+  }
+};
+
 // Ensure upload directories exist
 const createUploadDirs = () => {
+  moveLegacyDir('uploads/evidence', EVIDENCE_DIRS.display);
+  moveLegacyDir('uploads/appeals', APPEAL_DOCUMENTS_DIR);
+
   const dirs = [
-    'uploads/evidence',
-    'uploads/evidence/thumbnails',
+    EVIDENCE_DIRS.display,
+    EVIDENCE_DIRS.thumbnail,
+    EVIDENCE_DIRS.original,
+    APPEAL_DOCUMENTS_DIR,
     'uploads/temp'
   ];
 
@@ -44,6 +69,37 @@ const upload = multer({
   }
 });
 
+// Appeal documents may be photos or scanned PDFs
+const documentFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+    cb(null, true);
+  } else {
+    cb(new Error('Only image and PDF files are allowed'));
+  }
+};
+
+const documentUpload = multer({
+  storage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: 5 // Maximum 5 files
+  }
+});
+
+export interface ProcessedEvidenceFile {
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  originalMimeType: string;
+  originalSize: number;
+  originalSha256: string;
+  width: number;
+  height: number;
+}
+
 // Process and save uploaded images
 export const processEvidencePhotos = async (
   req: Request,
@@ -51,23 +107,32 @@ export const processEvidencePhotos = async (
   next: NextFunction
 ) => {
   try {
+    // File metadata must only ever come from this middleware
+    if (req.body) {
+      delete req.body.evidenceFiles;
+    }
+
     if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
       return next();
     }
 
-    const processedFiles: string[] = [];
+    const processedFiles: ProcessedEvidenceFile[] = [];
     const userId = req.user?.userId || 'unknown';
     const timestamp = Date.now();
 
     for (let i = 0; i < req.files.length; i++) {
       const file = req.files[i];
       const fileName = `evidence_${userId}_${timestamp}_${i + 1}.jpg`;
-      const filePath = path.join('uploads/evidence', fileName);
-      const thumbnailPath = path.join('uploads/evidence/thumbnails', fileName);
+      const filePath = path.join(EVIDENCE_DIRS.display, fileName);
+      const thumbnailPath = path.join(EVIDENCE_DIRS.thumbnail, fileName);
+      const originalPath = path.join(EVIDENCE_DIRS.original, fileName);
 
       try {
+        // Keep the bytes exactly as captured; the resized copy is for display only
+        fs.writeFileSync(originalPath, file.buffer);
+
         // Process main image (resize and compress)
-        await sharp(file.buffer)
+        const { data, info } = await sharp(file.buffer)
           .resize(1200, 1200, { 
             fit: 'inside',
             withoutEnlargement: true 
@@ -76,7 +141,9 @@ export const processEvidencePhotos = async (
             quality: 85,
             progressive: true 
           })
-          .toFile(filePath);
+          .toBuffer({ resolveWithObject: true });
+
+        fs.writeFileSync(filePath, data);
 
         // Create thumbnail
         await sharp(file.buffer)
@@ -88,17 +155,30 @@ export const processEvidencePhotos = async (
           })
           .toFile(thumbnailPath);
 
-        processedFiles.push(fileName);
+        // Hash both copies so either can be checked for tampering later
+        processedFiles.push({
+          fileName,
+          originalName: file.originalname,
+          mimeType: 'image/jpeg',
+          size: data.length,
+          sha256: crypto.createHash('sha256').update(data).digest('hex'),
+          originalMimeType: file.mimetype,
+          originalSize: file.buffer.length,
+          originalSha256: crypto.createHash('sha256').update(file.buffer).digest('hex'),
+          width: info.width,
+          height: info.height,
+        });
         logger.info(`Evidence photo processed: ${fileName}`);
 
       } catch (error) {
         logger.error(`Failed to process image ${fileName}:`, error);
+        await deleteEvidencePhotos([fileName]);
         // Continue with other files
       }
     }
 
-    // Add processed file names to request body
-    req.body.evidencePhotos = processedFiles;
+    // Add processed file details to request body
+    req.body.evidenceFiles = processedFiles;
     next();
 
   } catch (error) {
@@ -107,12 +187,67 @@ export const processEvidencePhotos = async (
   }
 };
 
+export interface SavedAppealDocument {
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+// Save appeal documents as-is (no image processing); only once the appeal and the uploader's rights are checked
+export const saveAppealDocuments = async (files: Express.Multer.File[], userId: number): Promise<SavedAppealDocument[]> => {
+  const savedDocuments: SavedAppealDocument[] = [];
+  const timestamp = Date.now();
+
+  try {
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const extension = file.mimetype === 'application/pdf' ? '.pdf' : path.extname(file.originalname) || '.jpg';
+      const fileName = `appeal_${userId}_${timestamp}_${i + 1}${extension}`;
+
+      fs.writeFileSync(path.join(APPEAL_DOCUMENTS_DIR, fileName), file.buffer);
+
+      savedDocuments.push({
+        fileName,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+      });
+      logger.info(`Appeal document saved: ${fileName}`);
+    }
+  } catch (error) {
+    logger.error('Appeal document processing error:', error);
+    await deleteAppealDocuments(savedDocuments.map(document => document.fileName));
+    throw createError('Failed to process appeal documents', 500);
+  }
+
+  return savedDocuments;
+};
+
+// Delete appeal documents (cleanup)
+export const deleteAppealDocuments = async (fileNames: string[]): Promise<void> => {
+  for (const fileName of fileNames) {
+    try {
+      const filePath = path.join(APPEAL_DOCUMENTS_DIR, fileName);
+
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+
+      logger.info(`Appeal document deleted: ${fileName}`);
+    } catch (error) {
+      logger.error(`Failed to delete appeal document ${fileName}:`, error);
+    }
+  }
+};
+
 // Delete evidence photos (cleanup)
 export const deleteEvidencePhotos = async (fileNames: string[]): Promise<void> => {
   for (const fileName of fileNames) {
     try {
-      const filePath = path.join('uploads/evidence', fileName);
-      const thumbnailPath = path.join('uploads/evidence/thumbnails', fileName);
+      const filePath = path.join(EVIDENCE_DIRS.display, fileName);
+      const thumbnailPath = path.join(EVIDENCE_DIRS.thumbnail, fileName);
+      const originalPath = path.join(EVIDENCE_DIRS.original, fileName);
 
       // Delete main image
       if (fs.existsSync(filePath)) {
@@ -124,6 +259,11 @@ export const deleteEvidencePhotos = async (fileNames: string[]): Promise<void> =
         fs.unlinkSync(thumbnailPath);
       }
 
+      // Delete original upload
+      if (fs.existsSync(originalPath)) {
+        fs.unlinkSync(originalPath);
+      }
+
       logger.info(`Evidence photo deleted: ${fileName}`);
     } catch (error) {
       logger.error(`Failed to delete evidence photo ${fileName}:`, error);
@@ -132,4 +272,6 @@ export const deleteEvidencePhotos = async (fileNames: string[]): Promise<void> =
 };
 
 // Export configured upload middleware
-export const uploadEvidencePhotos = upload.array('evidencePhotos', 5);
\ No newline at end of file
+export const uploadEvidencePhotos = upload.array('evidencePhotos', 5);
+
+export const uploadAppealDocuments = documentUpload.array('documents', 5);
\ No newline at end of file
@@ -271,5 +271,48 @@ export const validateBulkImport = [
     .isLength({ min: 2, max: 255 })
     .withMessage('Each full name must be 2-255 characters'),
     
+  handleValidationErrors,
+];
+
+// Points recalculation validation
+export const validatePointsRecalculation = [
+  body('asOf')
+    .optional()
+    .isISO8601()
+    .withMessage('asOf must be a valid ISO 8601 date'),
+    
+  handleValidationErrors,
+];
+
+// Suspension policy validation
+export const validateSuspensionPolicy = [
+  body('warningPoints')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Warning points must be between 1 and 100'),
+    
+  body('tiers')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('Between 1 and 10 suspension tiers are required'),
+    
+  body('tiers.*.points')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Tier points must be between 1 and 100'),
+    
+  body('tiers.*.durationDays')
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Tier duration must be between 1 and 3650 days'),
+    
+  body('offenceSuspensionDays')
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Offence suspension must be between 1 and 3650 days'),
+    
+  body('revocationSuspensionCount')
+    .isInt({ min: 1, max: 20 })
+    .withMessage('Revocation suspension count must be between 1 and 20'),
+    
+  body('revocationWindowMonths')
+    .isInt({ min: 1, max: 120 })
+    .withMessage('Revocation window must be between 1 and 120 months'),
+    
   handleValidationErrors,
 ];
\ No newline at end of file
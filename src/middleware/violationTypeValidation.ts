@@ -0,0 +1,211 @@
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors } from './violationValidation';
+import { Measurements } from '../utils/measurements';
+
+const VIOLATION_CATEGORIES = ['equipment', 'documentation', 'traffic', 'parking', 'vehicle_condition', 'dangerous_driving'];
+
+// Schema structure is checked here; whether bands fit the schema is checked by the service
+const measurementSchemaRules = () => [
+  body('measurementSchema')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Measurement schema must be an object')
+    .bail()
+    .custom((schema) => {
+      const errors = Measurements.validateSchema(schema);
+      if (errors.length > 0) {
+        throw new Error(errors.join('; '));
+      }
+      return true;
+    }),
+];
+
+const fineBandRules = () => [
+  body('bands')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Bands must be an array of at most 10 items'),
+    
+  body('bands.*.from')
+    .isFloat()
+    .withMessage('Band start must be a number')
+    .toFloat(),
+    
+  body('bands.*.to')
+    .optional({ values: 'null' })
+    .isFloat()
+    .withMessage('Band end must be a number')
+    .toFloat(),
+    
+  body('bands.*.fineAmount')
+    .isFloat({ min: 0 })
+    .withMessage('Band fine amount must be a positive number')
+    .toFloat(),
+    
+  body('bands.*.points')
+    .isInt({ min: 0, max: 12 })
+    .withMessage('Band points must be between 0 and 12')
+    .toInt(),
+];
+
+// Violation type ID parameter validation
+export const validateViolationTypeIdParam = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
+
+// Violation type listing validation
+export const validateViolationTypeQuery = [
+  query('category')
+    .optional()
+    .isIn(VIOLATION_CATEGORIES)
+    .withMessage(`Category must be one of: ${VIOLATION_CATEGORIES.join(', ')}`),
+    
+  query('includeInactive')
+    .optional()
+    .isBoolean()
+    .withMessage('includeInactive must be a boolean'),
+    
+  handleValidationErrors,
+];
+
+// Violation type creation validation
+export const validateViolationTypeCreation = [
+  body('code')
+    .trim()
+    .matches(/^[A-Za-z0-9_-]{2,20}$/)
+    .withMessage('Code must be 2-20 letters, digits, hyphens or underscores'),
+    
+  body('title')
+    .trim()
+    .isLength({ min: 3, max: 200 })
+    .withMessage('Title must be between 3 and 200 characters'),
+    
+  body('description')
+    .trim()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('Description must be between 10 and 2000 characters'),
+    
+  body('category')
+    .isIn(VIOLATION_CATEGORIES)
+    .withMessage(`Category must be one of: ${VIOLATION_CATEGORIES.join(', ')}`),
+    
+  body('fineAmount')
+    .isFloat({ min: 0 })
+    .withMessage('Fine amount must be a positive number'),
+    
+  body('points')
+    .isInt({ min: 0, max: 12 })
+    .withMessage('Points must be between 0 and 12'),
+    
+  body('suspensionEligible')
+    .optional()
+    .isBoolean()
+    .withMessage('suspensionEligible must be a boolean'),
+    
+  body('cautionEligible')
+    .optional()
+    .isBoolean()
+    .withMessage('cautionEligible must be a boolean'),
+    
+  body('liability')
+    .optional()
+    .isIn(['driver', 'vehicle'])
+    .withMessage('Liability must be driver or vehicle'),
+    
+  ...measurementSchemaRules(),
+    
+  ...fineBandRules(),
+    
+  body('reference')
+    .optional()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage('Reference cannot exceed 255 characters'),
+    
+  handleValidationErrors,
+];
+
+// Violation type update validation
+export const validateViolationTypeUpdate = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer'),
+    
+  body('code')
+    .not().exists()
+    .withMessage('Violation codes cannot be changed; deactivate the code and create a new one'),
+    
+  body(['fineAmount', 'points'])
+    .not().exists()
+    .withMessage('Fines and points are changed by adding a fine schedule'),
+    
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 3, max: 200 })
+    .withMessage('Title must be between 3 and 200 characters'),
+    
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('Description must be between 10 and 2000 characters'),
+    
+  body('category')
+    .optional()
+    .isIn(VIOLATION_CATEGORIES)
+    .withMessage(`Category must be one of: ${VIOLATION_CATEGORIES.join(', ')}`),
+    
+  body('suspensionEligible')
+    .optional()
+    .isBoolean()
+    .withMessage('suspensionEligible must be a boolean'),
+    
+  body('cautionEligible')
+    .optional()
+    .isBoolean()
+    .withMessage('cautionEligible must be a boolean'),
+    
+  body('liability')
+    .optional()
+    .isIn(['driver', 'vehicle'])
+    .withMessage('Liability must be driver or vehicle'),
+    
+  ...measurementSchemaRules(),
+    
+  handleValidationErrors,
+];
+
+// Fine schedule validation
+export const validateFineSchedule = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer'),
+    
+  body('fineAmount')
+    .isFloat({ min: 0 })
+    .withMessage('Fine amount must be a positive number'),
+    
+  body('points')
+    .isInt({ min: 0, max: 12 })
+    .withMessage('Points must be between 0 and 12'),
+    
+  body('effectiveFrom')
+    .optional()
+    .isISO8601()
+    .withMessage('Effective date must be a valid ISO 8601 date')
+    .toDate(),
+    
+  ...fineBandRules(),
+    
+  body('reference')
+    .trim()
+    .isLength({ min: 3, max: 255 })
+    .withMessage('Reference to the gazette or circular is required (3-255 characters)'),
+    
+  handleValidationErrors,
+];
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { body, param, query, Result, validationResult, ValidationError } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { ViolationType } from '../models';
+import { TicketNumber } from '../utils/ticketNumber';
+import { Measurements } from '../utils/measurements';
 
 // Handle validation errors
 export const handleValidationErrors = (
@@ -35,6 +38,66 @@ export const handleValidationErrors = (
     next();
   };
 
+// Multipart forms send ID lists as a JSON string or a comma-separated list
+const parseIdList = (value: any) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return value.split(',').map(id => Number(id.trim()));
+  }
+};
+
+// Multipart forms send nested objects as a JSON string
+const parseJsonObject = (value: any) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Check measurements keyed by violation type ID against each type's schema
+const checkMeasurements = async (measurements: any, violationTypeIds: any) => {
+  if (!Array.isArray(violationTypeIds) || !violationTypeIds.every(id => Number.isInteger(id) && id > 0)) {
+    return true; // Reported by the violation type ID validator
+  }
+
+  if (measurements !== undefined && (typeof measurements !== 'object' || measurements === null || Array.isArray(measurements))) {
+    throw new Error('Measurements must be an object keyed by violation type ID');
+  }
+
+  const values = measurements || {};
+  const stray = Object.keys(values).filter(key => !violationTypeIds.includes(Number(key)));
+
+  if (stray.length > 0) {
+    throw new Error(`Measurements given for violation type(s) not being booked: ${stray.join(', ')}`);
+  }
+
+  const violationTypes = await ViolationType.findAll({
+    where: { id: violationTypeIds },
+    attributes: ['id', 'code', 'measurementSchema']
+  });
+
+  const errors = violationTypes.flatMap(type =>
+    Measurements.validateValues(type.measurementSchema, values[type.id]).errors.map(error => `${type.code}: ${error}`)
+  );
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  return true;
+};
+
 // Violation creation validation
 export const validateViolationCreation = [
   body('plateNumber')
@@ -46,6 +109,7 @@ export const validateViolationCreation = [
     .withMessage('Plate number can only contain letters, numbers, hyphens, and spaces'),
     
   body('violationTypeIds')
+    .customSanitizer(parseIdList)
     .isArray({ min: 1, max: 10 })
     .withMessage('At least 1 and maximum 10 violation types required')
     .custom((violationTypeIds) => {
@@ -57,7 +121,9 @@ export const validateViolationCreation = [
     .notEmpty()
     .withMessage('Location state is required')
     .isLength({ min: 2, max: 50 })
-    .withMessage('Location state must be 2-50 characters'),
+    .withMessage('Location state must be 2-50 characters')
+    .custom((state) => TicketNumber.resolveStateCode(state) !== null)
+    .withMessage('Location state must be a Nigerian state or the FCT'),
     
   body('locationLga')
     .optional()
@@ -79,15 +145,42 @@ export const validateViolationCreation = [
     .isFloat({ min: -180, max: 180 })
     .withMessage('Longitude must be between -180 and 180'),
     
-  body('evidencePhotos')
+  body('capturedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Capture time must be a valid date')
+    .toDate(),
+
+  body('mode')
+    .optional()
+    .isIn(['ticket', 'caution'])
+    .withMessage('Mode must be ticket or caution'),
+    
+  body('driverLicenseNumber')
+    .optional()
+    .isLength({ min: 5, max: 50 })
+    .withMessage('Driver license number must be 5-50 characters')
+    .matches(/^[A-Za-z0-9\-\s]+$/)
+    .withMessage('Driver license number can only contain letters, numbers, hyphens, and spaces'),
+    
+  body('driverName')
     .optional()
-    .isArray({ max: 5 })
-    .withMessage('Maximum 5 evidence photos allowed'),
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Driver name must be 2-255 characters'),
     
-  body('evidencePhotos.*')
+  body('driverPhone')
+    .optional()
+    .matches(/^\+234[0-9]{10}$/)
+    .withMessage('Driver phone must be in format +234xxxxxxxxxx'),
+    
+  body('measurements')
+    .customSanitizer(parseJsonObject)
+    .custom((measurements, { req }) => checkMeasurements(measurements, req.body.violationTypeIds)),
+
+  body('additionalEvidence')
     .optional()
-    .isLength({ min: 1, max: 255 })
-    .withMessage('Each photo filename must be 1-255 characters'),
+    .isLength({ max: 1000 })
+    .withMessage('Additional evidence notes must be less than 1000 characters'),
     
   body('officerNotes')
     .optional()
@@ -112,6 +205,325 @@ export const validateViolationCreation = [
   handleValidationErrors,
 ];
 
+// Offline batch sync validation
+export const validateOfflineSync = [
+  body('violations')
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Between 1 and 50 violations can be synced per batch')
+    .custom((violations) => {
+      const references = violations.map((v: any) => v?.clientReference);
+      return new Set(references).size === references.length;
+    })
+    .withMessage('Each violation in a batch must have a distinct client reference'),
+
+  body('violations.*.clientReference')
+    .isUUID()
+    .withMessage('Client reference must be a UUID'),
+
+  body('violations.*.recordedAt')
+    .isISO8601()
+    .withMessage('Recorded time must be a valid date')
+    .toDate(),
+
+  body('violations.*.plateNumber')
+    .notEmpty()
+    .withMessage('Plate number is required')
+    .isLength({ min: 6, max: 15 })
+    .withMessage('Plate number must be 6-15 characters')
+    .matches(/^[A-Za-z0-9\-\s]+$/)
+    .withMessage('Plate number can only contain letters, numbers, hyphens, and spaces'),
+
+  body('violations.*.violationTypeIds')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('At least 1 and maximum 10 violation types required')
+    .custom((violationTypeIds) => {
+      return violationTypeIds.every((id: any) => Number.isInteger(id) && id > 0);
+    })
+    .withMessage('All violation type IDs must be positive integers'),
+
+  body('violations.*.locationState')
+    .notEmpty()
+    .withMessage('Location state is required')
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Location state must be 2-50 characters')
+    .custom((state) => TicketNumber.resolveStateCode(state) !== null)
+    .withMessage('Location state must be a Nigerian state or the FCT'),
+
+  body('violations.*.locationLga')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Location LGA must be 2-100 characters'),
+
+  body('violations.*.locationAddress')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Location address must be less than 500 characters'),
+
+  body('violations.*.locationLat')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+
+  body('violations.*.locationLng')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+
+  body('violations.*.officerNotes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Officer notes must be less than 1000 characters'),
+
+  body('violations.*.mode')
+    .optional()
+    .isIn(['ticket', 'caution'])
+    .withMessage('Mode must be ticket or caution'),
+
+  body('violations.*.driverLicenseNumber')
+    .optional()
+    .isLength({ min: 5, max: 50 })
+    .withMessage('Driver license number must be 5-50 characters')
+    .matches(/^[A-Za-z0-9\-\s]+$/)
+    .withMessage('Driver license number can only contain letters, numbers, hyphens, and spaces'),
+
+  body('violations.*.driverName')
+    .optional()
+    .isLength({ min: 2, max: 255 })
+    .withMessage('Driver name must be 2-255 characters'),
+
+  body('violations.*.driverPhone')
+    .optional()
+    .matches(/^\+234[0-9]{10}$/)
+    .withMessage('Driver phone must be in format +234xxxxxxxxxx'),
+
+  body('violations.*')
+    .custom((item) => checkMeasurements(item?.measurements, item?.violationTypeIds)),
+
+  handleValidationErrors,
+];
+
+// Duplicate review queue validation
+export const validateDuplicateQueue = [
+  query('status')
+    .optional()
+    .isIn(['pending', 'merged', 'voided', 'kept'])
+    .withMessage('Status must be: pending, merged, voided, or kept'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  handleValidationErrors,
+];
+
+// Duplicate review resolution validation
+export const validateDuplicateResolution = [
+  param('reviewId')
+    .isInt({ min: 1 })
+    .withMessage('Review ID must be a positive integer'),
+
+  body('action')
+    .isIn(['merge', 'void', 'keep'])
+    .withMessage('Action must be: merge, void, or keep'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be less than 1000 characters'),
+
+  handleValidationErrors,
+];
+
+// Ticket correction request validation
+export const validateCorrectionRequest = [
+  body('type')
+    .isIn(['amendment', 'void'])
+    .withMessage('Type must be: amendment or void'),
+
+  body('reason')
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ min: 10, max: 1000 })
+    .withMessage('Reason must be 10-1000 characters'),
+
+  body('changes')
+    .if(body('type').equals('amendment'))
+    .isObject()
+    .withMessage('Changes are required for an amendment'),
+
+  body('changes.plateNumber')
+    .optional()
+    .isLength({ min: 6, max: 15 })
+    .withMessage('Plate number must be 6-15 characters')
+    .matches(/^[A-Za-z0-9\-\s]+$/)
+    .withMessage('Plate number can only contain letters, numbers, hyphens, and spaces'),
+
+  body('changes.violationTypeId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Violation type ID must be a positive integer')
+    .toInt(),
+
+  body('changes.locationLga')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Location LGA must be 2-100 characters'),
+
+  body('changes.locationAddress')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Location address must be less than 500 characters'),
+
+  body('changes.officerNotes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Officer notes must be less than 1000 characters'),
+
+  body('changes.measurements')
+    .optional()
+    .isObject()
+    .withMessage('Measurements must be an object of field values'),
+
+  handleValidationErrors,
+];
+
+// Ticket correction queue validation
+export const validateCorrectionQueue = [
+  query('status')
+    .optional()
+    .isIn(['pending', 'approved', 'rejected'])
+    .withMessage('Status must be: pending, approved, or rejected'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  handleValidationErrors,
+];
+
+// Ticket correction review validation
+export const validateCorrectionReview = [
+  param('correctionId')
+    .isInt({ min: 1 })
+    .withMessage('Correction ID must be a positive integer'),
+
+  body('decision')
+    .isIn(['approved', 'rejected'])
+    .withMessage('Decision must be: approved or rejected'),
+
+  body('notes')
+    .if(body('decision').equals('rejected'))
+    .notEmpty()
+    .withMessage('Notes are required when rejecting a correction'),
+
+  body('notes')
+    .optional()
+    .isLength({ max: 1000 })
+    .withMessage('Notes must be less than 1000 characters'),
+
+  handleValidationErrors,
+];
+
+// Hotspot analytics validation
+export const validateHotspotQuery = [
+  query('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+
+  query('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+
+  query('category')
+    .optional()
+    .isIn(['equipment', 'documentation', 'traffic', 'parking', 'vehicle_condition', 'dangerous_driving'])
+    .withMessage('Category must be: equipment, documentation, traffic, parking, vehicle_condition, or dangerous_driving'),
+
+  query('locationState')
+    .optional()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Location state must be 2-50 characters'),
+
+  query('startHour')
+    .optional()
+    .isInt({ min: 0, max: 23 })
+    .withMessage('Start hour must be between 0 and 23'),
+
+  query('endHour')
+    .optional()
+    .isInt({ min: 0, max: 23 })
+    .withMessage('End hour must be between 0 and 23'),
+
+  query('cellSizeMeters')
+    .optional()
+    .isInt({ min: 100, max: 50000 })
+    .withMessage('Cell size must be between 100 and 50000 metres'),
+
+  handleValidationErrors,
+];
+
+// Add evidence to an existing violation
+export const validateEvidenceUpload = [
+  body('capturedAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Capture time must be a valid date')
+    .toDate(),
+
+  body('description')
+    .optional()
+    .isLength({ max: 500 })
+    .withMessage('Description must be less than 500 characters'),
+
+  handleValidationErrors,
+];
+
+// Evidence file retrieval
+export const validateEvidenceFileParams = [
+  param('evidenceId')
+    .isInt({ min: 1 })
+    .withMessage('Evidence ID must be a positive integer'),
+
+  query('variant')
+    .optional()
+    .isIn(['display', 'thumbnail', 'original'])
+    .withMessage('Variant must be: display, thumbnail, or original'),
+
+  query('download')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Download must be true or false'),
+
+  handleValidationErrors,
+];
+
+export const validateAppealDocumentParams = [
+  param('fileName')
+    .matches(/^appeal_\w+_\d+_\d+\.[a-z0-9]+$/i)
+    .withMessage('Invalid appeal document name'),
+
+  query('download')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Download must be true or false'),
+
+  handleValidationErrors,
+];
+
 // Violation search validation
 export const validateViolationSearch = [
   query('plateNumber')
@@ -128,6 +540,11 @@ export const validateViolationSearch = [
     .optional()
     .isInt({ min: 1 })
     .withMessage('Officer ID must be a positive integer'),
+
+  query('driverId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Driver ID must be a positive integer'),
     
   query('violationTypeId')
     .optional()
@@ -136,8 +553,8 @@ export const validateViolationSearch = [
     
   query('status')
     .optional()
-    .isIn(['pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending'])
-    .withMessage('Status must be: pending, paid, partially_paid, contested, dismissed, or court_pending'),
+    .isIn(['pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'])
+    .withMessage('Status must be: pending, paid, partially_paid, contested, dismissed, court_pending, or cautioned'),
     
   query('locationState')
     .optional()
@@ -174,10 +591,46 @@ export const validateViolationSearch = [
     .isInt({ min: 1, max: 100 })
     .withMessage('Limit must be between 1 and 100'),
     
+  query('nearLat')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+
+  query('nearLng')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
+
+  query('radiusMeters')
+    .optional()
+    .isInt({ min: 1, max: 200000 })
+    .withMessage('Radius must be between 1 and 200000 metres')
+    .custom((radius, { req }) => req.query?.nearLat !== undefined && req.query?.nearLng !== undefined)
+    .withMessage('A radius search needs nearLat and nearLng'),
+
+  query('bbox')
+    .optional()
+    .custom((bbox) => {
+      const parts = String(bbox).split(',').map(Number);
+      if (parts.length !== 4 || parts.some(isNaN)) return false;
+      const [west, south, east, north] = parts;
+      return west >= -180 && east <= 180 && south >= -90 && north <= 90 && south < north;
+    })
+    .withMessage('Bounding box must be west,south,east,north in decimal degrees'),
+
+  query('q')
+    .optional()
+    .isLength({ min: 3, max: 200 })
+    .withMessage('Search text must be 3-200 characters'),
+
   query('sortBy')
     .optional()
-    .isIn(['violationDate', 'dueDate', 'fineAmount', 'ticketNumber'])
-    .withMessage('Sort by must be: violationDate, dueDate, fineAmount, or ticketNumber'),
+    .isIn(['violationDate', 'dueDate', 'fineAmount', 'ticketNumber', 'distance', 'relevance'])
+    .withMessage('Sort by must be: violationDate, dueDate, fineAmount, ticketNumber, distance, or relevance')
+    .custom((sortBy, { req }) => sortBy !== 'distance' || (req.query?.nearLat !== undefined && req.query?.nearLng !== undefined))
+    .withMessage('Sorting by distance needs nearLat and nearLng')
+    .custom((sortBy, { req }) => sortBy !== 'relevance' || req.query?.q !== undefined)
+    .withMessage('Sorting by relevance needs search text (q)'),
     
   query('sortOrder')
     .optional()
@@ -187,11 +640,21 @@ export const validateViolationSearch = [
   handleValidationErrors,
 ];
 
+// Violation export format validation; filters are checked by validateViolationSearch
+export const validateViolationExport = [
+  query('format')
+    .optional()
+    .isIn(['csv', 'ndjson'])
+    .withMessage('Format must be csv or ndjson'),
+    
+  handleValidationErrors,
+];
+
 // Status update validation
 export const validateStatusUpdate = [
   body('status')
-    .isIn(['pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending'])
-    .withMessage('Status must be: pending, paid, partially_paid, contested, dismissed, or court_pending'),
+    .isIn(['pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'])
+    .withMessage('Status must be: pending, paid, partially_paid, contested, dismissed, court_pending, or cautioned'),
     
   body('notes')
     .optional()
@@ -254,6 +717,11 @@ export const validateReportGeneration = [
     .isInt({ min: 1 })
     .withMessage('Violation type ID filter must be a positive integer'),
     
+  body('format')
+    .optional()
+    .isIn(['json', 'pdf', 'xlsx', 'csv'])
+    .withMessage('Format must be: json, pdf, xlsx, or csv'),
+    
   handleValidationErrors,
 ];
 
@@ -272,7 +740,16 @@ export const validateTicketParam = [
     .notEmpty()
     .withMessage('Ticket number parameter is required')
     .isLength({ min: 8, max: 50 })
-    .withMessage('Ticket number must be 8-50 characters'),
+    .withMessage('Ticket number must be 8-50 characters')
+    .bail()
+    .custom((ticketNumber) => {
+      const result = TicketNumber.validate(ticketNumber);
+      if (!result.isValid) {
+        throw new Error(result.error);
+      }
+      return true;
+    })
+    .customSanitizer((ticketNumber) => TicketNumber.validate(ticketNumber).normalized),
     
   handleValidationErrors,
 ];
@@ -319,5 +796,93 @@ export const validateStatsDateRange = [
       return true;
     }),
     
+  handleValidationErrors,
+];
+
+// Statistics rollup rebuild validation
+export const validateStatsRollupRebuild = [
+  body('startDate')
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+    
+  body('endDate')
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date')
+    .custom((endDate, { req }) => {
+      if (new Date(endDate) < new Date(req.body.startDate)) {
+        throw new Error('End date must be on or after start date');
+      }
+      return true;
+    }),
+    
+  handleValidationErrors,
+];
+
+// Appeal queue validation
+export const validateAppealQueue = [
+  query('status')
+    .optional()
+    .isIn(['submitted', 'under_review', 'hearing_scheduled', 'decided'])
+    .withMessage('Status must be: submitted, under_review, hearing_scheduled, or decided'),
+    
+  query('reviewerId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Reviewer ID must be a positive integer'),
+    
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+    
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+    
+  handleValidationErrors,
+];
+
+// Appeal reviewer assignment validation
+export const validateAppealReviewer = [
+  body('reviewerId')
+    .isInt({ min: 1 })
+    .withMessage('Reviewer ID must be a positive integer'),
+    
+  handleValidationErrors,
+];
+
+// Appeal hearing validation
+export const validateAppealHearing = [
+  body('hearingDate')
+    .isISO8601()
+    .withMessage('Hearing date must be a valid ISO 8601 date'),
+    
+  body('hearingLocation')
+    .notEmpty()
+    .withMessage('Hearing location is required')
+    .isLength({ min: 3, max: 255 })
+    .withMessage('Hearing location must be 3-255 characters'),
+    
+  handleValidationErrors,
+];
+
+// Appeal decision validation
+export const validateAppealDecision = [
+  body('decision')
+    .isIn(['upheld', 'reduced_fine', 'overturned'])
+    .withMessage('Decision must be: upheld, reduced_fine, or overturned'),
+    
+  body('decisionReason')
+    .notEmpty()
+    .withMessage('Decision reason is required')
+    .isLength({ min: 10, max: 1000 })
+    .withMessage('Decision reason must be 10-1000 characters'),
+    
+  body('revisedFineAmount')
+    .if(body('decision').equals('reduced_fine'))
+    .isFloat({ min: 0 })
+    .withMessage('Revised fine amount is required for a reduced fine and must be a positive number'),
+    
   handleValidationErrors,
 ];
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type AppealStatus = 'submitted' | 'under_review' | 'hearing_scheduled' | 'decided';
+export type AppealDecision = 'upheld' | 'reduced_fine' | 'overturned';
+
+export interface AppealDocument {
+  fileName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy?: number;
+  uploadedAt: string;
+}
+
+interface AppealAttributes {
+  id: number;
+  violationId: number;
+  status: AppealStatus;
+  reason: string;
+  submittedBy?: number | null;
+  reviewerId?: number | null;
+  assignedAt?: Date | null;
+  supportingDocuments: AppealDocument[];
+  hearingDate?: Date | null;
+  hearingLocation?: string;
+  decision?: AppealDecision | null;
+  decisionReason?: string;
+  originalFineAmount: number;
+  revisedFineAmount?: number | null;
+  decidedBy?: number | null;
+  decidedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface AppealCreationAttributes extends Optional<AppealAttributes, 'id' | 'status' | 'submittedBy' | 'reviewerId' | 'assignedAt' | 'supportingDocuments' | 'hearingDate' | 'hearingLocation' | 'decision' | 'decisionReason' | 'revisedFineAmount' | 'decidedBy' | 'decidedAt' | 'createdAt' | 'updatedAt'> {}
+
+class Appeal extends Model<AppealAttributes, AppealCreationAttributes> implements AppealAttributes {
+  public id!: number;
+  public violationId!: number;
+  public status!: AppealStatus;
+  public reason!: string;
+  public submittedBy?: number | null;
+  public reviewerId?: number | null;
+  public assignedAt?: Date | null;
+  public supportingDocuments!: AppealDocument[];
+  public hearingDate?: Date | null;
+  public hearingLocation?: string;
+  public decision?: AppealDecision | null;
+  public decisionReason?: string;
+  public originalFineAmount!: number;
+  public revisedFineAmount?: number | null;
+  public decidedBy?: number | null;
+  public decidedAt?: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the appeal can still be worked on
+  public isOpen(): boolean {
+    return this.status !== 'decided';
+  }
+}
+
+Appeal.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      unique: true,
+      field: 'violation_id',
+    },
+    status: {
+      type: DataTypes.ENUM('submitted', 'under_review', 'hearing_scheduled', 'decided'),
+      defaultValue: 'submitted',
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    submittedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'submitted_by',
+    },
+    reviewerId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'reviewer_id',
+    },
+    assignedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'assigned_at',
+    },
+    supportingDocuments: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+      field: 'supporting_documents',
+    },
+    hearingDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'hearing_date',
+    },
+    hearingLocation: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'hearing_location',
+    },
+    decision: {
+      type: DataTypes.ENUM('upheld', 'reduced_fine', 'overturned'),
+      allowNull: true,
+    },
+    decisionReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'decision_reason',
+    },
+    originalFineAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      field: 'original_fine_amount',
+    },
+    revisedFineAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      field: 'revised_fine_amount',
+      validate: {
+        min: 0,
+      },
+    },
+    decidedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'decided_by',
+    },
+    decidedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'decided_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'appeals',
+    underscored: true,
+    timestamps: true,
+  }
+);
+
+export default Appeal;
\ No newline at end of file
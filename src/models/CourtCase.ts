@@ -0,0 +1,143 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type CourtCaseStatus = 'open' | 'decided';
+export type CourtVerdict = 'convicted' | 'acquitted' | 'struck_out';
+
+export interface CourtAdjournment {
+  previousHearingDate: string | null;
+  newHearingDate: string;
+  reason: string;
+  recordedBy: number;
+  recordedAt: string;
+}
+
+interface CourtCaseAttributes {
+  id: number;
+  caseNumber: string;
+  courtName: string;
+  courtLocation?: string;
+  status: CourtCaseStatus;
+  prosecutingOfficerId: number;
+  referredBy: number;
+  referralReason?: string;
+  nextHearingDate?: Date | null;
+  adjournments: CourtAdjournment[];
+  verdict?: CourtVerdict | null;
+  verdictNotes?: string;
+  verdictDate?: Date | null;
+  recordedBy?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface CourtCaseCreationAttributes extends Optional<CourtCaseAttributes, 'id' | 'courtLocation' | 'status' | 'referralReason' | 'nextHearingDate' | 'adjournments' | 'verdict' | 'verdictNotes' | 'verdictDate' | 'recordedBy' | 'createdAt' | 'updatedAt'> {}
+
+class CourtCase extends Model<CourtCaseAttributes, CourtCaseCreationAttributes> implements CourtCaseAttributes {
+  public id!: number;
+  public caseNumber!: string;
+  public courtName!: string;
+  public courtLocation?: string;
+  public status!: CourtCaseStatus;
+  public prosecutingOfficerId!: number;
+  public referredBy!: number;
+  public referralReason?: string;
+  public nextHearingDate?: Date | null;
+  public adjournments!: CourtAdjournment[];
+  public verdict?: CourtVerdict | null;
+  public verdictNotes?: string;
+  public verdictDate?: Date | null;
+  public recordedBy?: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the case is still before the court
+  public isOpen(): boolean {
+    return this.status === 'open';
+  }
+}
+
+CourtCase.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    caseNumber: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      field: 'case_number',
+    },
+    courtName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'court_name',
+    },
+    courtLocation: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'court_location',
+    },
+    status: {
+      type: DataTypes.ENUM('open', 'decided'),
+      defaultValue: 'open',
+    },
+    prosecutingOfficerId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'prosecuting_officer_id',
+    },
+    referredBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'referred_by',
+    },
+    referralReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'referral_reason',
+    },
+    nextHearingDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'next_hearing_date',
+    },
+    adjournments: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+    },
+    verdict: {
+      type: DataTypes.ENUM('convicted', 'acquitted', 'struck_out'),
+      allowNull: true,
+    },
+    verdictNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'verdict_notes',
+    },
+    verdictDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'verdict_date',
+    },
+    recordedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'recorded_by',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'court_cases',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['status', 'next_hearing_date'] },
+    ],
+  }
+);
+
+export default CourtCase;
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type DriverLicenseStatus = 'active' | 'suspended' | 'expired' | 'revoked';
+
+interface DriverAttributes {
+  id: number;
+  licenseNumber: string;
+  fullName: string;
+  dateOfBirth?: Date | null;
+  address?: string;
+  phone?: string;
+  email?: string;
+  licenseClass: 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+  stateOfIssue?: string;
+  issueDate?: Date;
+  expiryDate?: Date;
+  status: DriverLicenseStatus;
+  currentPoints: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface DriverCreationAttributes extends Optional<DriverAttributes, 'id' | 'licenseClass' | 'status' | 'currentPoints' | 'createdAt' | 'updatedAt'> {}
+
+class Driver extends Model<DriverAttributes, DriverCreationAttributes> implements DriverAttributes {
+  public id!: number;
+  public licenseNumber!: string;
+  public fullName!: string;
+  public dateOfBirth?: Date | null;
+  public address?: string;
+  public phone?: string;
+  public email?: string;
+  public licenseClass!: 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+  public stateOfIssue?: string;
+  public issueDate?: Date;
+  public expiryDate?: Date;
+  public status!: DriverLicenseStatus;
+  public currentPoints!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if license is expired
+  public isLicenseExpired(): boolean {
+    if (!this.expiryDate) return false;
+    return new Date() > this.expiryDate;
+  }
+
+  // Instance method to check if suspension is warranted; the threshold comes from the suspension policy
+  public shouldBeSuspended(pointThreshold: number): boolean {
+    return this.currentPoints >= pointThreshold;
+  }
+}
+
+Driver.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    licenseNumber: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+      field: 'license_number',
+      validate: {
+        notEmpty: true,
+      },
+    },
+    fullName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'full_name',
+      validate: {
+        notEmpty: true,
+      },
+    },
+    dateOfBirth: {
+      type: DataTypes.DATEONLY,
+      allowNull: true,
+      field: 'date_of_birth',
+    },
+    address: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    phone: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    email: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    licenseClass: {
+      type: DataTypes.ENUM('A', 'B', 'C', 'D', 'E', 'F'),
+      defaultValue: 'C',
+      field: 'license_class',
+    },
+    stateOfIssue: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+      field: 'state_of_issue',
+    },
+    issueDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'issue_date',
+    },
+    expiryDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'expiry_date',
+    },
+    status: {
+      type: DataTypes.ENUM('active', 'suspended', 'expired', 'revoked'),
+      defaultValue: 'active',
+    },
+    currentPoints: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+      field: 'current_points',
+      validate: {
+        min: 0,
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'drivers',
+    underscored: true,
+    timestamps: true,
+  }
+);
+
+export default Driver;
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type DuplicateReviewStatus = 'pending' | 'merged' | 'voided' | 'kept';
+
+interface DuplicateReviewAttributes {
+  id: number;
+  violationId: number;
+  duplicateOfId: number;
+  minutesApart: number;
+  distanceMeters?: number | null;
+  status: DuplicateReviewStatus;
+  resolvedBy?: number | null;
+  resolvedAt?: Date | null;
+  resolutionNotes?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface DuplicateReviewCreationAttributes extends Optional<DuplicateReviewAttributes, 'id' | 'distanceMeters' | 'status' | 'resolvedBy' | 'resolvedAt' | 'resolutionNotes' | 'createdAt' | 'updatedAt'> {}
+
+class DuplicateReview extends Model<DuplicateReviewAttributes, DuplicateReviewCreationAttributes> implements DuplicateReviewAttributes {
+  public id!: number;
+  public violationId!: number;
+  public duplicateOfId!: number;
+  public minutesApart!: number;
+  public distanceMeters?: number | null;
+  public status!: DuplicateReviewStatus;
+  public resolvedBy?: number | null;
+  public resolvedAt?: Date | null;
+  public resolutionNotes?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the review still awaits a supervisor
+  public isPending(): boolean {
+    return this.status === 'pending';
+  }
+}
+
+DuplicateReview.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      unique: true,
+      field: 'violation_id',
+    },
+    duplicateOfId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'duplicate_of_id',
+    },
+    minutesApart: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'minutes_apart',
+    },
+    distanceMeters: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Unknown when either ticket has no GPS fix
+      field: 'distance_meters',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'merged', 'voided', 'kept'),
+      defaultValue: 'pending',
+    },
+    resolvedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'resolved_by',
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'resolved_at',
+    },
+    resolutionNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'resolution_notes',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'duplicate_reviews',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['status', 'created_at'] },
+      { fields: ['duplicate_of_id'] },
+    ],
+  }
+);
+
+export default DuplicateReview;
\ No newline at end of file
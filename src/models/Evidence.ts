@@ -0,0 +1,133 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface EvidenceAttributes {
+  id: number;
+  violationId: number;
+  fileName: string;
+  originalName?: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  originalMimeType: string;
+  originalSize: number;
+  originalSha256: string;
+  width?: number | null;
+  height?: number | null;
+  capturedAt?: Date | null;
+  uploadedBy: number;
+  description?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface EvidenceCreationAttributes extends Optional<EvidenceAttributes, 'id' | 'originalName' | 'width' | 'height' | 'capturedAt' | 'description' | 'createdAt' | 'updatedAt'> {}
+
+class Evidence extends Model<EvidenceAttributes, EvidenceCreationAttributes> implements EvidenceAttributes {
+  public id!: number;
+  public violationId!: number;
+  public fileName!: string;
+  public originalName?: string;
+  public mimeType!: string;
+  public size!: number;
+  public sha256!: string;
+  public originalMimeType!: string;
+  public originalSize!: number;
+  public originalSha256!: string;
+  public width?: number | null;
+  public height?: number | null;
+  public capturedAt?: Date | null;
+  public uploadedBy!: number;
+  public description?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Evidence.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    fileName: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      field: 'file_name',
+    },
+    originalName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'original_name',
+    },
+    mimeType: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: 'mime_type',
+    },
+    size: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    sha256: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    // The file as received from the device, kept alongside the resized copy
+    originalMimeType: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      field: 'original_mime_type',
+    },
+    originalSize: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'original_size',
+    },
+    originalSha256: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'original_sha256',
+    },
+    width: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    height: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    capturedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'captured_at',
+    },
+    uploadedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'uploaded_by',
+    },
+    description: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'evidence',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['violation_id'] },
+      { fields: ['sha256'] },
+      { fields: ['original_sha256'] },
+    ],
+  }
+);
+
+export default Evidence;
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type EvidenceAccessAction = 'view' | 'download' | 'verify' | 'manifest';
+
+interface EvidenceAccessLogAttributes {
+  id: number;
+  evidenceId?: number | null;
+  violationId: number;
+  userId: number;
+  action: EvidenceAccessAction;
+  variant?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt?: Date;
+}
+
+interface EvidenceAccessLogCreationAttributes extends Optional<EvidenceAccessLogAttributes, 'id' | 'evidenceId' | 'variant' | 'ipAddress' | 'userAgent' | 'createdAt'> {}
+
+class EvidenceAccessLog extends Model<EvidenceAccessLogAttributes, EvidenceAccessLogCreationAttributes> implements EvidenceAccessLogAttributes {
+  public id!: number;
+  public evidenceId?: number | null;
+  public violationId!: number;
+  public userId!: number;
+  public action!: EvidenceAccessAction;
+  public variant?: string | null;
+  public ipAddress?: string;
+  public userAgent?: string;
+  public readonly createdAt!: Date;
+}
+
+EvidenceAccessLog.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    evidenceId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Manifest requests cover every file on the ticket
+      field: 'evidence_id',
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    userId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'user_id',
+    },
+    action: {
+      type: DataTypes.ENUM('view', 'download', 'verify', 'manifest'),
+      allowNull: false,
+    },
+    variant: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+      field: 'ip_address',
+    },
+    userAgent: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+      field: 'user_agent',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'evidence_access_logs',
+    underscored: true,
+    timestamps: true,
+    updatedAt: false, // Access log rows are append-only
+    indexes: [
+      { fields: ['violation_id', 'created_at'] },
+      { fields: ['evidence_id'] },
+    ],
+  }
+);
+
+export default EvidenceAccessLog;
\ No newline at end of file
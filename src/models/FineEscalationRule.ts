@@ -0,0 +1,70 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface FineEscalationRuleAttributes {
+  id: number;
+  violationTypeId?: number | null;
+  offenceNumber: number;
+  multiplier: number;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface FineEscalationRuleCreationAttributes extends Optional<FineEscalationRuleAttributes, 'id' | 'violationTypeId' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+
+class FineEscalationRule extends Model<FineEscalationRuleAttributes, FineEscalationRuleCreationAttributes> implements FineEscalationRuleAttributes {
+  public id!: number;
+  public violationTypeId?: number | null;
+  public offenceNumber!: number;
+  public multiplier!: number;
+  public isActive!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FineEscalationRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationTypeId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Null rules apply to every violation type without its own schedule
+      field: 'violation_type_id',
+    },
+    offenceNumber: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'offence_number',
+      validate: {
+        min: 2,
+      },
+    },
+    multiplier: {
+      type: DataTypes.DECIMAL(4, 2),
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+      field: 'is_active',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fine_escalation_rules',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['violation_type_id', 'offence_number'] },
+    ],
+  }
+);
+
+export default FineEscalationRule;
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// Fine and points for a measured value in [from, to); values outside every band take the schedule's own rate
+export interface FineBand {
+  from: number;
+  to?: number | null;
+  fineAmount: number;
+  points: number;
+}
+
+interface FineScheduleAttributes {
+  id: number;
+  violationTypeId: number;
+  fineAmount: number;
+  points: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  bands?: FineBand[] | null;
+  reference?: string;
+  createdBy?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface FineScheduleCreationAttributes extends Optional<FineScheduleAttributes, 'id' | 'effectiveTo' | 'bands' | 'reference' | 'createdBy' | 'createdAt' | 'updatedAt'> {}
+
+class FineSchedule extends Model<FineScheduleAttributes, FineScheduleCreationAttributes> implements FineScheduleAttributes {
+  public id!: number;
+  public violationTypeId!: number;
+  public fineAmount!: number;
+  public points!: number;
+  public effectiveFrom!: Date;
+  public effectiveTo?: Date | null;
+  public bands?: FineBand[] | null;
+  public reference?: string;
+  public createdBy?: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the schedule applies at a given time
+  public isEffectiveAt(date: Date): boolean {
+    return new Date(this.effectiveFrom) <= date && (!this.effectiveTo || date < new Date(this.effectiveTo));
+  }
+
+  // Instance method to find the band a measured value falls in
+  public findBand(value: number): FineBand | null {
+    return (this.bands || []).find(band => value >= band.from && (band.to === null || band.to === undefined || value < band.to)) || null;
+  }
+}
+
+FineSchedule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationTypeId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_type_id',
+    },
+    fineAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      field: 'fine_amount',
+      validate: {
+        min: 0,
+      },
+    },
+    points: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0,
+        max: 12,
+      },
+    },
+    effectiveFrom: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'effective_from',
+    },
+    effectiveTo: {
+      type: DataTypes.DATE,
+      allowNull: true, // Open-ended until the next schedule takes over; exclusive
+      field: 'effective_to',
+    },
+    bands: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    reference: {
+      type: DataTypes.STRING(255),
+      allowNull: true, // Gazette or circular the rate comes from
+    },
+    createdBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'created_by',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fine_schedules',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['violation_type_id', 'effective_from'] },
+    ],
+  }
+);
+
+export default FineSchedule;
\ No newline at end of file
@@ -4,6 +4,28 @@ import VehicleOwner from './VehicleOwner';
 import ViolationType from './ViolationType';
 import Violation from './Violation';
 import Payment from './Payment';
+import ViolationStatusHistory from './ViolationStatusHistory';
+import Appeal from './Appeal';
+import PenaltyRule from './PenaltyRule';
+import PenaltyAccrual from './PenaltyAccrual';
+import PaymentPlan from './PaymentPlan';
+import PaymentInstallment from './PaymentInstallment';
+import CourtCase from './CourtCase';
+import SuspensionPolicy from './SuspensionPolicy';
+import LicenseSuspension from './LicenseSuspension';
+import FineEscalationRule from './FineEscalationRule';
+import Evidence from './Evidence';
+import EvidenceAccessLog from './EvidenceAccessLog';
+import TicketSequence from './TicketSequence';
+import DuplicateReview from './DuplicateReview';
+import TicketCorrection from './TicketCorrection';
+import FineSchedule from './FineSchedule';
+import Driver from './Driver';
+import ReportSchedule from './ReportSchedule';
+import ReportRun from './ReportRun';
+import ViolationDailyStat from './ViolationDailyStat';
+import PaymentDailyStat from './PaymentDailyStat';
+import StatRollupRefresh from './StatRollupRefresh';
 
 // Define associations
 
@@ -29,6 +51,17 @@ Violation.belongsTo(VehicleOwner, {
   as: 'vehicleOwner',
 });
 
+// Driver associations
+Driver.hasMany(Violation, {
+  foreignKey: 'driverId',
+  as: 'violations',
+});
+
+Violation.belongsTo(Driver, {
+  foreignKey: 'driverId',
+  as: 'driver',
+});
+
 // ViolationType associations
 ViolationType.hasMany(Violation, {
   foreignKey: 'violationTypeId',
@@ -51,6 +84,297 @@ Payment.belongsTo(Violation, {
   as: 'violation',
 });
 
+// Violation-StatusHistory associations
+Violation.hasMany(ViolationStatusHistory, {
+  foreignKey: 'violationId',
+  as: 'statusHistory',
+});
+
+ViolationStatusHistory.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+ViolationStatusHistory.belongsTo(User, {
+  foreignKey: 'changedBy',
+  as: 'changedByUser',
+});
+
+// Violation-Appeal associations
+Violation.hasOne(Appeal, {
+  foreignKey: 'violationId',
+  as: 'appeal',
+});
+
+Appeal.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+Appeal.belongsTo(User, {
+  foreignKey: 'reviewerId',
+  as: 'reviewer',
+});
+
+Appeal.belongsTo(User, {
+  foreignKey: 'decidedBy',
+  as: 'decider',
+});
+
+// Penalty associations
+ViolationType.hasOne(PenaltyRule, {
+  foreignKey: 'violationTypeId',
+  as: 'penaltyRule',
+});
+
+PenaltyRule.belongsTo(ViolationType, {
+  foreignKey: 'violationTypeId',
+  as: 'violationType',
+});
+
+Violation.hasMany(PenaltyAccrual, {
+  foreignKey: 'violationId',
+  as: 'penaltyAccruals',
+});
+
+PenaltyAccrual.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+PenaltyAccrual.belongsTo(PenaltyRule, {
+  foreignKey: 'penaltyRuleId',
+  as: 'penaltyRule',
+});
+
+// Payment plan associations
+Violation.hasMany(PaymentPlan, {
+  foreignKey: 'violationId',
+  as: 'paymentPlans',
+});
+
+PaymentPlan.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+PaymentPlan.belongsTo(User, {
+  foreignKey: 'grantedBy',
+  as: 'grantor',
+});
+
+PaymentPlan.hasMany(PaymentInstallment, {
+  foreignKey: 'paymentPlanId',
+  as: 'installments',
+});
+
+PaymentInstallment.belongsTo(PaymentPlan, {
+  foreignKey: 'paymentPlanId',
+  as: 'paymentPlan',
+});
+
+PaymentInstallment.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+Payment.belongsTo(PaymentInstallment, {
+  foreignKey: 'installmentId',
+  as: 'installment',
+});
+
+// Court case associations
+CourtCase.hasMany(Violation, {
+  foreignKey: 'courtCaseId',
+  as: 'violations',
+});
+
+Violation.belongsTo(CourtCase, {
+  foreignKey: 'courtCaseId',
+  as: 'courtCase',
+});
+
+CourtCase.belongsTo(User, {
+  foreignKey: 'prosecutingOfficerId',
+  as: 'prosecutingOfficer',
+});
+
+CourtCase.belongsTo(User, {
+  foreignKey: 'referredBy',
+  as: 'referrer',
+});
+
+// Suspension associations
+VehicleOwner.hasMany(LicenseSuspension, {
+  foreignKey: 'vehicleOwnerId',
+  as: 'suspensions',
+});
+
+Driver.hasMany(LicenseSuspension, {
+  foreignKey: 'driverId',
+  as: 'suspensions',
+});
+
+LicenseSuspension.belongsTo(Driver, {
+  foreignKey: 'driverId',
+  as: 'driver',
+});
+
+LicenseSuspension.belongsTo(VehicleOwner, {
+  foreignKey: 'vehicleOwnerId',
+  as: 'vehicleOwner',
+});
+
+LicenseSuspension.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+// Fine escalation associations
+ViolationType.hasMany(FineEscalationRule, {
+  foreignKey: 'violationTypeId',
+  as: 'escalationRules',
+});
+
+FineEscalationRule.belongsTo(ViolationType, {
+  foreignKey: 'violationTypeId',
+  as: 'violationType',
+});
+
+// Fine schedule associations
+ViolationType.hasMany(FineSchedule, {
+  foreignKey: 'violationTypeId',
+  as: 'fineSchedules',
+});
+
+FineSchedule.belongsTo(ViolationType, {
+  foreignKey: 'violationTypeId',
+  as: 'violationType',
+});
+
+FineSchedule.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator',
+});
+
+// Evidence associations
+Violation.hasMany(Evidence, {
+  foreignKey: 'violationId',
+  as: 'evidence',
+});
+
+Evidence.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+Evidence.belongsTo(User, {
+  foreignKey: 'uploadedBy',
+  as: 'uploader',
+});
+
+Evidence.hasMany(EvidenceAccessLog, {
+  foreignKey: 'evidenceId',
+  as: 'accessLogs',
+});
+
+EvidenceAccessLog.belongsTo(Evidence, {
+  foreignKey: 'evidenceId',
+  as: 'evidence',
+});
+
+EvidenceAccessLog.belongsTo(User, {
+  foreignKey: 'userId',
+  as: 'user',
+});
+
+// Duplicate review associations
+Violation.hasOne(DuplicateReview, {
+  foreignKey: 'violationId',
+  as: 'duplicateReview',
+});
+
+DuplicateReview.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+DuplicateReview.belongsTo(Violation, {
+  foreignKey: 'duplicateOfId',
+  as: 'duplicateOf',
+});
+
+DuplicateReview.belongsTo(User, {
+  foreignKey: 'resolvedBy',
+  as: 'resolver',
+});
+
+// Ticket correction associations
+Violation.hasMany(TicketCorrection, {
+  foreignKey: 'violationId',
+  as: 'corrections',
+});
+
+TicketCorrection.belongsTo(Violation, {
+  foreignKey: 'violationId',
+  as: 'violation',
+});
+
+TicketCorrection.belongsTo(User, {
+  foreignKey: 'requestedBy',
+  as: 'requester',
+});
+
+TicketCorrection.belongsTo(User, {
+  foreignKey: 'reviewedBy',
+  as: 'reviewer',
+});
+
+// Report schedule associations
+ReportSchedule.hasMany(ReportRun, {
+  foreignKey: 'scheduleId',
+  as: 'runs',
+});
+
+ReportRun.belongsTo(ReportSchedule, {
+  foreignKey: 'scheduleId',
+  as: 'schedule',
+});
+
+ReportSchedule.belongsTo(User, {
+  foreignKey: 'createdBy',
+  as: 'creator',
+});
+
+ReportRun.belongsTo(User, {
+  foreignKey: 'triggeredBy',
+  as: 'triggeredByUser',
+});
+
+// Statistics rollup hooks: a change to anything the rollups count queues its day (and the old day, if it moved) for re-aggregation
+const VIOLATION_ROLLUP_FIELDS = ['violationDate', 'status', 'fineAmount', 'locationState', 'officerId', 'violationTypeId'];
+const PAYMENT_ROLLUP_FIELDS = ['paymentDate', 'status', 'amount', 'refundedAmount', 'gatewayProvider'];
+
+Violation.addHook('afterSave', 'statRollup', async (violation: Violation, options: any) => {
+  if (VIOLATION_ROLLUP_FIELDS.some(field => violation.changed(field as keyof Violation))) {
+    await StatRollupRefresh.markStale('violations', [violation.violationDate, violation.previous('violationDate')], options.transaction);
+  }
+});
+
+Violation.addHook('afterDestroy', 'statRollup', async (violation: Violation, options: any) => {
+  await StatRollupRefresh.markStale('violations', [violation.violationDate], options.transaction);
+});
+
+Payment.addHook('afterSave', 'statRollup', async (payment: Payment, options: any) => {
+  if (PAYMENT_ROLLUP_FIELDS.some(field => payment.changed(field as keyof Payment))) {
+    await StatRollupRefresh.markStale('payments', [payment.paymentDate, payment.previous('paymentDate')], options.transaction);
+  }
+});
+
+Payment.addHook('afterDestroy', 'statRollup', async (payment: Payment, options: any) => {
+  await StatRollupRefresh.markStale('payments', [payment.paymentDate], options.transaction);
+});
+
 // Export all models
 export {
   sequelize,
@@ -59,6 +383,28 @@ export {
   ViolationType,
   Violation,
   Payment,
+  ViolationStatusHistory,
+  Appeal,
+  PenaltyRule,
+  PenaltyAccrual,
+  PaymentPlan,
+  PaymentInstallment,
+  CourtCase,
+  SuspensionPolicy,
+  LicenseSuspension,
+  FineEscalationRule,
+  Evidence,
+  EvidenceAccessLog,
+  TicketSequence,
+  DuplicateReview,
+  TicketCorrection,
+  FineSchedule,
+  Driver,
+  ReportSchedule,
+  ReportRun,
+  ViolationDailyStat,
+  PaymentDailyStat,
+  StatRollupRefresh,
 };
 
 // Export a function to sync all models
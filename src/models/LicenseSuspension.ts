@@ -0,0 +1,118 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type SuspensionReason = 'points' | 'offence';
+export type SuspensionStatus = 'active' | 'completed' | 'lifted';
+// 'points' when the holder's points fell back under the threshold; 'ticket_invalidated' when the ticket behind it was overturned, voided or dismissed
+export type SuspensionLiftCause = 'points' | 'ticket_invalidated';
+
+interface LicenseSuspensionAttributes {
+  id: number;
+  vehicleOwnerId?: number | null;
+  driverId?: number | null;
+  violationId?: number | null;
+  reason: SuspensionReason;
+  pointsAtSuspension: number;
+  startDate: Date;
+  endDate: Date;
+  status: SuspensionStatus;
+  liftedAt?: Date | null;
+  liftCause?: SuspensionLiftCause | null;
+  liftReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface LicenseSuspensionCreationAttributes extends Optional<LicenseSuspensionAttributes, 'id' | 'vehicleOwnerId' | 'driverId' | 'violationId' | 'status' | 'liftedAt' | 'liftCause' | 'liftReason' | 'createdAt' | 'updatedAt'> {}
+
+class LicenseSuspension extends Model<LicenseSuspensionAttributes, LicenseSuspensionCreationAttributes> implements LicenseSuspensionAttributes {
+  public id!: number;
+  public vehicleOwnerId?: number | null;
+  public driverId?: number | null;
+  public violationId?: number | null;
+  public reason!: SuspensionReason;
+  public pointsAtSuspension!: number;
+  public startDate!: Date;
+  public endDate!: Date;
+  public status!: SuspensionStatus;
+  public liftedAt?: Date | null;
+  public liftCause?: SuspensionLiftCause | null;
+  public liftReason?: string;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+LicenseSuspension.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    vehicleOwnerId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Set for suspensions of the vehicle owner's licence
+      field: 'vehicle_owner_id',
+    },
+    driverId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Set for suspensions of a driver's licence
+      field: 'driver_id',
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'violation_id',
+    },
+    reason: {
+      type: DataTypes.ENUM('points', 'offence'),
+      allowNull: false,
+    },
+    pointsAtSuspension: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'points_at_suspension',
+    },
+    startDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'start_date',
+    },
+    endDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'end_date',
+    },
+    status: {
+      type: DataTypes.ENUM('active', 'completed', 'lifted'),
+      defaultValue: 'active',
+    },
+    liftedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'lifted_at',
+    },
+    liftCause: {
+      type: DataTypes.ENUM('points', 'ticket_invalidated'),
+      allowNull: true,
+      field: 'lift_cause',
+    },
+    liftReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'lift_reason',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'license_suspensions',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['vehicle_owner_id', 'start_date'] },
+      { fields: ['status', 'end_date'] },
+    ],
+  }
+);
+
+export default LicenseSuspension;
\ No newline at end of file
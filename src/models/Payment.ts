@@ -4,6 +4,7 @@ import sequelize from '../config/database';
 interface PaymentAttributes {
   id: number;
   violationId: number;
+  installmentId?: number | null;
   amount: number;
   paymentMethod: 'card' | 'bank_transfer' | 'ussd' | 'cash' | 'pos';
   paymentReference: string;
@@ -23,12 +24,13 @@ interface PaymentAttributes {
 }
 
 interface PaymentCreationAttributes extends Optional<PaymentAttributes, 
-  'id' | 'status' | 'paymentDate' | 'refundedAmount' | 'gatewayReference' | 'payerName' | 'payerEmail' | 'payerPhone' | 'gatewayResponse' | 'refundReason' | 'refundDate' | 'createdAt' | 'updatedAt'
+  'id' | 'installmentId' | 'status' | 'paymentDate' | 'refundedAmount' | 'gatewayReference' | 'payerName' | 'payerEmail' | 'payerPhone' | 'gatewayResponse' | 'refundReason' | 'refundDate' | 'createdAt' | 'updatedAt'
 > {}
 
 class Payment extends Model<PaymentAttributes, PaymentCreationAttributes> implements PaymentAttributes {
   public id!: number;
   public violationId!: number;
+  public installmentId?: number | null;
   public amount!: number;
   public paymentMethod!: 'card' | 'bank_transfer' | 'ussd' | 'cash' | 'pos';
   public paymentReference!: string;
@@ -80,6 +82,11 @@ Payment.init(
       allowNull: false,
       field: 'violation_id',
     },
+    installmentId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'installment_id',
+    },
     amount: {
       type: DataTypes.DECIMAL(10, 2),
       allowNull: false,
@@ -162,6 +169,10 @@ Payment.init(
     tableName: 'payments',
     underscored: true,
     timestamps: true,
+    indexes: [
+      // Date-range statistics and the per-day rollup refresh
+      { fields: ['payment_date'] },
+    ],
     hooks: {
       beforeCreate: (payment: Payment) => {
         if (!payment.paymentReference) {
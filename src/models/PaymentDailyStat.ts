@@ -0,0 +1,73 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface PaymentDailyStatAttributes {
+  id: number;
+  statDate: string;
+  gatewayProvider: 'paystack' | 'flutterwave' | 'interswitch';
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  transactions: number;
+  amount: number;
+  refundedAmount: number;
+}
+
+interface PaymentDailyStatCreationAttributes extends Optional<PaymentDailyStatAttributes, 'id'> {}
+
+// Payments per day, gateway and status; rebuilt a day at a time from the payments table
+class PaymentDailyStat extends Model<PaymentDailyStatAttributes, PaymentDailyStatCreationAttributes> implements PaymentDailyStatAttributes {
+  public id!: number;
+  public statDate!: string;
+  public gatewayProvider!: 'paystack' | 'flutterwave' | 'interswitch';
+  public status!: 'pending' | 'completed' | 'failed' | 'refunded';
+  public transactions!: number;
+  public amount!: number;
+  public refundedAmount!: number;
+}
+
+PaymentDailyStat.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    statDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'stat_date', // Day of the payment in the database time zone
+    },
+    gatewayProvider: {
+      type: DataTypes.ENUM('paystack', 'flutterwave', 'interswitch'),
+      allowNull: false,
+      field: 'gateway_provider',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'completed', 'failed', 'refunded'),
+      allowNull: false,
+    },
+    transactions: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(14, 2),
+      allowNull: false,
+    },
+    refundedAmount: {
+      type: DataTypes.DECIMAL(14, 2),
+      allowNull: false,
+      field: 'refunded_amount',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payment_daily_stats',
+    underscored: true,
+    timestamps: false,
+    indexes: [
+      { unique: true, fields: ['stat_date', 'gateway_provider', 'status'] },
+    ],
+  }
+);
+
+export default PaymentDailyStat;
\ No newline at end of file
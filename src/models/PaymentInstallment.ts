@@ -0,0 +1,102 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type InstallmentStatus = 'pending' | 'paid' | 'missed';
+
+interface PaymentInstallmentAttributes {
+  id: number;
+  paymentPlanId: number;
+  violationId: number;
+  installmentNumber: number;
+  amount: number;
+  dueDate: Date;
+  status: InstallmentStatus;
+  paidDate?: Date | null;
+  reminderSentAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PaymentInstallmentCreationAttributes extends Optional<PaymentInstallmentAttributes, 'id' | 'status' | 'paidDate' | 'reminderSentAt' | 'createdAt' | 'updatedAt'> {}
+
+class PaymentInstallment extends Model<PaymentInstallmentAttributes, PaymentInstallmentCreationAttributes> implements PaymentInstallmentAttributes {
+  public id!: number;
+  public paymentPlanId!: number;
+  public violationId!: number;
+  public installmentNumber!: number;
+  public amount!: number;
+  public dueDate!: Date;
+  public status!: InstallmentStatus;
+  public paidDate?: Date | null;
+  public reminderSentAt?: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the installment can still be paid
+  public isPayable(): boolean {
+    return this.status === 'pending' || this.status === 'missed';
+  }
+}
+
+PaymentInstallment.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    paymentPlanId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'payment_plan_id',
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    installmentNumber: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'installment_number',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    dueDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'due_date',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'paid', 'missed'),
+      defaultValue: 'pending',
+    },
+    paidDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'paid_date',
+    },
+    reminderSentAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'reminder_sent_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payment_installments',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['payment_plan_id', 'installment_number'] },
+      { fields: ['status', 'due_date'] },
+    ],
+  }
+);
+
+export default PaymentInstallment;
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type PaymentPlanStatus = 'active' | 'completed';
+
+interface PaymentPlanAttributes {
+  id: number;
+  violationId: number;
+  grantedBy: number;
+  totalAmount: number;
+  numberOfInstallments: number;
+  intervalDays: number;
+  status: PaymentPlanStatus;
+  notes?: string;
+  completedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PaymentPlanCreationAttributes extends Optional<PaymentPlanAttributes, 'id' | 'intervalDays' | 'status' | 'notes' | 'completedAt' | 'createdAt' | 'updatedAt'> {}
+
+class PaymentPlan extends Model<PaymentPlanAttributes, PaymentPlanCreationAttributes> implements PaymentPlanAttributes {
+  public id!: number;
+  public violationId!: number;
+  public grantedBy!: number;
+  public totalAmount!: number;
+  public numberOfInstallments!: number;
+  public intervalDays!: number;
+  public status!: PaymentPlanStatus;
+  public notes?: string;
+  public completedAt?: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PaymentPlan.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    grantedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'granted_by',
+    },
+    totalAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      field: 'total_amount',
+      validate: {
+        min: 0,
+      },
+    },
+    numberOfInstallments: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'number_of_installments',
+      validate: {
+        min: 2,
+        max: 12,
+      },
+    },
+    intervalDays: {
+      type: DataTypes.INTEGER,
+      defaultValue: 30,
+      field: 'interval_days',
+      validate: {
+        min: 1,
+      },
+    },
+    status: {
+      type: DataTypes.ENUM('active', 'completed'),
+      defaultValue: 'active',
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'completed_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'payment_plans',
+    underscored: true,
+    timestamps: true,
+  }
+);
+
+export default PaymentPlan;
\ No newline at end of file
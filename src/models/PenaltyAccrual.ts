@@ -0,0 +1,79 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface PenaltyAccrualAttributes {
+  id: number;
+  violationId: number;
+  penaltyRuleId: number;
+  periodNumber: number;
+  amount: number;
+  accruedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PenaltyAccrualCreationAttributes extends Optional<PenaltyAccrualAttributes, 'id' | 'accruedAt' | 'createdAt' | 'updatedAt'> {}
+
+class PenaltyAccrual extends Model<PenaltyAccrualAttributes, PenaltyAccrualCreationAttributes> implements PenaltyAccrualAttributes {
+  public id!: number;
+  public violationId!: number;
+  public penaltyRuleId!: number;
+  public periodNumber!: number;
+  public amount!: number;
+  public accruedAt!: Date;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+PenaltyAccrual.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    penaltyRuleId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'penalty_rule_id',
+    },
+    periodNumber: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'period_number',
+      validate: {
+        min: 1,
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    accruedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+      field: 'accrued_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'penalty_accruals',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      // One line item per overdue interval keeps re-runs idempotent
+      { unique: true, fields: ['violation_id', 'period_number'] },
+    ],
+  }
+);
+
+export default PenaltyAccrual;
\ No newline at end of file
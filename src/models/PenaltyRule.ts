@@ -0,0 +1,93 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface PenaltyRuleAttributes {
+  id: number;
+  violationTypeId: number;
+  ruleType: 'flat' | 'percentage';
+  amount: number;
+  intervalDays: number;
+  maxAmount?: number | null;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PenaltyRuleCreationAttributes extends Optional<PenaltyRuleAttributes, 'id' | 'intervalDays' | 'maxAmount' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+
+class PenaltyRule extends Model<PenaltyRuleAttributes, PenaltyRuleCreationAttributes> implements PenaltyRuleAttributes {
+  public id!: number;
+  public violationTypeId!: number;
+  public ruleType!: 'flat' | 'percentage';
+  public amount!: number;
+  public intervalDays!: number;
+  public maxAmount?: number | null;
+  public isActive!: boolean;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to calculate the surcharge for one overdue interval
+  public calculateSurcharge(fineAmount: number): number {
+    const surcharge = this.ruleType === 'flat'
+      ? Number(this.amount)
+      : (Number(fineAmount) * Number(this.amount)) / 100;
+    return Math.round(surcharge * 100) / 100;
+  }
+}
+
+PenaltyRule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationTypeId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      unique: true,
+      field: 'violation_type_id',
+    },
+    ruleType: {
+      type: DataTypes.ENUM('flat', 'percentage'),
+      allowNull: false,
+      field: 'rule_type',
+    },
+    amount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    intervalDays: {
+      type: DataTypes.INTEGER,
+      defaultValue: 30,
+      field: 'interval_days',
+      validate: {
+        min: 1,
+      },
+    },
+    maxAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      field: 'max_amount',
+      validate: {
+        min: 0,
+      },
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+      field: 'is_active',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'penalty_rules',
+    underscored: true,
+    timestamps: true,
+  }
+);
+
+export default PenaltyRule;
\ No newline at end of file
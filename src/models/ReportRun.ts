@@ -0,0 +1,127 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export type ReportRunTrigger = 'scheduled' | 'manual';
+export type ReportRunStatus = 'running' | 'retrying' | 'succeeded' | 'failed';
+
+interface ReportRunAttributes {
+  id: number;
+  scheduleId: number;
+  trigger: ReportRunTrigger;
+  status: ReportRunStatus;
+  periodStart: Date;
+  periodEnd: Date;
+  attempts: number;
+  nextRetryAt?: Date | null;
+  fileName?: string | null;
+  recipients: string[];
+  error?: string | null;
+  triggeredBy?: number | null;
+  startedAt: Date;
+  completedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ReportRunCreationAttributes extends Optional<ReportRunAttributes, 'id' | 'status' | 'attempts' | 'nextRetryAt' | 'fileName' | 'error' | 'triggeredBy' | 'completedAt' | 'createdAt' | 'updatedAt'> {}
+
+class ReportRun extends Model<ReportRunAttributes, ReportRunCreationAttributes> implements ReportRunAttributes {
+  public id!: number;
+  public scheduleId!: number;
+  public trigger!: ReportRunTrigger;
+  public status!: ReportRunStatus;
+  public periodStart!: Date;
+  public periodEnd!: Date;
+  public attempts!: number;
+  public nextRetryAt?: Date | null;
+  public fileName?: string | null;
+  public recipients!: string[];
+  public error?: string | null;
+  public triggeredBy?: number | null;
+  public startedAt!: Date;
+  public completedAt?: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+ReportRun.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    scheduleId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'schedule_id',
+    },
+    trigger: {
+      type: DataTypes.ENUM('scheduled', 'manual'),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('running', 'retrying', 'succeeded', 'failed'),
+      defaultValue: 'running',
+    },
+    periodStart: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'period_start',
+    },
+    periodEnd: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'period_end',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+    },
+    nextRetryAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'next_retry_at',
+    },
+    fileName: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'file_name',
+    },
+    recipients: {
+      type: DataTypes.JSON,
+      allowNull: false, // Copied from the schedule so history shows who was actually sent the report
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true, // Reason for the most recent failed attempt
+    },
+    triggeredBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Set for manual runs
+      field: 'triggered_by',
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'started_at',
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'completed_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'report_runs',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['schedule_id', 'started_at'] },
+      { fields: ['status', 'next_retry_at'] },
+    ],
+  }
+);
+
+export default ReportRun;
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize, { DB_TIMEZONE_OFFSET_MS } from '../config/database';
+
+export type ReportType = 'daily' | 'weekly' | 'monthly';
+export type ReportScheduleFormat = 'pdf' | 'xlsx' | 'csv';
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface ReportScheduleFilters {
+  state?: string;
+  officerId?: number;
+  violationTypeId?: number;
+}
+
+interface ReportScheduleAttributes {
+  id: number;
+  name: string;
+  reportType: ReportType;
+  filters?: ReportScheduleFilters | null;
+  format: ReportScheduleFormat;
+  recipients: string[];
+  frequency: ReportFrequency;
+  timeOfDay: string;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  isActive: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date | null;
+  createdBy: number;
+  updatedBy?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ReportScheduleCreationAttributes extends Optional<ReportScheduleAttributes, 'id' | 'filters' | 'dayOfWeek' | 'dayOfMonth' | 'isActive' | 'lastRunAt' | 'updatedBy' | 'createdAt' | 'updatedAt'> {}
+
+class ReportSchedule extends Model<ReportScheduleAttributes, ReportScheduleCreationAttributes> implements ReportScheduleAttributes {
+  public id!: number;
+  public name!: string;
+  public reportType!: ReportType;
+  public filters?: ReportScheduleFilters | null;
+  public format!: ReportScheduleFormat;
+  public recipients!: string[];
+  public frequency!: ReportFrequency;
+  public timeOfDay!: string;
+  public dayOfWeek?: number | null;
+  public dayOfMonth?: number | null;
+  public isActive!: boolean;
+  public nextRunAt!: Date;
+  public lastRunAt?: Date | null;
+  public createdBy!: number;
+  public updatedBy?: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to get the first run time strictly after the given moment, in the database time zone
+  public getNextRunAfter(from: Date): Date {
+    const [hours, minutes] = this.timeOfDay.split(':').map(Number);
+
+    // Work on the wall clock through the UTC fields, then shift back to the real moment
+    const local = new Date(from.getTime() + DB_TIMEZONE_OFFSET_MS);
+    const next = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), hours, minutes));
+
+    if (this.frequency === 'weekly') {
+      next.setUTCDate(next.getUTCDate() + (this.dayOfWeek! - next.getUTCDay() + 7) % 7);
+      if (next <= local) next.setUTCDate(next.getUTCDate() + 7);
+    } else if (this.frequency === 'monthly') {
+      // Days are capped at 28 so every month has the day
+      next.setUTCDate(this.dayOfMonth!);
+      if (next <= local) next.setUTCMonth(next.getUTCMonth() + 1);
+    } else if (next <= local) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+
+    return new Date(next.getTime() - DB_TIMEZONE_OFFSET_MS);
+  }
+}
+
+ReportSchedule.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    reportType: {
+      type: DataTypes.ENUM('daily', 'weekly', 'monthly'),
+      allowNull: false,
+      field: 'report_type',
+    },
+    filters: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    format: {
+      type: DataTypes.ENUM('pdf', 'xlsx', 'csv'),
+      allowNull: false,
+    },
+    recipients: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    frequency: {
+      type: DataTypes.ENUM('daily', 'weekly', 'monthly'),
+      allowNull: false,
+    },
+    timeOfDay: {
+      type: DataTypes.STRING(5),
+      allowNull: false,
+      field: 'time_of_day', // "HH:MM", database time zone (WAT)
+      validate: {
+        is: /^([01]\d|2[0-3]):[0-5]\d$/,
+      },
+    },
+    dayOfWeek: {
+      type: DataTypes.TINYINT,
+      allowNull: true, // 0 = Sunday; weekly schedules only
+      field: 'day_of_week',
+      validate: {
+        min: 0,
+        max: 6,
+      },
+    },
+    dayOfMonth: {
+      type: DataTypes.TINYINT,
+      allowNull: true, // Monthly schedules only
+      field: 'day_of_month',
+      validate: {
+        min: 1,
+        max: 28,
+      },
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+      field: 'is_active',
+    },
+    nextRunAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'next_run_at',
+    },
+    lastRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'last_run_at',
+    },
+    createdBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'created_by',
+    },
+    updatedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'updated_by',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'report_schedules',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['is_active', 'next_run_at'] },
+    ],
+  }
+);
+
+export default ReportSchedule;
\ No newline at end of file
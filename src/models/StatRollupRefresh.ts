@@ -0,0 +1,85 @@
+import { DataTypes, Model, Transaction } from 'sequelize';
+import sequelize, { DB_TIMEZONE_OFFSET_MS } from '../config/database';
+import { logger } from '../utils/logger';
+
+export type StatRollupSource = 'violations' | 'payments';
+
+interface StatRollupRefreshAttributes {
+  source: StatRollupSource;
+  statDate: string;
+  createdAt?: Date;
+}
+
+// Days whose rollup rows no longer match the tickets or payments behind them
+class StatRollupRefresh extends Model<StatRollupRefreshAttributes> implements StatRollupRefreshAttributes {
+  public source!: StatRollupSource;
+  public statDate!: string;
+  public readonly createdAt!: Date;
+
+  // Static method to get the calendar day (YYYY-MM-DD) of a moment in the database time zone, so days match DATE() in SQL
+  public static getStatDate(date: Date): string {
+    return new Date(date.getTime() + DB_TIMEZONE_OFFSET_MS).toISOString().split('T')[0];
+  }
+
+  // Static method to get midnight to midnight of a calendar day in the database time zone
+  public static getDayBounds(statDate: string): { start: Date; end: Date } {
+    const start = new Date(new Date(`${statDate}T00:00:00Z`).getTime() - DB_TIMEZONE_OFFSET_MS);
+
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  // Static method to queue the days of changed rows for re-aggregation; waits for the commit so
+  // concurrent tickets don't queue on the same row lock and rolled-back changes queue nothing
+  public static async markStale(
+    source: StatRollupSource,
+    dates: Array<Date | null | undefined>,
+    transaction?: Transaction | null
+  ): Promise<void> {
+    const statDates = [...new Set(dates.filter((date): date is Date => !!date).map(date => this.getStatDate(new Date(date))))];
+
+    if (statDates.length === 0) {
+      return;
+    }
+
+    // A missed day only leaves the dashboards stale, so the write that triggered it must not fail
+    const queue = async () => {
+      try {
+        await this.bulkCreate(
+          statDates.map(statDate => ({ source, statDate })),
+          { ignoreDuplicates: true }
+        );
+      } catch (error) {
+        logger.error(`Failed to queue ${source} rollup refresh for ${statDates.join(', ')}:`, error);
+      }
+    };
+
+    if (transaction) {
+      transaction.afterCommit(queue);
+    } else {
+      await queue();
+    }
+  }
+}
+
+StatRollupRefresh.init(
+  {
+    source: {
+      type: DataTypes.ENUM('violations', 'payments'),
+      primaryKey: true,
+    },
+    statDate: {
+      type: DataTypes.DATEONLY,
+      primaryKey: true,
+      field: 'stat_date',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stat_rollup_refreshes',
+    underscored: true,
+    timestamps: true,
+    updatedAt: false, // A day is queued once until it is refreshed
+  }
+);
+
+export default StatRollupRefresh;
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+export interface SuspensionTier {
+  points: number;
+  durationDays: number;
+}
+
+interface SuspensionPolicyAttributes {
+  id: number;
+  warningPoints: number;
+  tiers: SuspensionTier[];
+  offenceSuspensionDays: number;
+  revocationSuspensionCount: number;
+  revocationWindowMonths: number;
+  updatedBy?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SuspensionPolicyCreationAttributes extends Optional<SuspensionPolicyAttributes, 'id' | 'updatedBy' | 'createdAt' | 'updatedAt'> {}
+
+class SuspensionPolicy extends Model<SuspensionPolicyAttributes, SuspensionPolicyCreationAttributes> implements SuspensionPolicyAttributes {
+  public id!: number;
+  public warningPoints!: number;
+  public tiers!: SuspensionTier[];
+  public offenceSuspensionDays!: number;
+  public revocationSuspensionCount!: number;
+  public revocationWindowMonths!: number;
+  public updatedBy?: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to get the lowest points total that triggers a suspension
+  public getSuspensionThreshold(): number {
+    return Math.min(...this.tiers.map(tier => tier.points));
+  }
+
+  // Instance method to get the highest tier crossed by a points increase
+  public getCrossedTier(previousPoints: number, currentPoints: number): SuspensionTier | null {
+    const crossed = this.tiers
+      .filter(tier => previousPoints < tier.points && currentPoints >= tier.points)
+      .sort((a, b) => b.points - a.points);
+
+    return crossed[0] || null;
+  }
+}
+
+SuspensionPolicy.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    warningPoints: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'warning_points',
+      validate: {
+        min: 1,
+      },
+    },
+    tiers: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    offenceSuspensionDays: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'offence_suspension_days',
+      validate: {
+        min: 1,
+      },
+    },
+    revocationSuspensionCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'revocation_suspension_count',
+      validate: {
+        min: 1,
+      },
+    },
+    revocationWindowMonths: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'revocation_window_months',
+      validate: {
+        min: 1,
+      },
+    },
+    updatedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'updated_by',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'suspension_policies',
+    underscored: true,
+    timestamps: true,
+  }
+);
+
+export default SuspensionPolicy;
\ No newline at end of file
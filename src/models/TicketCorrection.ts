@@ -0,0 +1,142 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { MeasurementValues } from './ViolationType';
+
+export type TicketCorrectionType = 'amendment' | 'void';
+export type TicketCorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// Fields an officer may correct; the location state is fixed as it is encoded in the ticket number
+export interface TicketCorrectionFields {
+  plateNumber?: string;
+  violationTypeId?: number;
+  locationAddress?: string;
+  locationLga?: string;
+  officerNotes?: string;
+  measurements?: MeasurementValues | null;
+}
+
+// Snapshot of the ticket before or after an approved correction
+export interface TicketCorrectionSnapshot extends TicketCorrectionFields {
+  vehicleOwnerId?: number;
+  fineAmount?: number;
+  baseFineAmount?: number;
+  fineMultiplier?: number;
+  escalationReason?: string | null;
+  points?: number;
+  status?: string;
+}
+
+interface TicketCorrectionAttributes {
+  id: number;
+  violationId: number;
+  type: TicketCorrectionType;
+  requestedBy: number;
+  reason: string;
+  requestedChanges?: TicketCorrectionFields | null;
+  status: TicketCorrectionStatus;
+  reviewedBy?: number | null;
+  reviewedAt?: Date | null;
+  reviewNotes?: string;
+  originalValues?: TicketCorrectionSnapshot | null;
+  correctedValues?: TicketCorrectionSnapshot | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TicketCorrectionCreationAttributes extends Optional<TicketCorrectionAttributes, 'id' | 'requestedChanges' | 'status' | 'reviewedBy' | 'reviewedAt' | 'reviewNotes' | 'originalValues' | 'correctedValues' | 'createdAt' | 'updatedAt'> {}
+
+class TicketCorrection extends Model<TicketCorrectionAttributes, TicketCorrectionCreationAttributes> implements TicketCorrectionAttributes {
+  public id!: number;
+  public violationId!: number;
+  public type!: TicketCorrectionType;
+  public requestedBy!: number;
+  public reason!: string;
+  public requestedChanges?: TicketCorrectionFields | null;
+  public status!: TicketCorrectionStatus;
+  public reviewedBy?: number | null;
+  public reviewedAt?: Date | null;
+  public reviewNotes?: string;
+  public originalValues?: TicketCorrectionSnapshot | null;
+  public correctedValues?: TicketCorrectionSnapshot | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  // Instance method to check if the request still awaits a supervisor
+  public isPending(): boolean {
+    return this.status === 'pending';
+  }
+}
+
+TicketCorrection.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    type: {
+      type: DataTypes.ENUM('amendment', 'void'),
+      allowNull: false,
+    },
+    requestedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'requested_by',
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    requestedChanges: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: 'requested_changes',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'approved', 'rejected'),
+      defaultValue: 'pending',
+    },
+    reviewedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'reviewed_by',
+    },
+    reviewedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'reviewed_at',
+    },
+    reviewNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      field: 'review_notes',
+    },
+    originalValues: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: 'original_values',
+    },
+    correctedValues: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      field: 'corrected_values',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'ticket_corrections',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { fields: ['violation_id'] },
+      { fields: ['status', 'created_at'] },
+    ],
+  }
+);
+
+export default TicketCorrection;
\ No newline at end of file
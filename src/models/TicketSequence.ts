@@ -0,0 +1,58 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface TicketSequenceAttributes {
+  id: number;
+  stateCode: string;
+  year: number;
+  lastValue: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TicketSequenceCreationAttributes extends Optional<TicketSequenceAttributes, 'id' | 'lastValue' | 'createdAt' | 'updatedAt'> {}
+
+class TicketSequence extends Model<TicketSequenceAttributes, TicketSequenceCreationAttributes> implements TicketSequenceAttributes {
+  public id!: number;
+  public stateCode!: string;
+  public year!: number;
+  public lastValue!: number;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+TicketSequence.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    stateCode: {
+      type: DataTypes.STRING(2),
+      allowNull: false,
+      field: 'state_code',
+    },
+    year: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: false,
+    },
+    lastValue: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+      field: 'last_value',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'ticket_sequences',
+    underscored: true,
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['state_code', 'year'] },
+    ],
+  }
+);
+
+export default TicketSequence;
\ No newline at end of file
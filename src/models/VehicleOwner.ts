@@ -58,8 +58,8 @@ class VehicleOwner extends Model<VehicleOwnerAttributes, VehicleOwnerCreationAtt
     return new Date() > this.expiryDate;
   }
 
-  // Instance method to check if suspension is warranted
-  public shouldBeSuspended(pointThreshold: number = 12): boolean {
+  // Instance method to check if suspension is warranted; the threshold comes from the suspension policy
+  public shouldBeSuspended(pointThreshold: number): boolean {
     return this.currentPoints >= pointThreshold;
   }
 }
@@ -1,15 +1,34 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import sequelize from '../config/database';
 import VehicleOwner from './VehicleOwner';
+import { MeasurementValues } from './ViolationType';
+
+export type ViolationStatus = 'pending' | 'paid' | 'partially_paid' | 'contested' | 'dismissed' | 'court_pending' | 'cautioned';
+
+// Allowed lifecycle transitions; dismissed is terminal and paid can only be reversed by a refund
+// (back to partially_paid when the refunded payment was one installment of a plan); a caution carries no fine and can only be dismissed
+export const VIOLATION_STATUS_TRANSITIONS: { [key in ViolationStatus]: ViolationStatus[] } = {
+  pending: ['paid', 'partially_paid', 'contested', 'dismissed', 'court_pending'],
+  partially_paid: ['paid', 'pending', 'dismissed', 'court_pending'],
+  contested: ['pending', 'paid', 'dismissed', 'court_pending'],
+  court_pending: ['pending', 'paid', 'dismissed'],
+  paid: ['pending', 'partially_paid'],
+  cautioned: ['dismissed'],
+  dismissed: [],
+};
 
 interface ViolationAttributes {
   id: number;
   ticketNumber: string;
   plateNumber: string;
   vehicleOwnerId?: number;
+  driverId?: number | null;
   officerId: number;
   violationTypeId: number;
   fineAmount: number;
+  baseFineAmount?: number | null;
+  fineMultiplier: number;
+  escalationReason?: string | null;
   points: number;
   locationLat?: number;
   locationLng?: number;
@@ -22,28 +41,35 @@ interface ViolationAttributes {
   weatherCondition?: string;
   roadCondition?: string;
   trafficCondition?: string;
-  status: 'pending' | 'paid' | 'partially_paid' | 'contested' | 'dismissed' | 'court_pending';
+  status: ViolationStatus;
   violationDate: Date;
   dueDate?: Date | null;
   paidDate?: Date | null;
   contestDate?: Date | null;
   contestReason?: string;
   isOverturned: boolean;
+  courtCaseId?: number | null;
+  clientReference?: string | null;
+  measurements?: MeasurementValues | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface ViolationCreationAttributes extends Optional<ViolationAttributes, 'id' | 'vehicleOwnerId' | 'points' | 'status' | 'violationDate' | 'isOverturned' | 'createdAt' | 'updatedAt'> { }
+interface ViolationCreationAttributes extends Optional<ViolationAttributes, 'id' | 'vehicleOwnerId' | 'driverId' | 'points' | 'status' | 'violationDate' | 'baseFineAmount' | 'fineMultiplier' | 'escalationReason' | 'isOverturned' | 'courtCaseId' | 'clientReference' | 'measurements' | 'createdAt' | 'updatedAt'> { }
 
 class Violation extends Model<ViolationAttributes, ViolationCreationAttributes> implements ViolationAttributes {
   public id!: number;
   public ticketNumber!: string;
   public plateNumber!: string;
   public vehicleOwnerId?: number;
+  public driverId?: number | null;
   public officerId!: number;
   public violationTypeId!: number;
   public vehicleOwner?: VehicleOwner;
   public fineAmount!: number;
+  public baseFineAmount?: number | null;
+  public fineMultiplier!: number;
+  public escalationReason?: string | null;
   public points!: number;
   public locationLat?: number;
   public locationLng?: number;
@@ -56,32 +82,30 @@ class Violation extends Model<ViolationAttributes, ViolationCreationAttributes>
   public weatherCondition?: string;
   public roadCondition?: string;
   public trafficCondition?: string;
-  public status!: 'pending' | 'paid' | 'partially_paid' | 'contested' | 'dismissed' | 'court_pending';
+  public status!: ViolationStatus;
   public violationDate!: Date;
   public dueDate?: Date;
   public paidDate?: Date;
   public contestDate?: Date;
   public contestReason?: string;
   public isOverturned!: boolean;
+  public courtCaseId?: number | null;
+  public clientReference?: string | null;
+  public measurements?: MeasurementValues | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 
-  // Instance method to generate ticket number
-  public static generateTicketNumber(): string {
-    const date = new Date();
-    const year = date.getFullYear().toString().slice(-2);
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    return `TK${year}${month}${day}${random}`;
-  }
-
   // Instance method to check if violation is overdue
   public isOverdue(): boolean {
     if (!this.dueDate) return false;
     return new Date() > this.dueDate && this.status === 'pending';
   }
 
+  // Instance method to check if the lifecycle allows moving to the given status
+  public canTransitionTo(status: ViolationStatus): boolean {
+    return VIOLATION_STATUS_TRANSITIONS[this.status].includes(status);
+  }
+
   // Instance method to calculate days until due
   public daysUntilDue(): number {
     if (!this.dueDate) return 0;
@@ -118,6 +142,11 @@ Violation.init(
       allowNull: true,
       field: 'vehicle_owner_id',
     },
+    driverId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true, // Licence holder at the stop; points go to the owner when unset
+      field: 'driver_id',
+    },
     officerId: {
       type: DataTypes.INTEGER.UNSIGNED,
       allowNull: false,
@@ -136,6 +165,21 @@ Violation.init(
         min: 0,
       },
     },
+    baseFineAmount: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      field: 'base_fine_amount',
+    },
+    fineMultiplier: {
+      type: DataTypes.DECIMAL(4, 2),
+      defaultValue: 1,
+      field: 'fine_multiplier',
+    },
+    escalationReason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'escalation_reason',
+    },
     points: {
       type: DataTypes.INTEGER,
       defaultValue: 0,
@@ -207,7 +251,7 @@ Violation.init(
       field: 'traffic_condition',
     },
     status: {
-      type: DataTypes.ENUM('pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending'),
+      type: DataTypes.ENUM('pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'),
       defaultValue: 'pending',
     },
     violationDate: {
@@ -241,18 +285,39 @@ Violation.init(
       defaultValue: false,
       field: 'is_overturned',
     },
+    courtCaseId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'court_case_id',
+    },
+    clientReference: {
+      type: DataTypes.STRING(36),
+      allowNull: true, // UUID generated by the officer's device for offline sync
+      field: 'client_reference',
+    },
+    measurements: {
+      type: DataTypes.JSON,
+      allowNull: true, // Values recorded against the violation type's measurement schema
+    },
   },
   {
     sequelize,
     tableName: 'violations',
     underscored: true,
     timestamps: true,
+    indexes: [
+      // A synced stop creates one ticket per violation type; retries must not duplicate them
+      { unique: true, fields: ['client_reference', 'violation_type_id'] },
+      // Range scan for radius and bounding-box searches; exact distance is filtered on the narrowed rows
+      { fields: ['location_lat', 'location_lng'] },
+      // Free-text search; MATCH() in searchViolations must list these columns in this order
+      { type: 'FULLTEXT', fields: ['officer_notes', 'location_address', 'contest_reason'] },
+      // Date-range statistics and the per-day rollup refresh
+      { fields: ['violation_date'] },
+    ],
     hooks: {
       beforeCreate: (violation: Violation) => {
-        if (!violation.ticketNumber) {
-          violation.ticketNumber = Violation.generateTicketNumber();
-        }
-        if (!violation.dueDate) {
+        if (!violation.dueDate && violation.status !== 'cautioned') {
           const dueDate = new Date();
           dueDate.setDate(dueDate.getDate() + 30); // 30 days to pay
           violation.dueDate = dueDate;
@@ -0,0 +1,83 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { ViolationStatus } from './Violation';
+
+interface ViolationDailyStatAttributes {
+  id: number;
+  statDate: string;
+  locationState: string;
+  officerId: number;
+  violationTypeId: number;
+  status: ViolationStatus;
+  violations: number;
+  fineAmount: number;
+}
+
+interface ViolationDailyStatCreationAttributes extends Optional<ViolationDailyStatAttributes, 'id'> {}
+
+// Tickets per day, state, officer, type and status; rebuilt a day at a time from the violations table
+class ViolationDailyStat extends Model<ViolationDailyStatAttributes, ViolationDailyStatCreationAttributes> implements ViolationDailyStatAttributes {
+  public id!: number;
+  public statDate!: string;
+  public locationState!: string;
+  public officerId!: number;
+  public violationTypeId!: number;
+  public status!: ViolationStatus;
+  public violations!: number;
+  public fineAmount!: number;
+}
+
+ViolationDailyStat.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    statDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+      field: 'stat_date', // Day of the violation in the database time zone
+    },
+    locationState: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      field: 'location_state',
+    },
+    officerId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'officer_id',
+    },
+    violationTypeId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_type_id',
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'),
+      allowNull: false,
+    },
+    violations: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    fineAmount: {
+      type: DataTypes.DECIMAL(14, 2),
+      allowNull: false,
+      field: 'fine_amount',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'violation_daily_stats',
+    underscored: true,
+    timestamps: false,
+    indexes: [
+      { unique: true, fields: ['stat_date', 'location_state', 'officer_id', 'violation_type_id', 'status'] },
+      { fields: ['officer_id', 'stat_date'] },
+    ],
+  }
+);
+
+export default ViolationDailyStat;
\ No newline at end of file
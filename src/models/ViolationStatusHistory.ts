@@ -0,0 +1,71 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { ViolationStatus } from './Violation';
+
+interface ViolationStatusHistoryAttributes {
+  id: number;
+  violationId: number;
+  fromStatus?: ViolationStatus | null;
+  toStatus: ViolationStatus;
+  changedBy?: number | null;
+  reason?: string;
+  createdAt?: Date;
+}
+
+interface ViolationStatusHistoryCreationAttributes extends Optional<ViolationStatusHistoryAttributes, 'id' | 'fromStatus' | 'changedBy' | 'reason' | 'createdAt'> {}
+
+class ViolationStatusHistory extends Model<ViolationStatusHistoryAttributes, ViolationStatusHistoryCreationAttributes> implements ViolationStatusHistoryAttributes {
+  public id!: number;
+  public violationId!: number;
+  public fromStatus?: ViolationStatus | null;
+  public toStatus!: ViolationStatus;
+  public changedBy?: number | null;
+  public reason?: string;
+  public readonly createdAt!: Date;
+}
+
+ViolationStatusHistory.init(
+  {
+    id: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    violationId: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      field: 'violation_id',
+    },
+    fromStatus: {
+      type: DataTypes.ENUM('pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'),
+      allowNull: true,
+      field: 'from_status',
+    },
+    toStatus: {
+      type: DataTypes.ENUM('pending', 'paid', 'partially_paid', 'contested', 'dismissed', 'court_pending', 'cautioned'),
+      allowNull: false,
+      field: 'to_status',
+    },
+    changedBy: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      field: 'changed_by',
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'violation_status_history',
+    underscored: true,
+    timestamps: true,
+    updatedAt: false, // History rows are append-only
+    indexes: [
+      { fields: ['violation_id', 'created_at'] },
+    ],
+  }
+);
+
+export default ViolationStatusHistory;
\ No newline at end of file
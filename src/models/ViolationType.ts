@@ -1,6 +1,30 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import sequelize from '../config/database';
 
+export type MeasurementFieldType = 'number' | 'integer' | 'string' | 'boolean';
+
+export interface MeasurementField {
+  key: string;
+  label: string;
+  type: MeasurementFieldType;
+  unit?: string;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  options?: string[]; // Allowed values for string fields
+}
+
+export interface MeasurementSchema {
+  fields: MeasurementField[];
+  // Value fine bands are matched against, e.g. recorded speed minus the limit
+  bandBasis?: { field: string; subtract?: string } | null;
+}
+
+// Who takes the points: the driver at the stop, or the vehicle's owner for offences about the vehicle itself
+export type ViolationLiability = 'driver' | 'vehicle';
+
+export type MeasurementValues = { [key: string]: number | string | boolean };
+
 interface ViolationTypeAttributes {
   id: number;
   code: string;
@@ -10,12 +34,15 @@ interface ViolationTypeAttributes {
   points: number;
   category: 'equipment' | 'documentation' | 'traffic' | 'parking' | 'vehicle_condition' | 'dangerous_driving';
   suspensionEligible: boolean;
+  cautionEligible: boolean;
+  liability: ViolationLiability;
   isActive: boolean;
+  measurementSchema?: MeasurementSchema | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface ViolationTypeCreationAttributes extends Optional<ViolationTypeAttributes, 'id' | 'points' | 'suspensionEligible' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+interface ViolationTypeCreationAttributes extends Optional<ViolationTypeAttributes, 'id' | 'points' | 'suspensionEligible' | 'cautionEligible' | 'liability' | 'isActive' | 'measurementSchema' | 'createdAt' | 'updatedAt'> {}
 
 class ViolationType extends Model<ViolationTypeAttributes, ViolationTypeCreationAttributes> implements ViolationTypeAttributes {
   public id!: number;
@@ -26,7 +53,10 @@ class ViolationType extends Model<ViolationTypeAttributes, ViolationTypeCreation
   public points!: number;
   public category!: 'equipment' | 'documentation' | 'traffic' | 'parking' | 'vehicle_condition' | 'dangerous_driving';
   public suspensionEligible!: boolean;
+  public cautionEligible!: boolean;
+  public liability!: ViolationLiability;
   public isActive!: boolean;
+  public measurementSchema?: MeasurementSchema | null;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -82,11 +112,25 @@ ViolationType.init(
       defaultValue: false,
       field: 'suspension_eligible',
     },
+    cautionEligible: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: false, // Minor offences an officer may record as a caution on a first offence
+      field: 'caution_eligible',
+    },
+    liability: {
+      type: DataTypes.ENUM('driver', 'vehicle'),
+      defaultValue: 'driver',
+    },
     isActive: {
       type: DataTypes.BOOLEAN,
       defaultValue: true,
       field: 'is_active',
     },
+    measurementSchema: {
+      type: DataTypes.JSON,
+      allowNull: true, // Measured values the officer must record, e.g. speed and limit
+      field: 'measurement_schema',
+    },
   },
   {
     sequelize,
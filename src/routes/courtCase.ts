@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { CourtCaseController } from '../controllers/courtCaseController';
+import {
+  authenticateToken,
+  officerOnly,
+  supervisorOnly,
+} from '../middleware/auth';
+import {
+  validateCourtReferral,
+  validateCourtCaseQuery,
+  validateCourtCaseId,
+  validateAdjournment,
+  validateCourtVerdict,
+} from '../middleware/courtCaseValidation';
+import { sanitizeInput, auditTrail } from '../middleware/security';
+
+const router = Router();
+
+// Apply input sanitization and authentication to all routes
+router.use(sanitizeInput);
+router.use(authenticateToken);
+
+router.get('/',
+  officerOnly,
+  validateCourtCaseQuery,
+  CourtCaseController.getCourtCases
+);
+
+router.get('/:id',
+  officerOnly,
+  validateCourtCaseId,
+  CourtCaseController.getCourtCaseById
+);
+
+router.post('/:id/adjournments',
+  officerOnly,
+  validateCourtCaseId,
+  validateAdjournment,
+  auditTrail('COURT_CASE_ADJOURN'),
+  CourtCaseController.recordAdjournment
+);
+
+// Supervisor and Admin routes
+router.post('/',
+  supervisorOnly,
+  validateCourtReferral,
+  auditTrail('COURT_CASE_REFER'),
+  CourtCaseController.referToCourt
+);
+
+router.post('/:id/verdict',
+  supervisorOnly,
+  validateCourtCaseId,
+  validateCourtVerdict,
+  auditTrail('COURT_CASE_VERDICT'),
+  CourtCaseController.recordVerdict
+);
+
+export default router;
\ No newline at end of file
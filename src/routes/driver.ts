@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { DriverController } from '../controllers/driverController';
+import { 
+  authenticateToken, 
+  adminOnly,
+  supervisorOnly,
+} from '../middleware/auth';
+import {
+  validateDriverCreation,
+  validateDriverUpdate,
+  validateDriverSearch,
+  validateDriverId,
+  validateLicenseParam,
+  validateDriverPointsRecalculation,
+} from '../middleware/driverValidation';
+import { sanitizeInput, auditTrail } from '../middleware/security';
+
+const router = Router();
+
+// Apply input sanitization and authentication to all routes
+router.use(sanitizeInput);
+router.use(authenticateToken);
+
+// Public driver routes (all authenticated users)
+router.get('/search', 
+  validateDriverSearch,
+  auditTrail('DRIVER_SEARCH'),
+  DriverController.searchDrivers
+);
+
+router.get('/lookup/:licenseNumber', 
+  validateLicenseParam,
+  auditTrail('LICENSE_LOOKUP'),
+  DriverController.lookupByLicenseNumber
+);
+
+router.get('/:id',
+  validateDriverId,
+  DriverController.getDriverById
+);
+
+router.get('/:id/suspensions',
+  validateDriverId,
+  DriverController.getDriverSuspensions
+);
+
+// Supervisor and Admin routes
+router.post('/', 
+  supervisorOnly,
+  validateDriverCreation,
+  auditTrail('DRIVER_CREATE'),
+  DriverController.createDriver
+);
+
+router.put('/:id',
+  supervisorOnly,
+  validateDriverUpdate,
+  auditTrail('DRIVER_UPDATE'),
+  DriverController.updateDriver
+);
+
+// Admin only routes
+router.post('/points/recalculate',
+  adminOnly,
+  validateDriverPointsRecalculation,
+  auditTrail('DRIVER_POINTS_RECALCULATION_RUN'),
+  DriverController.recalculatePoints
+);
+
+export default router;
\ No newline at end of file
@@ -4,6 +4,11 @@ import vehicleRoutes from './vehicles';
 import violationRoutes from './violation';
 import paymentRoutes from './payment';
 import notificationRoutes from './notification';
+import penaltyRoutes from './penalty';
+import courtCaseRoutes from './courtCase';
+import violationTypeRoutes from './violationType';
+import driverRoutes from './driver';
+import reportScheduleRoutes from './reportSchedule';
 
 
 const router = Router();
@@ -14,6 +19,11 @@ router.use('/vehicles', vehicleRoutes);
 router.use('/violations', violationRoutes);
 router.use('/payments', paymentRoutes);
 router.use('/notifications', notificationRoutes);
+router.use('/penalties', penaltyRoutes);
+router.use('/court-cases', courtCaseRoutes);
+router.use('/violation-types', violationTypeRoutes);
+router.use('/drivers', driverRoutes);
+router.use('/report-schedules', reportScheduleRoutes);
 
 // Health check for authenticated routes
 router.get('/health', (req, res) => {
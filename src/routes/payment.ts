@@ -11,10 +11,12 @@ import {
   validatePaymentVerification,
   validateRefundProcessing,
   validatePaymentSearch,
+  validatePaymentExport,
   validatePaymentId,
   validatePaymentReference,
   validateViolationIdParam,
   validateStatsDateRange,
+  validatePaymentPlan,
 } from '../middleware/paymentValidation';
 import { sanitizeInput, auditTrail } from '../middleware/security';
 
@@ -57,6 +59,14 @@ router.get('/search',
   PaymentController.searchPayments
 );
 
+router.get('/export',
+  supervisorOnly,
+  validatePaymentSearch,
+  validatePaymentExport,
+  auditTrail('PAYMENT_EXPORT'),
+  PaymentController.exportPayments
+);
+
 router.get('/:id',
   validatePaymentId,
   PaymentController.getPaymentById
@@ -73,7 +83,19 @@ router.get('/violation/:violationId',
   PaymentController.getPaymentsByViolation
 );
 
+router.get('/violation/:violationId/plan',
+  validateViolationIdParam,
+  PaymentController.getPaymentPlan
+);
+
 // Supervisor and Admin routes
+router.post('/violation/:violationId/plan',
+  supervisorOnly,
+  validatePaymentPlan,
+  auditTrail('PAYMENT_PLAN_GRANT'),
+  PaymentController.grantPaymentPlan
+);
+
 router.post('/:id/refund',
   supervisorOnly,
   validatePaymentId,
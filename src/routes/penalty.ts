@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { PenaltyController } from '../controllers/penaltyController';
+import {
+  authenticateToken,
+  adminOnly,
+  supervisorOnly,
+} from '../middleware/auth';
+import {
+  validatePenaltyRule,
+  validatePenaltyAccrualRun,
+  validateViolationIdParam,
+  validateEscalationRules,
+} from '../middleware/penaltyValidation';
+import { sanitizeInput, auditTrail } from '../middleware/security';
+
+const router = Router();
+
+// Apply input sanitization and authentication to all routes
+router.use(sanitizeInput);
+router.use(authenticateToken);
+
+router.get('/violation/:violationId',
+  validateViolationIdParam,
+  PenaltyController.getViolationPenalties
+);
+
+// Supervisor and Admin routes
+router.get('/rules',
+  supervisorOnly,
+  PenaltyController.getPenaltyRules
+);
+
+router.get('/escalation-rules',
+  supervisorOnly,
+  PenaltyController.getEscalationRules
+);
+
+// Admin only routes
+router.put('/rules/:violationTypeId',
+  adminOnly,
+  validatePenaltyRule,
+  auditTrail('PENALTY_RULE_UPDATE'),
+  PenaltyController.upsertPenaltyRule
+);
+
+router.put('/escalation-rules',
+  adminOnly,
+  validateEscalationRules,
+  auditTrail('ESCALATION_RULES_UPDATE'),
+  PenaltyController.replaceEscalationRules
+);
+
+router.post('/accrue',
+  adminOnly,
+  validatePenaltyAccrualRun,
+  auditTrail('PENALTY_ACCRUAL_RUN'),
+  PenaltyController.runAccrual
+);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { ReportScheduleController } from '../controllers/reportScheduleController';
+import {
+  authenticateToken,
+  adminOnly,
+} from '../middleware/auth';
+import {
+  validateReportScheduleCreation,
+  validateReportScheduleUpdate,
+  validateReportScheduleList,
+  validateReportRunList,
+  validateReportScheduleId,
+} from '../middleware/reportScheduleValidation';
+import { sanitizeInput, auditTrail } from '../middleware/security';
+
+const router = Router();
+
+// Apply input sanitization and authentication to all routes
+router.use(sanitizeInput);
+router.use(authenticateToken);
+
+// Admin only routes
+router.get('/',
+  adminOnly,
+  validateReportScheduleList,
+  ReportScheduleController.getSchedules
+);
+
+router.get('/:id',
+  adminOnly,
+  validateReportScheduleId,
+  ReportScheduleController.getScheduleById
+);
+
+router.get('/:id/runs',
+  adminOnly,
+  validateReportRunList,
+  ReportScheduleController.getScheduleRuns
+);
+
+router.post('/',
+  adminOnly,
+  validateReportScheduleCreation,
+  auditTrail('REPORT_SCHEDULE_CREATE'),
+  ReportScheduleController.createSchedule
+);
+
+router.put('/:id',
+  adminOnly,
+  validateReportScheduleUpdate,
+  auditTrail('REPORT_SCHEDULE_UPDATE'),
+  ReportScheduleController.updateSchedule
+);
+
+router.delete('/:id',
+  adminOnly,
+  validateReportScheduleId,
+  auditTrail('REPORT_SCHEDULE_DELETE'),
+  ReportScheduleController.deleteSchedule
+);
+
+router.post('/:id/run',
+  adminOnly,
+  validateReportScheduleId,
+  auditTrail('REPORT_SCHEDULE_RUN'),
+  ReportScheduleController.runNow
+);
+
+export default router;
\ No newline at end of file
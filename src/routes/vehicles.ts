@@ -13,6 +13,8 @@ import {
   validatePlateParam,
   validateVehicleId,
   validateBulkImport,
+  validatePointsRecalculation,
+  validateSuspensionPolicy,
 } from '../middleware/vehicleValidation';
 import { sanitizeInput, auditTrail } from '../middleware/security';
 
@@ -45,11 +47,21 @@ router.get('/similar/:plateNumber',
   VehicleController.findSimilarPlates
 );
 
+router.get('/suspension-policy',
+  supervisorOnly,
+  VehicleController.getSuspensionPolicy
+);
+
 router.get('/:id',
   validateVehicleId,
   VehicleController.getVehicleById
 );
 
+router.get('/:id/suspensions',
+  validateVehicleId,
+  VehicleController.getVehicleSuspensions
+);
+
 router.get('/:plateNumber/stats',
   validatePlateParam,
   VehicleController.getVehicleStats
@@ -84,4 +96,18 @@ router.post('/bulk-import',
   VehicleController.bulkImportVehicles
 );
 
+router.put('/suspension-policy',
+  adminOnly,
+  validateSuspensionPolicy,
+  auditTrail('SUSPENSION_POLICY_UPDATE'),
+  VehicleController.updateSuspensionPolicy
+);
+
+router.post('/points/recalculate',
+  adminOnly,
+  validatePointsRecalculation,
+  auditTrail('POINTS_RECALCULATION_RUN'),
+  VehicleController.recalculatePoints
+);
+
 export default router;
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import { ViolationController } from '../controllers/violationController';
+import { AppealController } from '../controllers/appealController';
+import { DuplicateReviewController } from '../controllers/duplicateReviewController';
+import { TicketCorrectionController } from '../controllers/ticketCorrectionController';
 import { 
   authenticateToken, 
   adminOnly,
@@ -9,16 +12,37 @@ import {
 import {
   validateViolationCreation,
   validateViolationSearch,
+  validateViolationExport,
   validateStatusUpdate,
   validateContestViolation,
   validateReportGeneration,
+  validateStatsRollupRebuild,
   validateViolationId,
   validateTicketParam,
   validatePlateParam,
   validateOfficerIdParam,
   validateStatsDateRange,
+  validateAppealQueue,
+  validateAppealReviewer,
+  validateAppealHearing,
+  validateAppealDecision,
+  validateAppealDocumentParams,
+  validateEvidenceUpload,
+  validateEvidenceFileParams,
+  validateOfflineSync,
+  validateDuplicateQueue,
+  validateDuplicateResolution,
+  validateCorrectionRequest,
+  validateCorrectionQueue,
+  validateCorrectionReview,
+  validateHotspotQuery,
 } from '../middleware/violationValidation';
 import { sanitizeInput, auditTrail } from '../middleware/security';
+import {
+  uploadAppealDocuments,
+  uploadEvidencePhotos,
+  processEvidencePhotos,
+} from '../middleware/upload';
 
 const router = Router();
 
@@ -26,14 +50,24 @@ const router = Router();
 router.use(sanitizeInput);
 router.use(authenticateToken);
 
-// Officer routes (create violations)
+// Officer routes (create violations); accepts JSON or multipart with evidencePhotos files
 router.post('/', 
   officerOnly,
+  uploadEvidencePhotos,
+  processEvidencePhotos,
   validateViolationCreation,
   auditTrail('VIOLATION_CREATE'),
   ViolationController.createViolation
 );
 
+// Tickets captured offline; evidence photos follow via POST /:id/evidence once synced
+router.post('/sync',
+  officerOnly,
+  validateOfflineSync,
+  auditTrail('VIOLATION_OFFLINE_SYNC'),
+  ViolationController.syncOfflineViolations
+);
+
 router.get('/my-stats',
   officerOnly,
   validateStatsDateRange,
@@ -47,15 +81,123 @@ router.get('/search',
   ViolationController.searchViolations
 );
 
+router.get('/export',
+  supervisorOnly,
+  validateViolationSearch,
+  validateViolationExport,
+  auditTrail('VIOLATION_EXPORT'),
+  ViolationController.exportViolations
+);
+
 router.get('/dashboard/summary',
   ViolationController.getDashboardSummary
 );
 
+router.get('/appeals/queue',
+  supervisorOnly,
+  validateAppealQueue,
+  AppealController.getAppealQueue
+);
+
+router.get('/analytics/hotspots',
+  supervisorOnly,
+  validateHotspotQuery,
+  ViolationController.getHotspots
+);
+
+router.get('/duplicates/queue',
+  supervisorOnly,
+  validateDuplicateQueue,
+  DuplicateReviewController.getReviewQueue
+);
+
+router.post('/duplicates/:reviewId/resolve',
+  supervisorOnly,
+  validateDuplicateResolution,
+  auditTrail('DUPLICATE_REVIEW_RESOLVE'),
+  DuplicateReviewController.resolveReview
+);
+
+router.get('/corrections/queue',
+  supervisorOnly,
+  validateCorrectionQueue,
+  TicketCorrectionController.getCorrectionQueue
+);
+
+router.post('/corrections/:correctionId/review',
+  supervisorOnly,
+  validateCorrectionReview,
+  auditTrail('TICKET_CORRECTION_REVIEW'),
+  TicketCorrectionController.reviewCorrection
+);
+
 router.get('/:id',
   validateViolationId,
   ViolationController.getViolationById
 );
 
+router.get('/:id/history',
+  validateViolationId,
+  auditTrail('VIOLATION_HISTORY_VIEW'),
+  ViolationController.getViolationHistory
+);
+
+router.get('/:id/evidence',
+  validateViolationId,
+  auditTrail('VIOLATION_EVIDENCE_VIEW'),
+  ViolationController.getEvidence
+);
+
+router.get('/:id/evidence/manifest',
+  officerOnly,
+  validateViolationId,
+  auditTrail('EVIDENCE_MANIFEST_SIGN'),
+  ViolationController.getEvidenceManifest
+);
+
+router.post('/:id/evidence/verify',
+  supervisorOnly,
+  validateViolationId,
+  auditTrail('EVIDENCE_VERIFY'),
+  ViolationController.verifyEvidence
+);
+
+router.get('/:id/evidence/access-log',
+  supervisorOnly,
+  validateViolationId,
+  ViolationController.getEvidenceAccessLog
+);
+
+router.get('/:id/evidence/:evidenceId/file',
+  validateViolationId,
+  validateEvidenceFileParams,
+  ViolationController.getEvidenceFile
+);
+
+router.post('/:id/evidence',
+  officerOnly,
+  validateViolationId,
+  uploadEvidencePhotos,
+  processEvidencePhotos,
+  validateEvidenceUpload,
+  auditTrail('VIOLATION_EVIDENCE_ADD'),
+  ViolationController.addEvidence
+);
+
+router.post('/:id/corrections',
+  officerOnly,
+  validateViolationId,
+  validateCorrectionRequest,
+  auditTrail('TICKET_CORRECTION_REQUEST'),
+  TicketCorrectionController.requestCorrection
+);
+
+router.get('/:id/corrections',
+  officerOnly,
+  validateViolationId,
+  TicketCorrectionController.getViolationCorrections
+);
+
 router.get('/ticket/:ticketNumber',
   validateTicketParam,
   ViolationController.getViolationByTicket
@@ -75,7 +217,50 @@ router.post('/:id/contest',
   ViolationController.contestViolation
 );
 
+router.get('/:id/appeal',
+  validateViolationId,
+  AppealController.getAppeal
+);
+
+router.post('/:id/appeal/documents',
+  validateViolationId,
+  uploadAppealDocuments,
+  auditTrail('APPEAL_DOCUMENT_UPLOAD'),
+  AppealController.addDocuments
+);
+
+router.get('/:id/appeal/documents/:fileName',
+  validateViolationId,
+  validateAppealDocumentParams,
+  auditTrail('APPEAL_DOCUMENT_VIEW'),
+  AppealController.getDocument
+);
+
 // Supervisor and Admin routes
+router.put('/:id/appeal/reviewer',
+  supervisorOnly,
+  validateViolationId,
+  validateAppealReviewer,
+  auditTrail('APPEAL_REVIEWER_ASSIGN'),
+  AppealController.assignReviewer
+);
+
+router.put('/:id/appeal/hearing',
+  supervisorOnly,
+  validateViolationId,
+  validateAppealHearing,
+  auditTrail('APPEAL_HEARING_SCHEDULE'),
+  AppealController.scheduleHearing
+);
+
+router.post('/:id/appeal/decision',
+  supervisorOnly,
+  validateViolationId,
+  validateAppealDecision,
+  auditTrail('APPEAL_DECISION'),
+  AppealController.recordDecision
+);
+
 router.put('/:id/status',
   supervisorOnly,
   validateViolationId,
@@ -98,6 +283,13 @@ router.get('/stats/system',
   ViolationController.getSystemStats
 );
 
+router.post('/stats/rollup/rebuild',
+  adminOnly,
+  validateStatsRollupRebuild,
+  auditTrail('STATS_ROLLUP_REBUILD'),
+  ViolationController.rebuildStatsRollup
+);
+
 router.post('/reports/generate',
   adminOnly,
   validateReportGeneration,
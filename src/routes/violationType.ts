@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { ViolationTypeController } from '../controllers/violationTypeController';
+import {
+  authenticateToken,
+  adminOnly,
+} from '../middleware/auth';
+import {
+  validateViolationTypeIdParam,
+  validateViolationTypeQuery,
+  validateViolationTypeCreation,
+  validateViolationTypeUpdate,
+  validateFineSchedule,
+} from '../middleware/violationTypeValidation';
+import { sanitizeInput, auditTrail } from '../middleware/security';
+
+const router = Router();
+
+// Apply input sanitization and authentication to all routes
+router.use(sanitizeInput);
+router.use(authenticateToken);
+
+router.get('/',
+  validateViolationTypeQuery,
+  ViolationTypeController.getViolationTypes
+);
+
+router.get('/:id',
+  validateViolationTypeIdParam,
+  ViolationTypeController.getViolationTypeById
+);
+
+// Admin only routes
+router.post('/',
+  adminOnly,
+  validateViolationTypeCreation,
+  auditTrail('VIOLATION_TYPE_CREATE'),
+  ViolationTypeController.createViolationType
+);
+
+router.put('/:id',
+  adminOnly,
+  validateViolationTypeUpdate,
+  auditTrail('VIOLATION_TYPE_UPDATE'),
+  ViolationTypeController.updateViolationType
+);
+
+router.post('/:id/fine-schedules',
+  adminOnly,
+  validateFineSchedule,
+  auditTrail('FINE_SCHEDULE_CREATE'),
+  ViolationTypeController.addFineSchedule
+);
+
+router.put('/:id/deactivate',
+  adminOnly,
+  validateViolationTypeIdParam,
+  auditTrail('VIOLATION_TYPE_DEACTIVATE'),
+  ViolationTypeController.deactivateViolationType
+);
+
+router.put('/:id/activate',
+  adminOnly,
+  validateViolationTypeIdParam,
+  auditTrail('VIOLATION_TYPE_ACTIVATE'),
+  ViolationTypeController.activateViolationType
+);
+
+export default router;
\ No newline at end of file
@@ -2,6 +2,8 @@ import app from './app';
 import { appConfig } from './config/app';
 import { syncDatabase } from './models';
 import { runSeeders } from './utils/seeders';
+import { startScheduledJobs, JobScheduler } from './jobs';
+import { StatisticsRollupService } from './services/statisticsRollupService';
 import { logger } from './utils/logger';
 
 // Test database connection and sync
@@ -15,6 +17,9 @@ const connectDB = async () => {
     if (appConfig.nodeEnv === 'development') {
       await runSeeders();
     }
+
+    // Dashboards read the daily rollups; queue existing history the first time they are empty
+    await StatisticsRollupService.backfillIfEmpty();
   } catch (error) {
     logger.error('Database setup failed:', error);
     process.exit(1);
@@ -25,6 +30,8 @@ const connectDB = async () => {
 const startServer = async () => {
   await connectDB();
 
+  startScheduledJobs();
+
   const server = app.listen(appConfig.port, () => {
     logger.info(`🚀 DRSVMS API Server started`);
     logger.info(`📡 Port: ${appConfig.port}`);
@@ -40,6 +47,7 @@ const startServer = async () => {
   // Graceful shutdown
   const gracefulShutdown = (signal: string) => {
     logger.info(`Received ${signal}, shutting down gracefully`);
+    JobScheduler.stop();
     server.close(() => {
       logger.info('HTTP server closed');
       process.exit(0);
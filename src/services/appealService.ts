@@ -0,0 +1,388 @@
+import { Op } from 'sequelize';
+import path from 'path';
+import fs from 'fs';
+import { Appeal, Violation, VehicleOwner, User, sequelize } from '../models';
+import { AppealDecision, AppealStatus } from '../models/Appeal';
+import { ViolationService } from './violationService';
+import { SuspensionPolicyService } from './suspensionPolicyService';
+import { NotificationService } from './notificationService';
+import { APPEAL_DOCUMENTS_DIR, saveAppealDocuments, deleteAppealDocuments } from '../middleware/upload';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface AppealDecisionData {
+    decision: AppealDecision;
+    decisionReason: string;
+    revisedFineAmount?: number;
+}
+
+export interface AppealRequester {
+    userId: number;
+    role: string;
+}
+
+export interface AppealQueueQuery {
+    status?: AppealStatus;
+    reviewerId?: number;
+    page?: number;
+    limit?: number;
+}
+
+// Staff roles that may read any appeal's documents
+const ADJUDICATOR_ROLES = ['supervisor', 'admin'];
+
+const DECISION_LABELS: { [key in AppealDecision]: string } = {
+    upheld: 'Violation upheld',
+    reduced_fine: 'Fine reduced',
+    overturned: 'Violation overturned',
+};
+
+export class AppealService {
+    // Get the appeal for a violation, for the appellant, the assigned reviewer or a supervisor
+    static async getAppealByViolationId(violationId: number, requester: AppealRequester): Promise<Appeal> {
+        const appeal = await Appeal.findOne({
+            where: { violationId },
+            include: [
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['id', 'ticketNumber', 'plateNumber', 'fineAmount', 'points', 'status', 'isOverturned']
+                },
+                {
+                    model: User,
+                    as: 'reviewer',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                },
+                {
+                    model: User,
+                    as: 'decider',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                }
+            ]
+        });
+
+        if (!appeal) {
+            throw createError('No appeal found for this violation', 404);
+        }
+
+        this.assertAccess(appeal, requester);
+
+        return appeal;
+    }
+
+    // List appeals awaiting adjudication
+    static async getAppealQueue(query: AppealQueueQuery): Promise<{
+        appeals: Appeal[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { status, reviewerId, page = 1, limit = 20 } = query;
+
+        const whereConditions: any = {
+            status: status || { [Op.ne]: 'decided' }
+        };
+
+        if (reviewerId) {
+            whereConditions.reviewerId = reviewerId;
+        }
+
+        const { count, rows } = await Appeal.findAndCountAll({
+            where: whereConditions,
+            include: [
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['ticketNumber', 'plateNumber', 'fineAmount', 'status']
+                },
+                {
+                    model: User,
+                    as: 'reviewer',
+                    attributes: ['fullName', 'employeeId']
+                }
+            ],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['createdAt', 'ASC']]
+        });
+
+        return {
+            appeals: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Assign a reviewer to an open appeal
+    static async assignReviewer(violationId: number, reviewerId: number, assignedBy: number): Promise<Appeal> {
+        const appeal = await this.getOpenAppeal(violationId);
+
+        const reviewer = await User.findOne({
+            where: {
+                id: reviewerId,
+                isActive: true,
+                role: { [Op.in]: ['supervisor', 'admin'] }
+            }
+        });
+
+        if (!reviewer) {
+            throw createError('Reviewer must be an active supervisor or admin', 400);
+        }
+
+        appeal.reviewerId = reviewer.id;
+        appeal.assignedAt = new Date();
+
+        if (appeal.status === 'submitted') {
+            appeal.status = 'under_review';
+        }
+
+        await appeal.save();
+
+        logger.info(`Appeal ${appeal.id} assigned to reviewer ${reviewer.employeeId} by user ${assignedBy}`);
+
+        return appeal;
+    }
+
+    // Attach supporting documents to an open appeal; files reach storage only once the appeal and the uploader are checked
+    static async addDocuments(violationId: number, files: Express.Multer.File[], requester: AppealRequester): Promise<Appeal> {
+        const appeal = await this.getOpenAppeal(violationId);
+
+        this.assertAccess(appeal, requester);
+
+        const documents = await saveAppealDocuments(files, requester.userId);
+        const uploadedAt = new Date().toISOString();
+
+        try {
+            // Reassign rather than mutate so Sequelize detects the JSON change
+            appeal.supportingDocuments = [
+                ...(appeal.supportingDocuments || []),
+                ...documents.map(document => ({ ...document, uploadedBy: requester.userId, uploadedAt }))
+            ];
+
+            await appeal.save();
+        } catch (error) {
+            await deleteAppealDocuments(documents.map(document => document.fileName));
+            throw error;
+        }
+
+        logger.info(`${documents.length} document(s) attached to appeal ${appeal.id}`);
+
+        return appeal;
+    }
+
+    // Locate an appeal document for the appellant, its uploader, the assigned reviewer or a supervisor
+    static async getDocumentFile(
+        violationId: number,
+        fileName: string,
+        requester: AppealRequester
+    ): Promise<{ filePath: string; mimeType: string; downloadName: string }> {
+        const appeal = await Appeal.findOne({ where: { violationId } });
+
+        if (!appeal) {
+            throw createError('No appeal found for this violation', 404);
+        }
+
+        const document = (appeal.supportingDocuments || []).find(item => item.fileName === fileName);
+
+        if (!document) {
+            throw createError('Appeal document not found', 404);
+        }
+
+        this.assertAccess(appeal, requester, document.uploadedBy);
+
+        const filePath = path.resolve(APPEAL_DOCUMENTS_DIR, document.fileName);
+
+        if (!fs.existsSync(filePath)) {
+            logger.error(`Appeal document missing from storage: ${document.fileName} (appeal ${appeal.id})`);
+            throw createError('Appeal document is missing from storage', 404);
+        }
+
+        return { filePath, mimeType: document.mimeType, downloadName: document.originalName || document.fileName };
+    }
+
+    // Schedule a hearing for an open appeal
+    static async scheduleHearing(
+        violationId: number,
+        hearingDate: Date,
+        hearingLocation: string,
+        scheduledBy: number
+    ): Promise<Appeal> {
+        const appeal = await this.getOpenAppeal(violationId);
+
+        if (hearingDate <= new Date()) {
+            throw createError('Hearing date must be in the future', 400);
+        }
+
+        appeal.hearingDate = hearingDate;
+        appeal.hearingLocation = hearingLocation;
+        appeal.status = 'hearing_scheduled';
+
+        await appeal.save();
+
+        logger.info(`Hearing for appeal ${appeal.id} scheduled on ${hearingDate.toISOString()} by user ${scheduledBy}`);
+
+        return appeal;
+    }
+
+    // Record the outcome of an appeal and apply it to the violation and owner
+    static async recordDecision(violationId: number, data: AppealDecisionData, decidedBy: number): Promise<Appeal> {
+        const { decision, decisionReason, revisedFineAmount } = data;
+
+        const transaction = await sequelize.transaction();
+        let vehicleOwner: VehicleOwner | null = null;
+        let violation: Violation | null = null;
+        let appeal: Appeal | null = null;
+
+        try {
+            appeal = await Appeal.findOne({ where: { violationId }, transaction });
+
+            if (!appeal) {
+                throw createError('No appeal found for this violation', 404);
+            }
+
+            if (!appeal.isOpen()) {
+                throw createError('This appeal has already been decided', 400);
+            }
+
+            violation = await Violation.findByPk(violationId, { transaction });
+
+            if (!violation) {
+                throw createError('Violation not found', 404);
+            }
+
+            if (violation.status !== 'contested') {
+                throw createError('Only contested violations can be adjudicated', 400);
+            }
+
+            if (decision === 'reduced_fine') {
+                if (revisedFineAmount === undefined || revisedFineAmount >= Number(violation.fineAmount)) {
+                    throw createError('Revised fine amount must be lower than the current fine', 400);
+                }
+                violation.fineAmount = revisedFineAmount;
+                appeal.revisedFineAmount = revisedFineAmount;
+            }
+
+            if (decision === 'overturned') {
+                violation.isOverturned = true;
+                await ViolationService.changeStatus(violation, 'dismissed', decidedBy, `Appeal overturned: ${decisionReason}`, transaction);
+
+                const pointsHolder = await ViolationService.getPointsHolder(violation, transaction);
+
+                if (pointsHolder) {
+                    pointsHolder.currentPoints = Math.max(0, pointsHolder.currentPoints - violation.points);
+
+                    // Lift any suspension the overturned ticket triggered or its points no longer support
+                    await SuspensionPolicyService.liftForViolation(pointsHolder, violation.id, `Appeal overturned for ${violation.ticketNumber}`, transaction);
+                    await SuspensionPolicyService.reviewPointsReduction(pointsHolder, `Appeal overturned for ${violation.ticketNumber}`, transaction);
+
+                    await pointsHolder.save({ transaction });
+
+                    if (pointsHolder instanceof VehicleOwner) {
+                        vehicleOwner = pointsHolder;
+                    }
+                }
+            } else {
+                // Give the owner time to pay if the due date lapsed while the appeal was open
+                if (!violation.dueDate || new Date(violation.dueDate) < new Date()) {
+                    const dueDate = new Date();
+                    dueDate.setDate(dueDate.getDate() + 14);
+                    violation.dueDate = dueDate;
+                }
+
+                await ViolationService.changeStatus(
+                    violation,
+                    'pending',
+                    decidedBy,
+                    `Appeal ${decision === 'upheld' ? 'upheld' : 'decided with reduced fine'}: ${decisionReason}`,
+                    transaction
+                );
+            }
+
+            appeal.decision = decision;
+            appeal.decisionReason = decisionReason;
+            appeal.decidedBy = decidedBy;
+            appeal.decidedAt = new Date();
+            appeal.status = 'decided';
+
+            await appeal.save({ transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Appeal decision failed:', error);
+            throw error;
+        }
+
+        logger.info(`Appeal ${appeal.id} for ${violation.ticketNumber} decided: ${decision} by user ${decidedBy}`);
+
+        await this.notifyOwnerOfDecision(appeal, violation, vehicleOwner);
+
+        return appeal;
+    }
+
+    // Only the appellant, the assigned reviewer and supervisors or admins may see or add to an appeal
+    private static assertAccess(appeal: Appeal, requester: AppealRequester, uploadedBy?: number): void {
+        const allowed = ADJUDICATOR_ROLES.includes(requester.role)
+            || [appeal.submittedBy, appeal.reviewerId, uploadedBy].includes(requester.userId);
+
+        if (!allowed) {
+            logger.warn(`User ${requester.userId} denied access to appeal ${appeal.id}`);
+            throw createError('You do not have access to this appeal', 403);
+        }
+    }
+
+    // Get an appeal that can still be worked on
+    private static async getOpenAppeal(violationId: number): Promise<Appeal> {
+        const appeal = await Appeal.findOne({ where: { violationId } });
+
+        if (!appeal) {
+            throw createError('No appeal found for this violation', 404);
+        }
+
+        if (!appeal.isOpen()) {
+            throw createError('This appeal has already been decided', 400);
+        }
+
+        return appeal;
+    }
+
+    // Tell the vehicle owner how their appeal was decided
+    private static async notifyOwnerOfDecision(
+        appeal: Appeal,
+        violation: Violation,
+        vehicleOwner: VehicleOwner | null
+    ): Promise<void> {
+        try {
+            const owner = vehicleOwner || (violation.vehicleOwnerId ? await VehicleOwner.findByPk(violation.vehicleOwnerId) : null);
+
+            if (!owner || (!owner.email && !owner.phone)) {
+                return;
+            }
+
+            const outcomeMessage = appeal.decision === 'overturned'
+                ? 'The violation has been dismissed and its points removed from your record.'
+                : `Please pay ₦${Number(violation.fineAmount).toLocaleString()} by ${violation.dueDate ? new Date(violation.dueDate).toDateString() : 'the due date'}.`;
+
+            await NotificationService.sendNotification({
+                recipient: {
+                    name: owner.fullName,
+                    email: owner.email || undefined,
+                    phone: owner.phone || undefined
+                },
+                type: 'appeal_decided',
+                data: {
+                    ticketNumber: violation.ticketNumber,
+                    plateNumber: violation.plateNumber,
+                    decisionLabel: DECISION_LABELS[appeal.decision as AppealDecision],
+                    decisionReason: appeal.decisionReason,
+                    outcomeMessage
+                },
+                channels: ['sms', 'email']
+            });
+        } catch (error) {
+            logger.error('Failed to send appeal decision notification:', error);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,366 @@
+import { Op } from 'sequelize';
+import { CourtCase, Violation, User, Appeal, sequelize } from '../models';
+import { CourtCaseStatus, CourtVerdict } from '../models/CourtCase';
+import { ViolationService } from './violationService';
+import { SuspensionPolicyService, PolicyOutcome, PointsHolder } from './suspensionPolicyService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface CourtReferralData {
+    violationIds: number[];
+    caseNumber: string;
+    courtName: string;
+    courtLocation?: string;
+    prosecutingOfficerId: number;
+    hearingDate: Date;
+    referralReason?: string;
+}
+
+export interface CourtVerdictData {
+    verdict: CourtVerdict;
+    verdictNotes: string;
+    // Court-imposed fine and points per violation; only applied on conviction
+    adjustments?: Array<{
+        violationId: number;
+        fineAmount?: number;
+        points?: number;
+    }>;
+}
+
+export interface CourtCaseQuery {
+    status?: CourtCaseStatus;
+    courtName?: string;
+    prosecutingOfficerId?: number;
+    page?: number;
+    limit?: number;
+}
+
+const REFERABLE_STATUSES = ['pending', 'partially_paid', 'contested'];
+const CONVICTION_PAYMENT_DAYS = 30;
+
+export class CourtCaseService {
+    // Open a court case and move the referred violations to court_pending
+    static async referToCourt(data: CourtReferralData, referredBy: number): Promise<CourtCase> {
+        const { violationIds, caseNumber, courtName, courtLocation, prosecutingOfficerId, hearingDate, referralReason } = data;
+
+        if (hearingDate <= new Date()) {
+            throw createError('Hearing date must be in the future', 400);
+        }
+
+        const transaction = await sequelize.transaction();
+        let courtCase: CourtCase;
+
+        try {
+            const existingCase = await CourtCase.findOne({ where: { caseNumber }, transaction });
+
+            if (existingCase) {
+                throw createError('Case number already exists', 409);
+            }
+
+            const prosecutingOfficer = await User.findOne({
+                where: { id: prosecutingOfficerId, isActive: true },
+                transaction
+            });
+
+            if (!prosecutingOfficer) {
+                throw createError('Prosecuting officer must be an active user', 400);
+            }
+
+            const violations = await Violation.findAll({
+                where: { id: { [Op.in]: violationIds } },
+                include: [{
+                    model: Appeal,
+                    as: 'appeal',
+                    attributes: ['id', 'status']
+                }],
+                transaction
+            });
+
+            if (violations.length !== violationIds.length) {
+                throw createError('One or more violations do not exist', 404);
+            }
+
+            for (const violation of violations) {
+                if (!REFERABLE_STATUSES.includes(violation.status)) {
+                    throw createError(`Violation ${violation.ticketNumber} cannot be referred from status ${violation.status}`, 400);
+                }
+
+                if (violation.courtCaseId) {
+                    throw createError(`Violation ${violation.ticketNumber} has already been referred to court`, 400);
+                }
+
+                const appeal: Appeal | undefined = (violation as any).appeal;
+                if (appeal && appeal.isOpen()) {
+                    throw createError(`Violation ${violation.ticketNumber} has an open appeal; record the appeal decision first`, 400);
+                }
+            }
+
+            courtCase = await CourtCase.create({
+                caseNumber,
+                courtName,
+                courtLocation,
+                prosecutingOfficerId,
+                referredBy,
+                referralReason,
+                nextHearingDate: hearingDate
+            }, { transaction });
+
+            for (const violation of violations) {
+                violation.courtCaseId = courtCase.id;
+                await ViolationService.changeStatus(
+                    violation,
+                    'court_pending',
+                    referredBy,
+                    `Referred to ${courtName} under case ${caseNumber}`,
+                    transaction
+                );
+            }
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Court referral failed:', error);
+            throw error;
+        }
+
+        logger.info(`Court case ${caseNumber} opened with ${violationIds.length} violation(s) by user ${referredBy}`);
+
+        return this.getCourtCaseById(courtCase.id);
+    }
+
+    // List court cases
+    static async getCourtCases(query: CourtCaseQuery): Promise<{
+        courtCases: CourtCase[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { status, courtName, prosecutingOfficerId, page = 1, limit = 20 } = query;
+
+        const whereConditions: any = {};
+
+        if (status) whereConditions.status = status;
+        if (courtName) whereConditions.courtName = { [Op.like]: `%${courtName}%` };
+        if (prosecutingOfficerId) whereConditions.prosecutingOfficerId = prosecutingOfficerId;
+
+        const { count, rows } = await CourtCase.findAndCountAll({
+            where: whereConditions,
+            include: [{
+                model: User,
+                as: 'prosecutingOfficer',
+                attributes: ['fullName', 'employeeId']
+            }],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['nextHearingDate', 'ASC'], ['createdAt', 'DESC']]
+        });
+
+        return {
+            courtCases: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Get a court case with its violations
+    static async getCourtCaseById(id: number): Promise<CourtCase> {
+        const courtCase = await CourtCase.findByPk(id, {
+            include: [
+                {
+                    model: Violation,
+                    as: 'violations',
+                    attributes: ['id', 'ticketNumber', 'plateNumber', 'fineAmount', 'points', 'status', 'violationDate']
+                },
+                {
+                    model: User,
+                    as: 'prosecutingOfficer',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                },
+                {
+                    model: User,
+                    as: 'referrer',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                }
+            ]
+        });
+
+        if (!courtCase) {
+            throw createError('Court case not found', 404);
+        }
+
+        return courtCase;
+    }
+
+    // Move the next hearing to a new date
+    static async recordAdjournment(id: number, newHearingDate: Date, reason: string, recordedBy: number): Promise<CourtCase> {
+        const courtCase = await this.getOpenCase(id);
+
+        if (newHearingDate <= new Date()) {
+            throw createError('Adjourned hearing date must be in the future', 400);
+        }
+
+        // Reassign rather than mutate so Sequelize detects the JSON change
+        courtCase.adjournments = [
+            ...(courtCase.adjournments || []),
+            {
+                previousHearingDate: courtCase.nextHearingDate ? new Date(courtCase.nextHearingDate).toISOString() : null,
+                newHearingDate: newHearingDate.toISOString(),
+                reason,
+                recordedBy,
+                recordedAt: new Date().toISOString()
+            }
+        ];
+        courtCase.nextHearingDate = newHearingDate;
+
+        await courtCase.save();
+
+        logger.info(`Court case ${courtCase.caseNumber} adjourned to ${newHearingDate.toISOString()} by user ${recordedBy}`);
+
+        return courtCase;
+    }
+
+    // Record the verdict and apply it to every violation on the case
+    static async recordVerdict(id: number, data: CourtVerdictData, recordedBy: number): Promise<CourtCase> {
+        const { verdict, verdictNotes, adjustments = [] } = data;
+
+        const transaction = await sequelize.transaction();
+        let courtCase: CourtCase | null = null;
+        const outcomes: Array<{ owner: PointsHolder; outcome: PolicyOutcome }> = [];
+
+        try {
+            courtCase = await CourtCase.findByPk(id, { transaction });
+
+            if (!courtCase) {
+                throw createError('Court case not found', 404);
+            }
+
+            if (!courtCase.isOpen()) {
+                throw createError('A verdict has already been recorded for this case', 400);
+            }
+
+            const violations = await Violation.findAll({
+                where: { courtCaseId: courtCase.id, status: 'court_pending' },
+                transaction
+            });
+
+            const caseViolationIds = violations.map(v => v.id);
+            const unknown = adjustments.find(a => !caseViolationIds.includes(a.violationId));
+
+            if (unknown) {
+                throw createError(`Violation ${unknown.violationId} is not pending on this case`, 400);
+            }
+
+            if (verdict !== 'convicted' && adjustments.length > 0) {
+                throw createError('Fine and points adjustments only apply to convictions', 400);
+            }
+
+            // Drivers and owners are keyed separately as their IDs come from different tables
+            const owners: { [holderKey: string]: PointsHolder } = {};
+            const previousPoints: { [holderKey: string]: number } = {};
+            const dismissedIds: { [holderKey: string]: number[] } = {};
+            const reason = `Court verdict (${courtCase.caseNumber}): ${verdict.replace('_', ' ')}`;
+
+            for (const violation of violations) {
+                const holderKey = violation.driverId ? `driver:${violation.driverId}` : `owner:${violation.vehicleOwnerId}`;
+                const owner = owners[holderKey] || await ViolationService.getPointsHolder(violation, transaction);
+
+                if (owner && !owners[holderKey]) {
+                    owners[holderKey] = owner;
+                    previousPoints[holderKey] = owner.currentPoints;
+                }
+
+                if (verdict === 'convicted') {
+                    const adjustment = adjustments.find(a => a.violationId === violation.id);
+
+                    if (adjustment?.fineAmount !== undefined) {
+                        violation.fineAmount = adjustment.fineAmount;
+                    }
+
+                    if (adjustment?.points !== undefined) {
+                        if (owner) {
+                            owner.currentPoints = Math.max(0, owner.currentPoints + adjustment.points - violation.points);
+                        }
+                        violation.points = adjustment.points;
+                    }
+
+                    const dueDate = new Date();
+                    dueDate.setDate(dueDate.getDate() + CONVICTION_PAYMENT_DAYS);
+                    violation.dueDate = dueDate;
+
+                    await ViolationService.changeStatus(violation, 'pending', recordedBy, reason, transaction);
+                } else {
+                    violation.isOverturned = true;
+
+                    if (owner) {
+                        owner.currentPoints = Math.max(0, owner.currentPoints - violation.points);
+                        dismissedIds[holderKey] = [...(dismissedIds[holderKey] || []), violation.id];
+                    }
+
+                    await ViolationService.changeStatus(violation, 'dismissed', recordedBy, reason, transaction);
+                }
+            }
+
+            // Apply the suspension policy to whichever way the court moved each driver's or owner's points
+            for (const [holderKey, owner] of Object.entries(owners)) {
+                if (owner.currentPoints > previousPoints[holderKey]) {
+                    const outcome = await SuspensionPolicyService.applyPointsIncrease(
+                        owner,
+                        { previousPoints: previousPoints[holderKey] },
+                        transaction
+                    );
+                    outcomes.push({ owner, outcome });
+                } else {
+                    // Suspensions the dismissed tickets triggered go with them
+                    for (const violationId of dismissedIds[holderKey] || []) {
+                        await SuspensionPolicyService.liftForViolation(owner, violationId, reason, transaction);
+                    }
+
+                    await SuspensionPolicyService.reviewPointsReduction(owner, reason, transaction);
+                }
+
+                await owner.save({ transaction });
+            }
+
+            courtCase.verdict = verdict;
+            courtCase.verdictNotes = verdictNotes;
+            courtCase.verdictDate = new Date();
+            courtCase.recordedBy = recordedBy;
+            courtCase.status = 'decided';
+            courtCase.nextHearingDate = null;
+
+            await courtCase.save({ transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Court verdict recording failed:', error);
+            throw error;
+        }
+
+        logger.info(`Court case ${courtCase.caseNumber} decided: ${verdict} by user ${recordedBy}`);
+
+        for (const { owner, outcome } of outcomes) {
+            await SuspensionPolicyService.notifyOutcome(owner, outcome);
+        }
+
+        return this.getCourtCaseById(courtCase.id);
+    }
+
+    // Get a case that is still before the court
+    private static async getOpenCase(id: number): Promise<CourtCase> {
+        const courtCase = await CourtCase.findByPk(id);
+
+        if (!courtCase) {
+            throw createError('Court case not found', 404);
+        }
+
+        if (!courtCase.isOpen()) {
+            throw createError('A verdict has already been recorded for this case', 400);
+        }
+
+        return courtCase;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,279 @@
+import { Op, Transaction } from 'sequelize';
+import { Driver, LicenseSuspension, Violation, ViolationType, sequelize } from '../models';
+import { DriverLicenseStatus } from '../models/Driver';
+import { SuspensionPolicyService } from './suspensionPolicyService';
+import { VehicleService } from './vehicleService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface DriverData {
+    licenseNumber: string;
+    fullName: string;
+    dateOfBirth?: Date | null;
+    address?: string;
+    phone?: string;
+    email?: string;
+    licenseClass?: 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+    stateOfIssue?: string;
+    issueDate?: Date;
+    expiryDate?: Date;
+}
+
+export interface DriverSearchQuery {
+    licenseNumber?: string;
+    fullName?: string;
+    status?: DriverLicenseStatus;
+    page?: number;
+    limit?: number;
+}
+
+// Driver details captured at a stop
+export interface StopDriverDetails {
+    licenseNumber: string;
+    fullName?: string;
+    phone?: string;
+}
+
+const POINTS_BATCH_SIZE = 500;
+
+export class DriverService {
+    // Licence numbers are stored upper-case without spaces or hyphens
+    static normalizeLicenseNumber(licenseNumber: string): string {
+        return licenseNumber.trim().toUpperCase().replace(/[\s-]+/g, '');
+    }
+
+    // Find the driver at a stop by licence number, registering them when the licence is not yet on record
+    static async resolveDriver(details: StopDriverDetails, transaction?: Transaction): Promise<Driver> {
+        const licenseNumber = this.normalizeLicenseNumber(details.licenseNumber);
+
+        const driver = await Driver.findOne({
+            where: { licenseNumber },
+            transaction,
+            lock: transaction ? Transaction.LOCK.UPDATE : undefined
+        });
+
+        if (driver) {
+            return driver;
+        }
+
+        if (!details.fullName) {
+            throw createError(`Driver licence ${licenseNumber} is not on record; the driver's full name is required`, 400);
+        }
+
+        logger.info(`Driver with licence ${licenseNumber} registered from a roadside stop`);
+
+        return Driver.create({
+            licenseNumber,
+            fullName: details.fullName,
+            phone: details.phone
+        }, { transaction });
+    }
+
+    // Search drivers
+    static async searchDrivers(query: DriverSearchQuery): Promise<{
+        drivers: Driver[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { licenseNumber, fullName, status, page = 1, limit = 20 } = query;
+
+        const whereConditions: any = {};
+
+        if (licenseNumber) whereConditions.licenseNumber = { [Op.like]: `%${this.normalizeLicenseNumber(licenseNumber)}%` };
+        if (fullName) whereConditions.fullName = { [Op.like]: `%${fullName}%` };
+        if (status) whereConditions.status = status;
+
+        const { count, rows } = await Driver.findAndCountAll({
+            where: whereConditions,
+            limit,
+            offset: (page - 1) * limit,
+            order: [['fullName', 'ASC']]
+        });
+
+        return {
+            drivers: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Get a driver with their recent tickets
+    static async getDriverById(id: number): Promise<Driver> {
+        const driver = await Driver.findByPk(id, {
+            include: [{
+                model: Violation,
+                as: 'violations',
+                attributes: ['id', 'ticketNumber', 'plateNumber', 'fineAmount', 'points', 'status', 'violationDate'],
+                include: [{
+                    model: ViolationType,
+                    as: 'violationType',
+                    attributes: ['code', 'title']
+                }],
+                separate: true,
+                limit: 20,
+                order: [['violationDate', 'DESC']]
+            }]
+        });
+
+        if (!driver) {
+            throw createError('Driver not found', 404);
+        }
+
+        return driver;
+    }
+
+    // Look up a driver by licence number
+    static async getDriverByLicenseNumber(licenseNumber: string): Promise<Driver> {
+        const driver = await Driver.findOne({
+            where: { licenseNumber: this.normalizeLicenseNumber(licenseNumber) }
+        });
+
+        if (!driver) {
+            throw createError('Driver not found', 404);
+        }
+
+        return this.getDriverById(driver.id);
+    }
+
+    // Register a driver from licensing records
+    static async createDriver(data: DriverData, createdBy: number): Promise<Driver> {
+        const licenseNumber = this.normalizeLicenseNumber(data.licenseNumber);
+
+        const existingDriver = await Driver.findOne({ where: { licenseNumber } });
+
+        if (existingDriver) {
+            throw createError('License number already exists', 409);
+        }
+
+        const driver = await Driver.create({ ...data, licenseNumber });
+
+        logger.info(`Driver with licence ${licenseNumber} registered by user ${createdBy}`);
+
+        return driver;
+    }
+
+    // Update a driver's personal and licence details; points and status are managed by the suspension policy
+    static async updateDriver(id: number, data: Partial<DriverData>, updatedBy: number): Promise<Driver> {
+        const driver = await Driver.findByPk(id);
+
+        if (!driver) {
+            throw createError('Driver not found', 404);
+        }
+
+        if (data.licenseNumber !== undefined) {
+            const licenseNumber = this.normalizeLicenseNumber(data.licenseNumber);
+
+            if (licenseNumber !== driver.licenseNumber) {
+                const existingDriver = await Driver.findOne({ where: { licenseNumber } });
+
+                if (existingDriver) {
+                    throw createError('License number already exists', 409);
+                }
+            }
+
+            data = { ...data, licenseNumber };
+        }
+
+        await driver.update(data);
+
+        logger.info(`Driver ${driver.licenseNumber} updated by user ${updatedBy}`);
+
+        return driver;
+    }
+
+    // Get a driver's suspension history
+    static async getDriverSuspensions(driverId: number): Promise<LicenseSuspension[]> {
+        const driver = await Driver.findByPk(driverId, { attributes: ['id'] });
+
+        if (!driver) {
+            throw createError('Driver not found', 404);
+        }
+
+        return LicenseSuspension.findAll({
+            where: { driverId },
+            order: [['startDate', 'DESC']]
+        });
+    }
+
+    // Rebuild every driver's points from their tickets inside the rolling window
+    static async recalculatePoints(asOf: Date = new Date()): Promise<{
+        driversProcessed: number;
+        driversUpdated: number;
+        suspensionsLifted: number;
+    }> {
+        const windowStart = VehicleService.getPointsWindowStart(asOf);
+        let driversProcessed = 0;
+        let driversUpdated = 0;
+        let suspensionsLifted = 0;
+        let lastId = 0;
+
+        for (;;) {
+            const drivers = await Driver.findAll({
+                where: { id: { [Op.gt]: lastId } },
+                order: [['id', 'ASC']],
+                limit: POINTS_BATCH_SIZE
+            });
+
+            if (drivers.length === 0) {
+                break;
+            }
+
+            // Dismissed and overturned tickets never count towards points
+            const rows = await Violation.findAll({
+                where: {
+                    driverId: { [Op.in]: drivers.map(d => d.id) },
+                    status: { [Op.ne]: 'dismissed' },
+                    isOverturned: false,
+                    violationDate: { [Op.gte]: windowStart, [Op.lte]: asOf }
+                },
+                attributes: [
+                    'driverId',
+                    [sequelize.fn('SUM', sequelize.col('points')), 'totalPoints']
+                ],
+                group: ['driverId'],
+                raw: true
+            });
+
+            const pointsByDriver: { [driverId: number]: number } = {};
+            for (const row of rows as any[]) {
+                pointsByDriver[row.driverId] = parseInt(row.totalPoints) || 0;
+            }
+
+            for (const driver of drivers) {
+                const points = pointsByDriver[driver.id] || 0;
+                let changed = false;
+
+                if (driver.currentPoints !== points) {
+                    logger.info(`Points for licence ${driver.licenseNumber} recalculated: ${driver.currentPoints} -> ${points}`);
+                    driver.currentPoints = points;
+                    changed = true;
+                    driversUpdated++;
+                }
+
+                // One driver's failure must not hold back the rest of the run
+                try {
+                    if (await SuspensionPolicyService.reviewPointsReduction(driver, 'Points expired')) {
+                        changed = true;
+                        suspensionsLifted++;
+                    }
+
+                    if (changed) {
+                        await driver.save();
+                    }
+                } catch (error) {
+                    logger.error(`Points recalculation failed for licence ${driver.licenseNumber}:`, error);
+                }
+
+                driversProcessed++;
+            }
+
+            lastId = drivers[drivers.length - 1].id;
+        }
+
+        logger.info(`Driver points recalculation completed: ${driversProcessed} driver(s), ${driversUpdated} updated, ${suspensionsLifted} suspension(s) lifted`);
+
+        return { driversProcessed, driversUpdated, suspensionsLifted };
+    }
+}
\ No newline at end of file
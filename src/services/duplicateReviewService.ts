@@ -0,0 +1,218 @@
+import { Op, Transaction } from 'sequelize';
+import { Violation, User, Evidence, DuplicateReview, sequelize } from '../models';
+import { DuplicateReviewStatus } from '../models/DuplicateReview';
+import { ViolationService } from './violationService';
+import { SuspensionPolicyService } from './suspensionPolicyService';
+import { createError } from '../middleware/errorHandler';
+import { appConfig } from '../config/app';
+import { distanceInMeters } from '../utils/geo';
+import { logger } from '../utils/logger';
+
+export type DuplicateResolution = 'merge' | 'void' | 'keep';
+
+export interface DuplicateCandidate {
+    plateNumber: string;
+    violationTypeId: number;
+    violationDate: Date;
+    locationLat?: number;
+    locationLng?: number;
+}
+
+export interface ProbableDuplicate {
+    violation: Violation;
+    minutesApart: number;
+    distanceMeters: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const RESOLUTION_STATUS: { [action in DuplicateResolution]: DuplicateReviewStatus } = {
+    merge: 'merged',
+    void: 'voided',
+    keep: 'kept',
+};
+
+export class DuplicateReviewService {
+    // Find a ticket for the same plate and offence booked close by in time and place
+    static async findProbableDuplicate(candidate: DuplicateCandidate, transaction?: Transaction): Promise<ProbableDuplicate | null> {
+        const { plateNumber, violationTypeId, violationDate, locationLat, locationLng } = candidate;
+        const windowMs = appConfig.duplicateWindowMinutes * MINUTE_MS;
+
+        const nearbyInTime = await Violation.findAll({
+            where: {
+                plateNumber,
+                violationTypeId,
+                status: { [Op.ne]: 'dismissed' },
+                violationDate: {
+                    [Op.between]: [new Date(violationDate.getTime() - windowMs), new Date(violationDate.getTime() + windowMs)]
+                }
+            },
+            transaction
+        });
+
+        const matches: ProbableDuplicate[] = [];
+
+        for (const violation of nearbyInTime) {
+            let distance: number | null = null;
+
+            // Without a GPS fix on both tickets the time window alone decides
+            if (locationLat !== undefined && locationLng !== undefined && violation.locationLat != null && violation.locationLng != null) {
+                distance = Math.round(distanceInMeters(
+                    Number(locationLat), Number(locationLng),
+                    Number(violation.locationLat), Number(violation.locationLng)
+                ));
+
+                if (distance > appConfig.duplicateRadiusMeters) {
+                    continue;
+                }
+            }
+
+            matches.push({
+                violation,
+                minutesApart: Math.round(Math.abs(violationDate.getTime() - new Date(violation.violationDate).getTime()) / MINUTE_MS),
+                distanceMeters: distance
+            });
+        }
+
+        matches.sort((a, b) => a.minutesApart - b.minutesApart);
+
+        return matches[0] || null;
+    }
+
+    // Flag a newly issued ticket for supervisor review
+    static async flagForReview(violation: Violation, duplicate: ProbableDuplicate, transaction?: Transaction): Promise<DuplicateReview> {
+        const review = await DuplicateReview.create({
+            violationId: violation.id,
+            duplicateOfId: duplicate.violation.id,
+            minutesApart: duplicate.minutesApart,
+            distanceMeters: duplicate.distanceMeters
+        }, { transaction });
+
+        logger.warn(`Ticket ${violation.ticketNumber} flagged as a probable duplicate of ${duplicate.violation.ticketNumber} (${duplicate.minutesApart} min${duplicate.distanceMeters !== null ? `, ${duplicate.distanceMeters} m` : ''} apart)`);
+
+        return review;
+    }
+
+    // List flagged tickets awaiting or past review
+    static async getReviewQueue(query: { status?: DuplicateReviewStatus; page?: number; limit?: number }): Promise<{
+        reviews: DuplicateReview[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { status = 'pending', page = 1, limit = 20 } = query;
+
+        const violationAttributes = ['id', 'ticketNumber', 'plateNumber', 'violationTypeId', 'fineAmount', 'status', 'violationDate', 'locationAddress', 'officerId'];
+
+        const { count, rows } = await DuplicateReview.findAndCountAll({
+            where: { status },
+            include: [
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: violationAttributes,
+                    include: [{
+                        model: User,
+                        as: 'officer',
+                        attributes: ['fullName', 'employeeId']
+                    }]
+                },
+                {
+                    model: Violation,
+                    as: 'duplicateOf',
+                    attributes: violationAttributes,
+                    include: [{
+                        model: User,
+                        as: 'officer',
+                        attributes: ['fullName', 'employeeId']
+                    }]
+                }
+            ],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['createdAt', 'ASC']],
+            distinct: true
+        });
+
+        return {
+            reviews: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Merge the flagged ticket into the original, void it, or keep both
+    static async resolveReview(id: number, action: DuplicateResolution, notes: string | undefined, resolvedBy: number): Promise<DuplicateReview> {
+        const transaction = await sequelize.transaction();
+        let review: DuplicateReview | null = null;
+
+        try {
+            review = await DuplicateReview.findByPk(id, { transaction });
+
+            if (!review) {
+                throw createError('Duplicate review not found', 404);
+            }
+
+            if (!review.isPending()) {
+                throw createError('This duplicate review has already been resolved', 400);
+            }
+
+            if (action !== 'keep') {
+                const [violation, original] = await Promise.all([
+                    Violation.findByPk(review.violationId, { transaction }),
+                    Violation.findByPk(review.duplicateOfId, { transaction })
+                ]);
+
+                if (!violation || !original) {
+                    throw createError('Violation not found', 404);
+                }
+
+                if (violation.status !== 'pending' && violation.status !== 'cautioned') {
+                    throw createError(`Ticket ${violation.ticketNumber} is ${violation.status}; only pending tickets and cautions can be merged or voided`, 400);
+                }
+
+                if (action === 'merge') {
+                    // The original ticket keeps the photos taken at the second booking
+                    await Evidence.update(
+                        { violationId: original.id },
+                        { where: { violationId: violation.id }, transaction }
+                    );
+                }
+
+                const reason = action === 'merge'
+                    ? `Duplicate of ${original.ticketNumber}; merged`
+                    : `Duplicate of ${original.ticketNumber}; voided`;
+
+                await ViolationService.changeStatus(violation, 'dismissed', resolvedBy, notes ? `${reason}: ${notes}` : reason, transaction);
+
+                const pointsHolder = await ViolationService.getPointsHolder(violation, transaction);
+
+                if (pointsHolder) {
+                    pointsHolder.currentPoints = Math.max(0, pointsHolder.currentPoints - violation.points);
+                    await SuspensionPolicyService.liftForViolation(pointsHolder, violation.id, reason, transaction);
+                    await SuspensionPolicyService.reviewPointsReduction(pointsHolder, reason, transaction);
+                    await pointsHolder.save({ transaction });
+                }
+            }
+
+            review.status = RESOLUTION_STATUS[action];
+            review.resolvedBy = resolvedBy;
+            review.resolvedAt = new Date();
+            review.resolutionNotes = notes;
+
+            await review.save({ transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Duplicate review resolution failed:', error);
+            throw error;
+        }
+
+        logger.info(`Duplicate review ${review.id} resolved as ${review.status} by user ${resolvedBy}`);
+
+        return review;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,310 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Transaction } from 'sequelize';
+import { Violation, Evidence, EvidenceAccessLog, User } from '../models';
+import { EvidenceAccessAction } from '../models/EvidenceAccessLog';
+import { ProcessedEvidenceFile, EVIDENCE_DIRS } from '../middleware/upload';
+import { createError } from '../middleware/errorHandler';
+import { appConfig } from '../config/app';
+import { logger } from '../utils/logger';
+
+export interface EvidenceUploadData {
+    files: ProcessedEvidenceFile[];
+    uploadedBy: number;
+    capturedAt?: Date;
+    description?: string;
+}
+
+export interface EvidenceAccessContext {
+    userId: number;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export type EvidenceVariant = 'display' | 'thumbnail' | 'original';
+
+export interface EvidenceFileCheck {
+    evidenceId: number;
+    fileName: string;
+    display: 'intact' | 'modified' | 'missing';
+    original: 'intact' | 'modified' | 'missing';
+}
+
+export interface SignedEvidenceManifest {
+    manifest: object;
+    // The exact bytes that were signed: JSON.stringify(manifest)
+    payload: string;
+    algorithm: 'Ed25519';
+    signature: string;
+    keyFingerprint: string;
+    publicKey: string;
+}
+
+const MANIFEST_VERSION = 1;
+
+const hashFile = (filePath: string): string | null => {
+    if (!fs.existsSync(filePath)) {
+        return null;
+    }
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+};
+
+export class EvidenceService {
+    // Record uploaded files against each violation issued from the same stop
+    static async createEvidenceRecords(
+        violationIds: number[],
+        data: EvidenceUploadData,
+        transaction?: Transaction
+    ): Promise<Evidence[]> {
+        const { files, uploadedBy, capturedAt, description } = data;
+
+        if (files.length === 0 || violationIds.length === 0) {
+            return [];
+        }
+
+        const records = violationIds.flatMap(violationId => files.map(file => ({
+            violationId,
+            fileName: file.fileName,
+            originalName: file.originalName,
+            mimeType: file.mimeType,
+            size: file.size,
+            sha256: file.sha256,
+            originalMimeType: file.originalMimeType,
+            originalSize: file.originalSize,
+            originalSha256: file.originalSha256,
+            width: file.width,
+            height: file.height,
+            capturedAt: capturedAt || null,
+            uploadedBy,
+            description
+        })));
+
+        return Evidence.bulkCreate(records, { transaction });
+    }
+
+    // Attach further evidence to an existing ticket
+    static async addEvidence(violationId: number, data: EvidenceUploadData): Promise<Evidence[]> {
+        const violation = await Violation.findByPk(violationId, {
+            attributes: ['id', 'ticketNumber', 'status', 'evidencePhoto']
+        });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        if (violation.status === 'dismissed') {
+            throw createError('Evidence cannot be added to a dismissed violation', 400);
+        }
+
+        const evidence = await this.createEvidenceRecords([violationId], data);
+
+        // Keep the legacy single-photo column populated for older clients
+        if (!violation.evidencePhoto) {
+            violation.evidencePhoto = data.files[0].fileName;
+            await violation.save();
+        }
+
+        logger.info(`${evidence.length} evidence file(s) added to ${violation.ticketNumber} by user ${data.uploadedBy}`);
+
+        return evidence;
+    }
+
+    // Get the evidence recorded for a violation
+    static async getViolationEvidence(violationId: number): Promise<Evidence[]> {
+        const violation = await Violation.findByPk(violationId, { attributes: ['id'] });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        return Evidence.findAll({
+            where: { violationId },
+            include: [{
+                model: User,
+                as: 'uploader',
+                attributes: ['fullName', 'employeeId', 'rank']
+            }],
+            order: [['createdAt', 'ASC'], ['id', 'ASC']]
+        });
+    }
+
+    // Resolve a stored file for viewing or download and record the access
+    static async getEvidenceFile(
+        violationId: number,
+        evidenceId: number,
+        variant: EvidenceVariant,
+        download: boolean,
+        access: EvidenceAccessContext
+    ): Promise<{ filePath: string; mimeType: string; downloadName: string }> {
+        const evidence = await Evidence.findOne({ where: { id: evidenceId, violationId } });
+
+        if (!evidence) {
+            throw createError('Evidence not found', 404);
+        }
+
+        const filePath = path.resolve(EVIDENCE_DIRS[variant], evidence.fileName);
+
+        if (!fs.existsSync(filePath)) {
+            logger.error(`Evidence file missing from storage: ${variant}/${evidence.fileName} (evidence ${evidence.id})`);
+            throw createError('Evidence file is missing from storage', 404);
+        }
+
+        await this.logAccess(violationId, evidence.id, download ? 'download' : 'view', access, variant);
+
+        const baseName = path.parse(evidence.originalName || evidence.fileName).name;
+
+        return {
+            filePath,
+            mimeType: variant === 'original' ? evidence.originalMimeType : evidence.mimeType,
+            downloadName: variant === 'original' && evidence.originalName
+                ? evidence.originalName
+                : `${baseName}${variant === 'thumbnail' ? '_thumb' : ''}.jpg`
+        };
+    }
+
+    // Re-hash every stored file for a violation and report anything that no longer matches
+    static async verifyEvidence(violationId: number, access: EvidenceAccessContext): Promise<{
+        violationId: number;
+        intact: boolean;
+        verifiedAt: Date;
+        files: EvidenceFileCheck[];
+    }> {
+        const evidence = await this.getViolationEvidence(violationId);
+
+        const files: EvidenceFileCheck[] = evidence.map(item => {
+            const displayHash = hashFile(path.join(EVIDENCE_DIRS.display, item.fileName));
+            const originalHash = hashFile(path.join(EVIDENCE_DIRS.original, item.fileName));
+
+            return {
+                evidenceId: item.id,
+                fileName: item.fileName,
+                display: displayHash === null ? 'missing' : displayHash === item.sha256 ? 'intact' : 'modified',
+                original: originalHash === null ? 'missing' : originalHash === item.originalSha256 ? 'intact' : 'modified'
+            };
+        });
+
+        const intact = files.every(file => file.display === 'intact' && file.original === 'intact');
+
+        for (const file of files) {
+            await this.logAccess(violationId, file.evidenceId, 'verify', access);
+        }
+
+        if (!intact) {
+            const failed = files.filter(file => file.display !== 'intact' || file.original !== 'intact');
+            logger.warn(`Evidence integrity check failed for violation ${violationId}: ${failed.map(f => `${f.fileName} (display ${f.display}, original ${f.original})`).join(', ')}`);
+        } else {
+            logger.info(`Evidence integrity check passed for violation ${violationId} (${files.length} file(s)) by user ${access.userId}`);
+        }
+
+        return { violationId, intact, verifiedAt: new Date(), files };
+    }
+
+    // Build and sign a manifest of a violation's evidence that can be checked offline with the public key
+    static async getSignedManifest(violationId: number, access: EvidenceAccessContext): Promise<SignedEvidenceManifest> {
+        if (!appConfig.evidenceSigningKey) {
+            throw createError('Evidence manifest signing is not configured', 503);
+        }
+
+        const violation = await Violation.findByPk(violationId, {
+            attributes: ['id', 'ticketNumber', 'plateNumber', 'violationDate', 'officerId']
+        });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        const evidence = await Evidence.findAll({
+            where: { violationId },
+            order: [['createdAt', 'ASC'], ['id', 'ASC']]
+        });
+
+        const manifest = {
+            version: MANIFEST_VERSION,
+            generatedAt: new Date().toISOString(),
+            generatedBy: access.userId,
+            violation: {
+                id: violation.id,
+                ticketNumber: violation.ticketNumber,
+                plateNumber: violation.plateNumber,
+                violationDate: new Date(violation.violationDate).toISOString(),
+                officerId: violation.officerId
+            },
+            files: evidence.map(item => ({
+                evidenceId: item.id,
+                fileName: item.fileName,
+                originalName: item.originalName || null,
+                capturedAt: item.capturedAt ? new Date(item.capturedAt).toISOString() : null,
+                uploadedAt: new Date(item.createdAt).toISOString(),
+                uploadedBy: item.uploadedBy,
+                original: {
+                    mimeType: item.originalMimeType,
+                    size: item.originalSize,
+                    sha256: item.originalSha256
+                },
+                display: {
+                    mimeType: item.mimeType,
+                    size: item.size,
+                    sha256: item.sha256
+                }
+            }))
+        };
+
+        const payload = JSON.stringify(manifest);
+        const privateKey = crypto.createPrivateKey(appConfig.evidenceSigningKey);
+        const publicKey = crypto.createPublicKey(privateKey);
+
+        await this.logAccess(violationId, null, 'manifest', access);
+
+        logger.info(`Signed evidence manifest issued for ${violation.ticketNumber} to user ${access.userId}`);
+
+        return {
+            manifest,
+            payload,
+            algorithm: 'Ed25519',
+            signature: crypto.sign(null, Buffer.from(payload), privateKey).toString('base64'),
+            keyFingerprint: crypto.createHash('sha256')
+                .update(publicKey.export({ type: 'spki', format: 'der' }))
+                .digest('hex'),
+            publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+        };
+    }
+
+    // Get who has viewed, downloaded or verified a violation's evidence
+    static async getAccessLog(violationId: number): Promise<EvidenceAccessLog[]> {
+        const violation = await Violation.findByPk(violationId, { attributes: ['id'] });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        return EvidenceAccessLog.findAll({
+            where: { violationId },
+            include: [{
+                model: User,
+                as: 'user',
+                attributes: ['fullName', 'employeeId', 'role']
+            }],
+            order: [['createdAt', 'DESC'], ['id', 'DESC']]
+        });
+    }
+
+    // Append an entry to the evidence access log
+    private static async logAccess(
+        violationId: number,
+        evidenceId: number | null,
+        action: EvidenceAccessAction,
+        access: EvidenceAccessContext,
+        variant?: EvidenceVariant
+    ): Promise<void> {
+        await EvidenceAccessLog.create({
+            violationId,
+            evidenceId,
+            userId: access.userId,
+            action,
+            variant: variant || null,
+            ipAddress: access.ipAddress,
+            userAgent: access.userAgent?.substring(0, 500)
+        });
+    }
+}
\ No newline at end of file
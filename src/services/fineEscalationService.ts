@@ -0,0 +1,164 @@
+import { Op, Transaction } from 'sequelize';
+import { Violation, ViolationType, FineEscalationRule, sequelize } from '../models';
+import { MeasurementValues } from '../models/ViolationType';
+import { ViolationTypeService } from './violationTypeService';
+import { createError } from '../middleware/errorHandler';
+import { appConfig } from '../config/app';
+import { logger } from '../utils/logger';
+
+export interface EscalationStep {
+    offenceNumber: number;
+    multiplier: number;
+}
+
+export interface EscalatedFine {
+    baseFineAmount: number;
+    fineMultiplier: number;
+    fineAmount: number;
+    escalationReason: string | null;
+    points: number;
+    offenceNumber: number;
+}
+
+// Prior offences are counted against the driver's licence when the driver is known, otherwise against the plate's owner-held tickets
+export interface OffenceHistoryKey {
+    plateNumber: string;
+    driverId?: number | null;
+    // The ticket a probable duplicate booking repeats is not an earlier offence
+    duplicateOfId?: number;
+}
+
+const ordinal = (n: number): string => {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const v = n % 100;
+    return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+export class FineEscalationService {
+    // List escalation rules; rules without a violation type are the default schedule
+    static async getRules(): Promise<FineEscalationRule[]> {
+        return FineEscalationRule.findAll({
+            include: [{
+                model: ViolationType,
+                as: 'violationType',
+                attributes: ['code', 'title']
+            }],
+            order: [['violationTypeId', 'ASC'], ['offenceNumber', 'ASC']]
+        });
+    }
+
+    // Replace the escalation schedule for a violation type, or the default schedule when no type is given
+    static async replaceRules(violationTypeId: number | null, steps: EscalationStep[], updatedBy: number): Promise<FineEscalationRule[]> {
+        if (violationTypeId !== null) {
+            const violationType = await ViolationType.findByPk(violationTypeId);
+
+            if (!violationType) {
+                throw createError('Violation type not found', 404);
+            }
+        }
+
+        const offenceNumbers = steps.map(step => step.offenceNumber);
+
+        if (new Set(offenceNumbers).size !== offenceNumbers.length) {
+            throw createError('Each escalation step must have a distinct offence number', 400);
+        }
+
+        const transaction = await sequelize.transaction();
+
+        try {
+            await FineEscalationRule.destroy({ where: { violationTypeId }, transaction });
+
+            const rules = await FineEscalationRule.bulkCreate(
+                steps.map(step => ({ ...step, violationTypeId })),
+                { transaction }
+            );
+
+            await transaction.commit();
+
+            logger.info(`Fine escalation schedule for ${violationTypeId === null ? 'all violation types' : `violation type ${violationTypeId}`} set to ${steps.map(s => `${ordinal(s.offenceNumber)} x${s.multiplier}`).join(', ') || 'none'} by user ${updatedBy}`);
+
+            return rules;
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Fine escalation update failed:', error);
+            throw error;
+        }
+    }
+
+    // Work out the fine for a new ticket from the schedule in force and the offender's history of the same offence
+    static async calculateFine(
+        violationType: ViolationType,
+        offender: OffenceHistoryKey,
+        violationDate: Date,
+        transaction?: Transaction,
+        measurements?: MeasurementValues | null
+    ): Promise<EscalatedFine> {
+        const rate = await ViolationTypeService.getRate(violationType, violationDate, transaction, measurements);
+        const baseFineAmount = rate.fineAmount;
+        const windowMonths = appConfig.fineEscalationWindowMonths;
+
+        const windowStart = new Date(violationDate);
+        windowStart.setMonth(windowStart.getMonth() - windowMonths);
+
+        // Dismissed and overturned tickets are not prior offences, nor are bookings still awaiting duplicate review
+        const priorOffences = await Violation.count({
+            where: {
+                ...(offender.driverId ? { driverId: offender.driverId } : { plateNumber: offender.plateNumber, driverId: null }),
+                id: {
+                    [Op.notIn]: sequelize.literal(`(SELECT violation_id FROM duplicate_reviews WHERE status = 'pending')`),
+                    ...(offender.duplicateOfId ? { [Op.ne]: offender.duplicateOfId } : {})
+                },
+                violationTypeId: violationType.id,
+                status: { [Op.ne]: 'dismissed' },
+                isOverturned: false,
+                violationDate: { [Op.gte]: windowStart, [Op.lt]: violationDate }
+            },
+            transaction
+        });
+
+        const offenceNumber = priorOffences + 1;
+        const rule = offenceNumber > 1 ? await this.findApplicableRule(violationType.id, offenceNumber, transaction) : null;
+
+        if (!rule) {
+            return { baseFineAmount, fineMultiplier: 1, fineAmount: baseFineAmount, escalationReason: null, points: rate.points, offenceNumber };
+        }
+
+        const fineMultiplier = Number(rule.multiplier);
+
+        return {
+            baseFineAmount,
+            fineMultiplier,
+            fineAmount: Math.round(baseFineAmount * fineMultiplier * 100) / 100,
+            escalationReason: `${ordinal(offenceNumber)} ${violationType.code} offence within ${windowMonths} months: base fine x${fineMultiplier}`,
+            points: rate.points,
+            offenceNumber
+        };
+    }
+
+    // Highest step reached for the offence count; a type's own schedule overrides the default one
+    private static async findApplicableRule(violationTypeId: number, offenceNumber: number, transaction?: Transaction): Promise<FineEscalationRule | null> {
+        const rules = await FineEscalationRule.findAll({
+            where: {
+                isActive: true,
+                offenceNumber: { [Op.lte]: offenceNumber },
+                [Op.or]: [{ violationTypeId }, { violationTypeId: null }]
+            },
+            order: [['offenceNumber', 'DESC']],
+            transaction
+        });
+
+        const typeRules = rules.filter(rule => rule.violationTypeId === violationTypeId);
+
+        if (typeRules.length > 0) {
+            return typeRules[0];
+        }
+
+        const hasOwnSchedule = await FineEscalationRule.count({
+            where: { violationTypeId, isActive: true },
+            transaction
+        });
+
+        return hasOwnSchedule > 0 ? null : rules[0] || null;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { Op, WhereOptions } from 'sequelize';
+import { Violation, ViolationType, sequelize } from '../models';
+import { logger } from '../utils/logger';
+
+export interface HotspotQuery {
+    startDate?: Date;
+    endDate?: Date;
+    category?: string;
+    locationState?: string;
+    startHour?: number; // Local (WAT) hour of day, 0-23
+    endHour?: number;
+    cellSizeMeters?: number;
+}
+
+export interface HotspotCell {
+    type: 'Feature';
+    geometry: {
+        type: 'Polygon';
+        coordinates: number[][][];
+    };
+    properties: {
+        cellId: string;
+        violationCount: number;
+        totalFines: number;
+        zScore: number;
+        hotspot: boolean;
+        confidence: 90 | 95 | 99 | null;
+    };
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Two-tailed critical values for the Gi* z-score
+const CONFIDENCE_LEVELS: Array<{ z: number; confidence: 90 | 95 | 99 }> = [
+    { z: 2.576, confidence: 99 },
+    { z: 1.960, confidence: 95 },
+    { z: 1.645, confidence: 90 },
+];
+
+export class HotspotService {
+    // Aggregate geotagged violations into grid cells and flag statistically significant clusters (Getis-Ord Gi*)
+    static async getHotspots(query: HotspotQuery): Promise<{
+        type: 'FeatureCollection';
+        features: HotspotCell[];
+        metadata: {
+            cellSizeMeters: number;
+            totalViolations: number;
+            cellsWithViolations: number;
+            cellsInExtent: number;
+            hotspotCount: number;
+        };
+    }> {
+        const { category, cellSizeMeters = 1000 } = query;
+        const where = this.buildWhere(query);
+
+        const typeInclude = {
+            model: ViolationType,
+            as: 'violationType',
+            attributes: [],
+            where: category ? { category } : undefined,
+            required: !!category
+        };
+
+        // Longitude cells are widened by the data's mean latitude so cells stay roughly square
+        const [extent] = await Violation.findAll({
+            where,
+            include: [typeInclude],
+            attributes: [[sequelize.fn('AVG', sequelize.col('location_lat')), 'meanLat']],
+            raw: true
+        }) as any[];
+
+        const meanLat = parseFloat(extent?.meanLat);
+
+        if (isNaN(meanLat)) {
+            return {
+                type: 'FeatureCollection',
+                features: [],
+                metadata: { cellSizeMeters, totalViolations: 0, cellsWithViolations: 0, cellsInExtent: 0, hotspotCount: 0 }
+            };
+        }
+
+        const latStep = cellSizeMeters / METERS_PER_DEGREE_LAT;
+        const lngStep = cellSizeMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos(meanLat * Math.PI / 180), 0.01));
+
+        const rows = await Violation.findAll({
+            where,
+            include: [typeInclude],
+            attributes: [
+                [sequelize.literal(`FLOOR(\`Violation\`.\`location_lng\` / ${lngStep})`), 'cellX'],
+                [sequelize.literal(`FLOOR(\`Violation\`.\`location_lat\` / ${latStep})`), 'cellY'],
+                [sequelize.fn('COUNT', sequelize.col('Violation.id')), 'violationCount'],
+                [sequelize.fn('SUM', sequelize.col('Violation.fine_amount')), 'totalFines']
+            ],
+            group: ['cellX', 'cellY'],
+            raw: true
+        }) as any[];
+
+        const cells = new Map<string, { x: number; y: number; count: number; fines: number }>();
+
+        for (const row of rows) {
+            const x = parseInt(row.cellX);
+            const y = parseInt(row.cellY);
+            cells.set(`${x}:${y}`, { x, y, count: parseInt(row.violationCount), fines: parseFloat(row.totalFines) || 0 });
+        }
+
+        const scores = this.getisOrdGiStar(cells);
+
+        const features: HotspotCell[] = [...cells.values()].map(cell => {
+            const zScore = scores.get(`${cell.x}:${cell.y}`) || 0;
+            const level = CONFIDENCE_LEVELS.find(l => zScore >= l.z);
+            const west = cell.x * lngStep;
+            const south = cell.y * latStep;
+            const east = west + lngStep;
+            const north = south + latStep;
+
+            return {
+                type: 'Feature',
+                geometry: {
+                    type: 'Polygon',
+                    coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+                },
+                properties: {
+                    cellId: `${cell.x}:${cell.y}`,
+                    violationCount: cell.count,
+                    totalFines: cell.fines,
+                    zScore: Math.round(zScore * 1000) / 1000,
+                    hotspot: !!level,
+                    confidence: level ? level.confidence : null
+                }
+            };
+        });
+
+        features.sort((a, b) => b.properties.zScore - a.properties.zScore);
+
+        const xs = [...cells.values()].map(c => c.x);
+        const ys = [...cells.values()].map(c => c.y);
+        const cellsInExtent = (Math.max(...xs) - Math.min(...xs) + 1) * (Math.max(...ys) - Math.min(...ys) + 1);
+        const hotspotCount = features.filter(f => f.properties.hotspot).length;
+
+        logger.info(`Hotspot analysis: ${rows.length} cell(s) of ${cellSizeMeters}m, ${hotspotCount} hotspot(s)`);
+
+        return {
+            type: 'FeatureCollection',
+            features,
+            metadata: {
+                cellSizeMeters,
+                totalViolations: features.reduce((sum, f) => sum + f.properties.violationCount, 0),
+                cellsWithViolations: features.length,
+                cellsInExtent,
+                hotspotCount
+            }
+        };
+    }
+
+    // Filters shared by the extent and grid queries; only violations with a GPS fix can be placed on the grid
+    private static buildWhere(query: HotspotQuery): WhereOptions {
+        const { startDate, endDate, locationState, startHour, endHour } = query;
+        const conditions: any[] = [
+            { locationLat: { [Op.ne]: null } },
+            { locationLng: { [Op.ne]: null } },
+            { status: { [Op.ne]: 'dismissed' } }
+        ];
+
+        if (startDate) conditions.push({ violationDate: { [Op.gte]: startDate } });
+        if (endDate) conditions.push({ violationDate: { [Op.lte]: endDate } });
+        if (locationState) conditions.push({ locationState });
+
+        if (startHour !== undefined || endHour !== undefined) {
+            const from = startHour ?? 0;
+            const to = endHour ?? 23;
+            const hour = sequelize.fn('HOUR', sequelize.col('Violation.violation_date'));
+
+            // A window such as 22-04 wraps past midnight
+            conditions.push(from <= to
+                ? sequelize.where(hour, { [Op.between]: [from, to] })
+                : { [Op.or]: [sequelize.where(hour, { [Op.gte]: from }), sequelize.where(hour, { [Op.lte]: to })] });
+        }
+
+        return { [Op.and]: conditions };
+    }
+
+    // Gi* z-score per occupied cell using the cell and its eight neighbours; empty cells in the extent count as zero
+    private static getisOrdGiStar(cells: Map<string, { x: number; y: number; count: number }>): Map<string, number> {
+        const scores = new Map<string, number>();
+        const occupied = [...cells.values()];
+
+        if (occupied.length === 0) {
+            return scores;
+        }
+
+        const xs = occupied.map(c => c.x);
+        const ys = occupied.map(c => c.y);
+        const minX = Math.min(...xs), maxX = Math.max(...xs);
+        const minY = Math.min(...ys), maxY = Math.max(...ys);
+        const n = (maxX - minX + 1) * (maxY - minY + 1);
+
+        if (n < 2) {
+            return scores;
+        }
+
+        const sum = occupied.reduce((total, c) => total + c.count, 0);
+        const sumSquares = occupied.reduce((total, c) => total + c.count * c.count, 0);
+        const mean = sum / n;
+        const s = Math.sqrt(sumSquares / n - mean * mean);
+
+        if (s === 0) {
+            return scores;
+        }
+
+        for (const cell of occupied) {
+            let neighbourSum = 0;
+            let weights = 0;
+
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    const x = cell.x + dx;
+                    const y = cell.y + dy;
+
+                    // Neighbours outside the extent are not part of the study area
+                    if (x < minX || x > maxX || y < minY || y > maxY) continue;
+
+                    weights++;
+                    neighbourSum += cells.get(`${x}:${y}`)?.count || 0;
+                }
+            }
+
+            // Binary weights, so the sum of squared weights equals the sum of weights
+            const denominator = s * Math.sqrt((n * weights - weights * weights) / (n - 1));
+
+            scores.set(`${cell.x}:${cell.y}`, denominator > 0 ? (neighbourSum - mean * weights) / denominator : 0);
+        }
+
+        return scores;
+    }
+}
\ No newline at end of file
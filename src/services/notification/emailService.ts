@@ -474,4 +474,74 @@ DRSVMS System Administrator
 
     return { subject, html, text };
   }
+
+  static generateScheduledReportEmail(data: {
+    reportName: string;
+    period: string;
+    totalViolations: number;
+    totalAmount: number;
+    collectionRate: number;
+    fileName: string;
+  }): EmailTemplate {
+    const subject = `${data.reportName} - ${data.period}`;
+    
+    const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${data.reportName}</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+            .header { background-color: #1a237e; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; }
+            .report-summary { background-color: #e8eaf6; padding: 15px; border-radius: 5px; margin: 15px 0; }
+            .footer { background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 12px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <h1>📊 ${data.reportName}</h1>
+            <p>${data.period}</p>
+        </div>
+        
+        <div class="content">
+            <p>The scheduled violation report for ${data.period} is attached as <strong>${data.fileName}</strong>.</p>
+            
+            <div class="report-summary">
+                <h3>Summary:</h3>
+                <p><strong>Total Violations:</strong> ${data.totalViolations.toLocaleString()}</p>
+                <p><strong>Total Fines:</strong> ₦${data.totalAmount.toLocaleString()}</p>
+                <p><strong>Collection Rate:</strong> ${data.collectionRate.toFixed(1)}%</p>
+            </div>
+            
+            <p>DRSVMS<br>
+            Digital Violation Management System</p>
+        </div>
+        
+        <div class="footer">
+            <p>You are receiving this report because you are on its recipient list. Please do not reply to this email.</p>
+            <p>© 2024 Federal Road Safety Corps. All rights reserved.</p>
+        </div>
+    </body>
+    </html>
+    `;
+
+    const text = `
+${data.reportName} - ${data.period}
+
+The scheduled violation report for ${data.period} is attached as ${data.fileName}.
+
+Summary:
+- Total Violations: ${data.totalViolations.toLocaleString()}
+- Total Fines: ₦${data.totalAmount.toLocaleString()}
+- Collection Rate: ${data.collectionRate.toFixed(1)}%
+
+DRSVMS
+Digital Violation Management System
+    `;
+
+    return { subject, html, text };
+  }
 }
\ No newline at end of file
@@ -10,7 +10,7 @@ export interface NotificationData {
     email?: string;
     phone?: string;
   };
-  type: 'violation_created' | 'payment_reminder' | 'payment_confirmed' | 'license_suspended' | 'password_reset' | 'officer_notification';
+  type: 'violation_created' | 'payment_reminder' | 'payment_confirmed' | 'license_suspended' | 'password_reset' | 'officer_notification' | 'appeal_decided' | 'installment_missed' | 'points_warning' | 'license_revoked';
   data: any;
   channels: ('sms' | 'email')[];
 }
@@ -188,6 +188,54 @@ export class NotificationService {
           }
         };
 
+      case 'appeal_decided':
+        return {
+          sms: {
+            message: `FRSC: Your appeal for ticket ${data.ticketNumber} (${data.plateNumber}) has been decided: ${data.decisionLabel}. ${data.outcomeMessage}`
+          },
+          email: {
+            subject: `Appeal Decision - Ticket ${data.ticketNumber}`,
+            html: this.generateAppealDecisionHTML(data, recipient.name),
+            text: `Dear ${recipient.name}, your appeal for ticket ${data.ticketNumber} has been decided: ${data.decisionLabel}. ${data.outcomeMessage}`
+          }
+        };
+
+      case 'installment_missed':
+        return {
+          sms: {
+            message: `FRSC Reminder: Installment ${data.installmentNumber} of ${data.numberOfInstallments} (₦${data.amount}) for ticket ${data.ticketNumber} (${data.plateNumber}) was due on ${data.dueDate} and is unpaid. Outstanding balance: ₦${data.balance}. Pay now: ${process.env.APP_URL}/pay/${data.ticketNumber}`
+          },
+          email: {
+            subject: `Missed Installment - Ticket ${data.ticketNumber}`,
+            html: this.generateInstallmentMissedHTML(data, recipient.name),
+            text: `Dear ${recipient.name}, installment ${data.installmentNumber} of ${data.numberOfInstallments} (₦${data.amount}) for ticket ${data.ticketNumber} was due on ${data.dueDate} and has not been paid. Outstanding balance: ₦${data.balance}.`
+          }
+        };
+
+      case 'points_warning':
+        return {
+          sms: {
+            message: `FRSC Warning: ${data.plateNumber} now has ${data.totalPoints} violation points. Your license will be suspended at ${data.suspensionThreshold} points. Drive safely.`
+          },
+          email: {
+            subject: `Warning: Violation Points Approaching Suspension`,
+            html: this.generatePointsWarningHTML(data, recipient.name),
+            text: `Dear ${recipient.name}, ${data.plateNumber} now has ${data.totalPoints} violation points. Your license will be suspended at ${data.suspensionThreshold} points.`
+          }
+        };
+
+      case 'license_revoked':
+        return {
+          sms: {
+            message: `FRSC URGENT: Your driving license has been REVOKED following repeated suspensions. Contact nearest FRSC office immediately.`
+          },
+          email: {
+            subject: `URGENT: Driving License Revoked`,
+            html: this.generateLicenseRevocationHTML(data, recipient.name),
+            text: `URGENT: Your driving license has been revoked following repeated suspensions. Contact FRSC office for further information.`
+          }
+        };
+
       default:
         return {};
     }
@@ -275,6 +323,7 @@ export class NotificationService {
             <h2>URGENT: Your driving license has been SUSPENDED</h2>
             <p><strong>Reason:</strong> Accumulated violation points (${data.totalPoints} points)</p>
             <p><strong>Effective Date:</strong> ${data.suspensionDate}</p>
+            ${data.suspendedUntil ? `<p><strong>Suspended Until:</strong> ${data.suspendedUntil}</p>` : ''}
         </div>
         
         <p><strong>What this means:</strong></p>
@@ -339,6 +388,190 @@ export class NotificationService {
 `;
   }
 
+  // Helper method to generate points warning HTML
+  private static generatePointsWarningHTML(data: any, recipientName: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Points Warning</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+        .header { background-color: #FF9800; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; }
+        .warning { background-color: #fff3e0; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #FF9800; }
+        .footer { background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 12px; color: #666; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Violation Points Warning</h1>
+        <p>Federal Road Safety Corps (FRSC)</p>
+    </div>
+    
+    <div class="content">
+        <p>Dear ${recipientName},</p>
+        
+        <div class="warning">
+            <p><strong>Plate Number:</strong> ${data.plateNumber}</p>
+            <p><strong>Current Points:</strong> ${data.totalPoints}</p>
+            <p><strong>Suspension Threshold:</strong> ${data.suspensionThreshold} points</p>
+        </div>
+        
+        <p>Further violations may lead to the suspension of your driving license. Points expire over time, so safe driving will reduce your total.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Federal Road Safety Corps. All rights reserved.</p>
+    </div>
+</body>
+</html>
+`;
+  }
+
+  // Helper method to generate license revocation HTML
+  private static generateLicenseRevocationHTML(data: any, recipientName: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>License Revoked</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+        .header { background-color: #b71c1c; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; }
+        .alert { background-color: #ffebee; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #b71c1c; }
+        .footer { background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 12px; color: #666; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>License Revocation Notice</h1>
+        <p>Federal Road Safety Corps (FRSC)</p>
+    </div>
+    
+    <div class="content">
+        <p>Dear ${recipientName},</p>
+        
+        <div class="alert">
+            <h2>URGENT: Your driving license has been REVOKED</h2>
+            <p><strong>Plate Number:</strong> ${data.plateNumber}</p>
+            <p><strong>Reason:</strong> Repeated license suspensions</p>
+            <p><strong>Effective Date:</strong> ${data.revocationDate}</p>
+        </div>
+        
+        <p>You may not drive any motor vehicle. A new license can only be obtained through the full application process once any disqualification period has ended.</p>
+        
+        <p>Contact your nearest FRSC office for further information.</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Federal Road Safety Corps. All rights reserved.</p>
+    </div>
+</body>
+</html>
+`;
+  }
+
+  // Helper method to generate appeal decision HTML
+  private static generateAppealDecisionHTML(data: any, recipientName: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Appeal Decision</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+        .header { background-color: #2196F3; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; }
+        .decision { background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #2196F3; }
+        .footer { background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 12px; color: #666; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Appeal Decision</h1>
+        <p>Federal Road Safety Corps (FRSC)</p>
+    </div>
+    
+    <div class="content">
+        <p>Dear ${recipientName},</p>
+        
+        <p>A decision has been reached on your appeal against the traffic violation below.</p>
+        
+        <div class="decision">
+            <p><strong>Ticket Number:</strong> ${data.ticketNumber}</p>
+            <p><strong>Plate Number:</strong> ${data.plateNumber}</p>
+            <p><strong>Decision:</strong> ${data.decisionLabel}</p>
+            <p><strong>Reason:</strong> ${data.decisionReason}</p>
+        </div>
+        
+        <p>${data.outcomeMessage}</p>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Federal Road Safety Corps. All rights reserved.</p>
+    </div>
+</body>
+</html>
+`;
+  }
+
+  // Helper method to generate missed installment HTML
+  private static generateInstallmentMissedHTML(data: any, recipientName: string): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Missed Installment</title>
+    <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; }
+        .header { background-color: #FF9800; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; }
+        .installment { background-color: #fff3e0; padding: 15px; border-radius: 5px; margin: 15px 0; border-left: 4px solid #FF9800; }
+        .pay-button { display: inline-block; background-color: #4CAF50; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+        .footer { background-color: #f5f5f5; padding: 15px; text-align: center; font-size: 12px; color: #666; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Missed Installment</h1>
+        <p>Federal Road Safety Corps (FRSC)</p>
+    </div>
+    
+    <div class="content">
+        <p>Dear ${recipientName},</p>
+        
+        <p>An installment on your traffic fine payment plan is overdue.</p>
+        
+        <div class="installment">
+            <p><strong>Ticket Number:</strong> ${data.ticketNumber}</p>
+            <p><strong>Plate Number:</strong> ${data.plateNumber}</p>
+            <p><strong>Installment:</strong> ${data.installmentNumber} of ${data.numberOfInstallments}</p>
+            <p><strong>Amount:</strong> ₦${data.amount}</p>
+            <p><strong>Due Date:</strong> ${data.dueDate}</p>
+            <p><strong>Outstanding Balance:</strong> ₦${data.balance}</p>
+        </div>
+        
+        <a href="${process.env.APP_URL}/pay/${data.ticketNumber}" class="pay-button">Pay Installment</a>
+    </div>
+    
+    <div class="footer">
+        <p>© 2024 Federal Road Safety Corps. All rights reserved.</p>
+    </div>
+</body>
+</html>
+`;
+  }
+
   // Send payment confirmation notification
   static async notifyPaymentConfirmed(payments: Payment[]): Promise<void> {
     try {
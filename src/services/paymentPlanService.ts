@@ -0,0 +1,331 @@
+import { Op, Transaction } from 'sequelize';
+import { Violation, VehicleOwner, User, PaymentPlan, PaymentInstallment, sequelize } from '../models';
+import { ViolationService } from './violationService';
+import { PenaltyService } from './penaltyService';
+import { NotificationService } from './notificationService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface PaymentPlanData {
+    numberOfInstallments: number;
+    intervalDays?: number;
+    firstDueDate?: Date;
+    notes?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_INTERVAL_DAYS = 7;
+
+export class PaymentPlanService {
+    // Grant an installment plan covering the fine and any surcharges accrued so far
+    static async grantPlan(violationId: number, data: PaymentPlanData, grantedBy: number): Promise<PaymentPlan> {
+        const { numberOfInstallments, intervalDays = 30, notes } = data;
+
+        const transaction = await sequelize.transaction();
+        let plan: PaymentPlan;
+
+        try {
+            const violation = await Violation.findByPk(violationId, { transaction });
+
+            if (!violation) {
+                throw createError('Violation not found', 404);
+            }
+
+            if (violation.status !== 'pending') {
+                throw createError('Payment plans can only be granted on pending violations', 400);
+            }
+
+            const existingPlan = await PaymentPlan.findOne({
+                where: { violationId, status: 'active' },
+                transaction
+            });
+
+            if (existingPlan) {
+                throw createError('This violation already has an active payment plan', 400);
+            }
+
+            const firstDueDate = data.firstDueDate || new Date(Date.now() + intervalDays * DAY_MS);
+
+            if (firstDueDate <= new Date()) {
+                throw createError('First installment due date must be in the future', 400);
+            }
+
+            const penaltyTotals = await PenaltyService.getPenaltyTotals([violation.id], transaction);
+            const totalAmount = Number(violation.fineAmount) + (penaltyTotals[violation.id] || 0);
+
+            plan = await PaymentPlan.create({
+                violationId,
+                grantedBy,
+                totalAmount,
+                numberOfInstallments,
+                intervalDays,
+                notes
+            }, { transaction });
+
+            // Split evenly in kobo; the final installment absorbs the rounding remainder
+            const totalKobo = Math.round(totalAmount * 100);
+            const installmentKobo = Math.floor(totalKobo / numberOfInstallments);
+
+            const schedule = Array.from({ length: numberOfInstallments }, (_, index) => ({
+                paymentPlanId: plan.id,
+                violationId,
+                installmentNumber: index + 1,
+                amount: (index === numberOfInstallments - 1
+                    ? totalKobo - installmentKobo * (numberOfInstallments - 1)
+                    : installmentKobo) / 100,
+                dueDate: new Date(firstDueDate.getTime() + index * intervalDays * DAY_MS)
+            }));
+
+            await PaymentInstallment.bulkCreate(schedule, { transaction });
+
+            // The ticket is not overdue while the plan is being honoured
+            violation.dueDate = schedule[schedule.length - 1].dueDate;
+            await violation.save({ transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Payment plan grant failed:', error);
+            throw error;
+        }
+
+        logger.info(`Payment plan ${plan.id} granted on violation ${violationId}: ${numberOfInstallments} installment(s) of ₦${plan.totalAmount} by user ${grantedBy}`);
+
+        return this.getPlanByViolationId(violationId);
+    }
+
+    // Get the most recent plan for a violation with its schedule and balance
+    static async getPlanByViolationId(violationId: number): Promise<PaymentPlan & { balance?: number }> {
+        const plan = await PaymentPlan.findOne({
+            where: { violationId },
+            include: [
+                {
+                    model: PaymentInstallment,
+                    as: 'installments'
+                },
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['id', 'ticketNumber', 'plateNumber', 'fineAmount', 'status', 'dueDate']
+                },
+                {
+                    model: User,
+                    as: 'grantor',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                }
+            ],
+            order: [
+                ['createdAt', 'DESC'],
+                [{ model: PaymentInstallment, as: 'installments' }, 'installmentNumber', 'ASC']
+            ]
+        });
+
+        if (!plan) {
+            throw createError('No payment plan found for this violation', 404);
+        }
+
+        const installments: PaymentInstallment[] = (plan as any).installments || [];
+        const balance = installments
+            .filter(installment => installment.status !== 'paid')
+            .reduce((sum, installment) => sum + Number(installment.amount), 0);
+
+        return Object.assign(plan, { balance });
+    }
+
+    // Next installment to collect for each violation on an active plan
+    static async getNextInstallments(violationIds: number[], transaction?: Transaction): Promise<{ [violationId: number]: PaymentInstallment }> {
+        const next: { [violationId: number]: PaymentInstallment } = {};
+
+        if (violationIds.length === 0) {
+            return next;
+        }
+
+        const installments = await PaymentInstallment.findAll({
+            where: {
+                violationId: { [Op.in]: violationIds },
+                status: { [Op.in]: ['pending', 'missed'] }
+            },
+            include: [{
+                model: PaymentPlan,
+                as: 'paymentPlan',
+                where: { status: 'active' },
+                attributes: ['id']
+            }],
+            order: [['installmentNumber', 'ASC']],
+            transaction
+        });
+
+        for (const installment of installments) {
+            if (!next[installment.violationId]) {
+                next[installment.violationId] = installment;
+            }
+        }
+
+        return next;
+    }
+
+    // Mark an installment paid and move the violation to partially_paid or paid
+    static async recordInstallmentPayment(installmentId: number, violation: Violation, paymentReference: string, transaction: Transaction): Promise<void> {
+        const installment = await PaymentInstallment.findByPk(installmentId, { transaction });
+
+        if (!installment || !installment.isPayable()) {
+            logger.warn(`Installment ${installmentId} is not payable; payment ${paymentReference} recorded without schedule change`);
+            return;
+        }
+
+        installment.status = 'paid';
+        installment.paidDate = new Date();
+        await installment.save({ transaction });
+
+        const outstanding = await PaymentInstallment.count({
+            where: {
+                paymentPlanId: installment.paymentPlanId,
+                status: { [Op.ne]: 'paid' }
+            },
+            transaction
+        });
+
+        const reason = `Installment ${installment.installmentNumber} paid (${paymentReference})`;
+
+        if (outstanding === 0) {
+            await PaymentPlan.update(
+                { status: 'completed', completedAt: new Date() },
+                { where: { id: installment.paymentPlanId }, transaction }
+            );
+            await ViolationService.changeStatus(violation, 'paid', null, `${reason}; payment plan completed`, transaction);
+        } else if (violation.status !== 'partially_paid') {
+            await ViolationService.changeStatus(violation, 'partially_paid', null, reason, transaction);
+        }
+    }
+
+    // Put a refunded installment back on the schedule
+    static async reverseInstallmentPayment(installmentId: number, violation: Violation, reason: string, processedBy: number, transaction: Transaction): Promise<void> {
+        const installment = await PaymentInstallment.findByPk(installmentId, { transaction });
+
+        if (!installment || installment.status !== 'paid') {
+            return;
+        }
+
+        installment.status = new Date(installment.dueDate) < new Date() ? 'missed' : 'pending';
+        installment.paidDate = null;
+        installment.reminderSentAt = null;
+        await installment.save({ transaction });
+
+        await PaymentPlan.update(
+            { status: 'active', completedAt: null },
+            { where: { id: installment.paymentPlanId }, transaction }
+        );
+
+        const paidCount = await PaymentInstallment.count({
+            where: { paymentPlanId: installment.paymentPlanId, status: 'paid' },
+            transaction
+        });
+
+        const targetStatus = paidCount > 0 ? 'partially_paid' : 'pending';
+
+        if (violation.status !== targetStatus) {
+            violation.paidDate = null as any;
+            await ViolationService.changeStatus(violation, targetStatus, processedBy, reason, transaction);
+        }
+    }
+
+    // Flag overdue installments and remind owners; repeats weekly while unpaid
+    static async sendMissedInstallmentReminders(asOf: Date = new Date()): Promise<{
+        installmentsMissed: number;
+        remindersSent: number;
+    }> {
+        const reminderCutoff = new Date(asOf.getTime() - REMINDER_INTERVAL_DAYS * DAY_MS);
+
+        const installments = await PaymentInstallment.findAll({
+            where: {
+                dueDate: { [Op.lt]: asOf },
+                [Op.or]: [
+                    { status: 'pending' },
+                    {
+                        status: 'missed',
+                        [Op.or]: [
+                            { reminderSentAt: null },
+                            { reminderSentAt: { [Op.lt]: reminderCutoff } }
+                        ]
+                    }
+                ]
+            },
+            include: [
+                {
+                    model: PaymentPlan,
+                    as: 'paymentPlan',
+                    where: { status: 'active' },
+                    include: [{
+                        model: PaymentInstallment,
+                        as: 'installments',
+                        attributes: ['amount', 'status']
+                    }]
+                },
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['id', 'ticketNumber', 'plateNumber'],
+                    include: [{
+                        model: VehicleOwner,
+                        as: 'vehicleOwner',
+                        attributes: ['fullName', 'email', 'phone']
+                    }]
+                }
+            ],
+            order: [['dueDate', 'ASC']]
+        });
+
+        let installmentsMissed = 0;
+        let remindersSent = 0;
+
+        for (const installment of installments) {
+            try {
+                if (installment.status === 'pending') {
+                    installment.status = 'missed';
+                    installmentsMissed++;
+                }
+
+                const plan = (installment as any).paymentPlan;
+                const violation = (installment as any).violation;
+                const owner = violation?.vehicleOwner;
+
+                if (owner && (owner.email || owner.phone)) {
+                    const balance = (plan.installments as PaymentInstallment[])
+                        .filter(i => i.status !== 'paid')
+                        .reduce((sum, i) => sum + Number(i.amount), 0);
+
+                    await NotificationService.sendNotification({
+                        recipient: {
+                            name: owner.fullName,
+                            email: owner.email || undefined,
+                            phone: owner.phone || undefined
+                        },
+                        type: 'installment_missed',
+                        data: {
+                            ticketNumber: violation.ticketNumber,
+                            plateNumber: violation.plateNumber,
+                            installmentNumber: installment.installmentNumber,
+                            numberOfInstallments: plan.numberOfInstallments,
+                            amount: Number(installment.amount).toLocaleString(),
+                            dueDate: new Date(installment.dueDate).toDateString(),
+                            balance: balance.toLocaleString()
+                        },
+                        channels: ['sms', 'email']
+                    });
+
+                    installment.reminderSentAt = asOf;
+                    remindersSent++;
+                }
+
+                await installment.save();
+            } catch (error) {
+                logger.error(`Missed installment reminder failed for installment ${installment.id}:`, error);
+            }
+        }
+
+        logger.info(`Installment reminders completed: ${installmentsMissed} newly missed, ${remindersSent} reminder(s) sent`);
+
+        return { installmentsMissed, remindersSent };
+    }
+}
\ No newline at end of file
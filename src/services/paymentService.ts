@@ -1,9 +1,13 @@
 import { Transaction, Op } from 'sequelize';
-import { Payment, Violation, VehicleOwner, ViolationType, sequelize } from '../models';
+import { Payment, PaymentDailyStat, Violation, VehicleOwner, ViolationType, sequelize } from '../models';
 import { PaystackService } from './paymentGateway/paystackService';
 import { FlutterwaveService } from './paymentGateway/flutterwaveService';
 import { ViolationService } from './violationService';
+import { PenaltyService } from './penaltyService';
+import { PaymentPlanService } from './paymentPlanService';
+import { StatisticsRollupService } from './statisticsRollupService';
 import { createError } from '../middleware/errorHandler';
+import { RecordExport, RecordExportSource, ExportColumn } from '../utils/recordExport';
 import { logger } from '../utils/logger';
 
 export interface PaymentInitiationData {
@@ -42,6 +46,25 @@ export interface PaymentStatisticsQuery {
     status?: 'pending' | 'completed' | 'failed' | 'refunded';
 }
 
+// Columns of the payment export, in file order
+const PAYMENT_EXPORT_COLUMNS: ExportColumn<Payment>[] = [
+    { header: 'id', value: p => p.id },
+    { header: 'paymentReference', value: p => p.paymentReference },
+    { header: 'gatewayReference', value: p => p.gatewayReference },
+    { header: 'gateway', value: p => p.gatewayProvider },
+    { header: 'paymentMethod', value: p => p.paymentMethod },
+    { header: 'status', value: p => p.status },
+    { header: 'amount', value: p => Number(p.amount) },
+    { header: 'refundedAmount', value: p => Number(p.refundedAmount) },
+    { header: 'paymentDate', value: p => p.paymentDate },
+    { header: 'refundDate', value: p => p.refundDate },
+    { header: 'ticketNumber', value: p => p.violation?.ticketNumber },
+    { header: 'plateNumber', value: p => p.violation?.plateNumber },
+    { header: 'payerName', value: p => p.payerName },
+    { header: 'payerEmail', value: p => p.payerEmail },
+    { header: 'installmentId', value: p => p.installmentId },
+];
+
 export class PaymentService {
     // Initiate payment for violations
     static async initiatePayment(data: PaymentInitiationData): Promise<{
@@ -73,9 +96,16 @@ export class PaymentService {
                 throw createError('One or more violations cannot be paid or do not exist', 400);
             }
 
+            // Charge the fine plus any overdue surcharges accrued so far, or the next installment for violations on a plan
+            const penaltyTotals = await PenaltyService.getPenaltyTotals(violations.map(v => v.id), transaction);
+            const nextInstallments = await PaymentPlanService.getNextInstallments(violations.map(v => v.id), transaction);
+            const amountDue = (violation: any): number => nextInstallments[violation.id]
+                ? Number(nextInstallments[violation.id].amount)
+                : Number(violation.fineAmount) + (penaltyTotals[violation.id] || 0);
+
             // Calculate total amount
             const totalAmount = violations.reduce((sum: number, violation: any) => {
-                return sum + Number(violation.fineAmount);
+                return sum + amountDue(violation);
             }, 0);
 
             // Generate payment reference
@@ -85,7 +115,8 @@ export class PaymentService {
             const paymentPromises = violations.map((violation: any) =>
                 Payment.create({
                     violationId: violation.id,
-                    amount: violation.fineAmount,
+                    installmentId: nextInstallments[violation.id]?.id || null,
+                    amount: amountDue(violation),
                     paymentMethod,
                     paymentReference,
                     gatewayProvider: gateway,
@@ -151,6 +182,9 @@ export class PaymentService {
                     ticketNumber: v.ticketNumber,
                     plateNumber: v.plateNumber,
                     fineAmount: v.fineAmount,
+                    penaltyAmount: penaltyTotals[v.id] || 0,
+                    amountDue: amountDue(v),
+                    installmentNumber: nextInstallments[v.id]?.installmentNumber,
                     violationTypeId: v.violationTypeId
                 }))
             };
@@ -225,10 +259,21 @@ export class PaymentService {
                     await payment.save({ transaction });
 
                     // Update violation status
-                    if (payment.violation) {
-                        payment.violation.status = 'paid';
-                        payment.violation.paidDate = new Date();
-                        await payment.violation.save({ transaction });
+                    if (payment.violation && payment.installmentId) {
+                        await PaymentPlanService.recordInstallmentPayment(
+                            payment.installmentId,
+                            payment.violation,
+                            paymentReference,
+                            transaction
+                        );
+                    } else if (payment.violation) {
+                        await ViolationService.changeStatus(
+                            payment.violation,
+                            'paid',
+                            null,
+                            `Payment ${paymentReference} verified via ${gateway}`,
+                            transaction
+                        );
                     }
 
                     return payment;
@@ -336,31 +381,9 @@ export class PaymentService {
         };
     }> {
         try {
-            const {
-                violationId,
-                paymentReference,
-                gatewayReference,
-                payerEmail,
-                status,
-                gateway,
-                startDate,
-                endDate,
-                page = 1,
-                limit = 20
-            } = query;
-
-            const whereConditions: any = {};
-
-            if (violationId) whereConditions.violationId = violationId;
-            if (paymentReference) whereConditions.paymentReference = { [Op.like]: `%${paymentReference}%` };
-            if (gatewayReference) whereConditions.gatewayReference = { [Op.like]: `%${gatewayReference}%` };
-            if (payerEmail) whereConditions.payerEmail = { [Op.like]: `%${payerEmail}%` };
-            if (status) whereConditions.status = status;
-            if (gateway) whereConditions.gatewayProvider = gateway;
-
-            if (startDate && endDate) {
-                whereConditions.paymentDate = { [Op.between]: [startDate, endDate] };
-            }
+            const { page = 1, limit = 20 } = query;
+
+            const whereConditions = this.buildSearchConditions(query);
 
             const offset = (page - 1) * limit;
 
@@ -381,23 +404,29 @@ export class PaymentService {
                 order: [['paymentDate', 'DESC']]
             });
 
-            // Calculate summary
-            const allPayments = await Payment.findAll({
+            // Calculate summary in the database rather than loading every matching payment
+            const totals = await Payment.findAll({
                 where: whereConditions,
-                attributes: ['amount', 'status']
+                attributes: [
+                    'status',
+                    [sequelize.fn('SUM', sequelize.col('amount')), 'totalAmount']
+                ],
+                group: ['status'],
+                raw: true
             });
 
-            const summary = allPayments.reduce((acc: any, payment: any) => {
-                acc.totalAmount += Number(payment.amount);
-                switch (payment.status) {
+            const summary = (totals as any[]).reduce((acc: any, row: any) => {
+                const amount = parseFloat(row.totalAmount) || 0;
+                acc.totalAmount += amount;
+                switch (row.status) {
                     case 'completed':
-                        acc.completedAmount += Number(payment.amount);
+                        acc.completedAmount += amount;
                         break;
                     case 'pending':
-                        acc.pendingAmount += Number(payment.amount);
+                        acc.pendingAmount += amount;
                         break;
                     case 'failed':
-                        acc.failedAmount += Number(payment.amount);
+                        acc.failedAmount += amount;
                         break;
                 }
                 return acc;
@@ -424,6 +453,55 @@ export class PaymentService {
         }
     }
 
+    // Every payment matching the search filters, read in id order a batch at a time for reconciliation
+    static exportPayments(query: PaymentSearchQuery): RecordExportSource<Payment> {
+        const whereConditions = this.buildSearchConditions(query);
+
+        const rows = RecordExport.inBatches(
+            (lastId, limit) => Payment.findAll({
+                where: { ...whereConditions, id: { [Op.gt]: lastId } },
+                include: [{
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['ticketNumber', 'plateNumber']
+                }],
+                order: [['id', 'ASC']],
+                limit
+            })
+        );
+
+        return { columns: PAYMENT_EXPORT_COLUMNS, rows };
+    }
+
+    // WHERE clause shared by search and export
+    private static buildSearchConditions(query: PaymentSearchQuery): any {
+        const {
+            violationId,
+            paymentReference,
+            gatewayReference,
+            payerEmail,
+            status,
+            gateway,
+            startDate,
+            endDate
+        } = query;
+
+        const whereConditions: any = {};
+
+        if (violationId) whereConditions.violationId = violationId;
+        if (paymentReference) whereConditions.paymentReference = { [Op.like]: `%${paymentReference}%` };
+        if (gatewayReference) whereConditions.gatewayReference = { [Op.like]: `%${gatewayReference}%` };
+        if (payerEmail) whereConditions.payerEmail = { [Op.like]: `%${payerEmail}%` };
+        if (status) whereConditions.status = status;
+        if (gateway) whereConditions.gatewayProvider = gateway;
+
+        if (startDate && endDate) {
+            whereConditions.paymentDate = { [Op.between]: [startDate, endDate] };
+        }
+
+        return whereConditions;
+    }
+
     // Process refund
     static async processRefund(
         paymentId: number,
@@ -478,10 +556,23 @@ export class PaymentService {
             // Update violation status if fully refunded
             if (refundAmount === Number(payment.amount)) {
                 const violation = await Violation.findByPk(payment.violationId, { transaction });
-                if (violation) {
-                    violation.status = 'pending';
+                if (violation && payment.installmentId) {
+                    await PaymentPlanService.reverseInstallmentPayment(
+                        payment.installmentId,
+                        violation,
+                        `Installment payment ${payment.paymentReference} refunded: ${refundReason}`,
+                        processedBy,
+                        transaction
+                    );
+                } else if (violation) {
                     violation.paidDate = null as any;
-                    await violation.save({ transaction });
+                    await ViolationService.changeStatus(
+                        violation,
+                        'pending',
+                        processedBy,
+                        `Payment ${payment.paymentReference} refunded: ${refundReason}`,
+                        transaction
+                    );
                 }
             }
 
@@ -498,7 +589,7 @@ export class PaymentService {
         }
     }
 
-    // Get payment statistics
+    // Get payment statistics from the daily rollup
     static async getPaymentStatistics(query: PaymentStatisticsQuery = {}): Promise<{
         totalTransactions: number;
         totalAmount: number;
@@ -514,11 +605,8 @@ export class PaymentService {
         try {
             const { startDate, endDate, gateway, status } = query;
 
-            const whereConditions: any = {};
+            const whereConditions: any = StatisticsRollupService.getStatDateConditions(startDate, endDate);
 
-            if (startDate && endDate) {
-                whereConditions.paymentDate = { [Op.between]: [startDate, endDate] };
-            }
             if (gateway) {
                 whereConditions.gatewayProvider = gateway;
             }
@@ -526,44 +614,49 @@ export class PaymentService {
                 whereConditions.status = status;
             }
 
-            const payments = await Payment.findAll({
+            // The rollup holds at most one row per day, gateway and status, so a year of it folds quickly
+            const rows = await PaymentDailyStat.findAll({
                 where: whereConditions,
-                attributes: ['amount', 'status', 'gatewayProvider', 'paymentDate', 'refundedAmount']
+                attributes: ['statDate', 'gatewayProvider', 'status', 'transactions', 'amount', 'refundedAmount'],
+                raw: true
             });
 
-            const stats = payments.reduce((acc: any, payment: any) => {
-                acc.totalTransactions++;
-                acc.totalAmount += Number(payment.amount);
-                acc.refundedAmount += Number(payment.refundedAmount || 0);
+            const stats = rows.reduce((acc: any, row: any) => {
+                const transactions = Number(row.transactions);
+                const amount = Number(row.amount);
+
+                acc.totalTransactions += transactions;
+                acc.totalAmount += amount;
+                acc.refundedAmount += Number(row.refundedAmount);
 
-                switch (payment.status) {
+                switch (row.status) {
                     case 'completed':
-                        acc.successfulTransactions++;
-                        acc.successfulAmount += Number(payment.amount);
+                        acc.successfulTransactions += transactions;
+                        acc.successfulAmount += amount;
                         break;
                     case 'failed':
-                        acc.failedTransactions++;
+                        acc.failedTransactions += transactions;
                         break;
                     case 'pending':
-                        acc.pendingTransactions++;
+                        acc.pendingTransactions += transactions;
                         break;
                 }
 
                 // Gateway breakdown
-                const gateway = payment.gatewayProvider;
+                const gateway = row.gatewayProvider;
                 if (!acc.gatewayBreakdown[gateway]) {
                     acc.gatewayBreakdown[gateway] = { count: 0, amount: 0 };
                 }
-                acc.gatewayBreakdown[gateway].count++;
-                acc.gatewayBreakdown[gateway].amount += Number(payment.amount);
+                acc.gatewayBreakdown[gateway].count += transactions;
+                acc.gatewayBreakdown[gateway].amount += amount;
 
                 // Daily trends
-                const date = payment.paymentDate?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0];
+                const date = row.statDate;
                 if (!acc.dailyTrendsMap[date]) {
                     acc.dailyTrendsMap[date] = { transactions: 0, amount: 0 };
                 }
-                acc.dailyTrendsMap[date].transactions++;
-                acc.dailyTrendsMap[date].amount += Number(payment.amount);
+                acc.dailyTrendsMap[date].transactions += transactions;
+                acc.dailyTrendsMap[date].amount += amount;
 
                 return acc;
             }, {
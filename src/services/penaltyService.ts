@@ -0,0 +1,217 @@
+import { Op, Transaction } from 'sequelize';
+import { Violation, ViolationType, PenaltyRule, PenaltyAccrual, sequelize } from '../models';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface PenaltyRuleData {
+    ruleType: 'flat' | 'percentage';
+    amount: number;
+    intervalDays?: number;
+    maxAmount?: number | null;
+    isActive?: boolean;
+}
+
+const ACCRUAL_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PenaltyService {
+    // List surcharge rules with their offence codes
+    static async getPenaltyRules(): Promise<PenaltyRule[]> {
+        return PenaltyRule.findAll({
+            include: [{
+                model: ViolationType,
+                as: 'violationType',
+                attributes: ['code', 'title', 'fineAmount']
+            }],
+            order: [['violationTypeId', 'ASC']]
+        });
+    }
+
+    // Create or replace the surcharge rule for a violation type
+    static async upsertPenaltyRule(violationTypeId: number, data: PenaltyRuleData, updatedBy: number): Promise<PenaltyRule> {
+        const violationType = await ViolationType.findByPk(violationTypeId);
+
+        if (!violationType) {
+            throw createError('Violation type not found', 404);
+        }
+
+        if (data.ruleType === 'percentage' && data.amount > 100) {
+            throw createError('Percentage surcharge cannot exceed 100%', 400);
+        }
+
+        const existingRule = await PenaltyRule.findOne({ where: { violationTypeId } });
+
+        const rule = existingRule
+            ? await existingRule.update(data)
+            : await PenaltyRule.create({ ...data, violationTypeId });
+
+        logger.info(`Penalty rule for ${violationType.code} set to ${rule.ruleType} ${rule.amount} every ${rule.intervalDays} days by user ${updatedBy}`);
+
+        return rule;
+    }
+
+    // Accrue surcharges on every overdue violation; safe to re-run as periods already accrued are skipped
+    static async accrueOverduePenalties(asOf: Date = new Date()): Promise<{
+        violationsProcessed: number;
+        accrualsCreated: number;
+        totalAccrued: number;
+    }> {
+        let violationsProcessed = 0;
+        let accrualsCreated = 0;
+        let totalAccrued = 0;
+        let lastId = 0;
+
+        for (;;) {
+            const violations = await Violation.findAll({
+                where: {
+                    id: { [Op.gt]: lastId },
+                    status: 'pending',
+                    dueDate: { [Op.lt]: asOf }
+                },
+                include: [
+                    {
+                        model: ViolationType,
+                        as: 'violationType',
+                        attributes: ['id', 'code'],
+                        required: true,
+                        include: [{
+                            model: PenaltyRule,
+                            as: 'penaltyRule',
+                            where: { isActive: true },
+                            required: true
+                        }]
+                    },
+                    {
+                        model: PenaltyAccrual,
+                        as: 'penaltyAccruals',
+                        attributes: ['periodNumber', 'amount']
+                    }
+                ],
+                order: [['id', 'ASC']],
+                limit: ACCRUAL_BATCH_SIZE
+            });
+
+            if (violations.length === 0) {
+                break;
+            }
+
+            for (const violation of violations) {
+                try {
+                    const created = await this.accrueForViolation(violation, asOf);
+                    accrualsCreated += created.count;
+                    totalAccrued += created.amount;
+                } catch (error) {
+                    logger.error(`Penalty accrual failed for ${violation.ticketNumber}:`, error);
+                }
+                violationsProcessed++;
+            }
+
+            lastId = violations[violations.length - 1].id;
+        }
+
+        logger.info(`Penalty accrual completed: ${violationsProcessed} overdue violation(s), ${accrualsCreated} new line item(s), ₦${totalAccrued}`);
+
+        return { violationsProcessed, accrualsCreated, totalAccrued };
+    }
+
+    // Create the missing line items for one overdue violation
+    private static async accrueForViolation(violation: Violation, asOf: Date): Promise<{ count: number; amount: number }> {
+        const rule: PenaltyRule = (violation as any).violationType.penaltyRule;
+        const accruals: PenaltyAccrual[] = (violation as any).penaltyAccruals || [];
+
+        const overdueMs = asOf.getTime() - new Date(violation.dueDate!).getTime();
+        const periodsDue = Math.floor(overdueMs / (rule.intervalDays * DAY_MS)) + 1;
+
+        const accruedPeriods = new Set(accruals.map(a => a.periodNumber));
+        let accruedTotal = accruals.reduce((sum, a) => sum + Number(a.amount), 0);
+
+        let count = 0;
+        let amount = 0;
+
+        for (let period = 1; period <= periodsDue; period++) {
+            if (accruedPeriods.has(period)) {
+                continue;
+            }
+
+            let surcharge = rule.calculateSurcharge(violation.fineAmount);
+
+            if (rule.maxAmount !== null && rule.maxAmount !== undefined) {
+                surcharge = Math.min(surcharge, Number(rule.maxAmount) - accruedTotal);
+            }
+
+            if (surcharge <= 0) {
+                break;
+            }
+
+            await PenaltyAccrual.create({
+                violationId: violation.id,
+                penaltyRuleId: rule.id,
+                periodNumber: period,
+                amount: surcharge,
+                accruedAt: asOf
+            });
+
+            accruedTotal += surcharge;
+            amount += surcharge;
+            count++;
+        }
+
+        return { count, amount };
+    }
+
+    // Sum of accrued surcharges per violation
+    static async getPenaltyTotals(violationIds: number[], transaction?: Transaction): Promise<{ [violationId: number]: number }> {
+        const totals: { [violationId: number]: number } = {};
+
+        if (violationIds.length === 0) {
+            return totals;
+        }
+
+        const rows = await PenaltyAccrual.findAll({
+            where: { violationId: { [Op.in]: violationIds } },
+            attributes: [
+                'violationId',
+                [sequelize.fn('SUM', sequelize.col('amount')), 'totalAmount']
+            ],
+            group: ['violationId'],
+            raw: true,
+            transaction
+        });
+
+        for (const row of rows as any[]) {
+            totals[row.violationId] = parseFloat(row.totalAmount) || 0;
+        }
+
+        return totals;
+    }
+
+    // Get the penalty line items for a violation
+    static async getViolationPenalties(violationId: number): Promise<{
+        penalties: PenaltyAccrual[];
+        fineAmount: number;
+        penaltyAmount: number;
+        amountDue: number;
+    }> {
+        const violation = await Violation.findByPk(violationId, {
+            attributes: ['id', 'fineAmount']
+        });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        const penalties = await PenaltyAccrual.findAll({
+            where: { violationId },
+            order: [['periodNumber', 'ASC']]
+        });
+
+        const penaltyAmount = penalties.reduce((sum, p) => sum + Number(p.amount), 0);
+
+        return {
+            penalties,
+            fineAmount: Number(violation.fineAmount),
+            penaltyAmount,
+            amountDue: Number(violation.fineAmount) + penaltyAmount
+        };
+    }
+}
\ No newline at end of file
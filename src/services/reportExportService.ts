@@ -0,0 +1,335 @@
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import ExcelJS from 'exceljs';
+import { ViolationReport } from './violationService';
+import { appConfig } from '../config/app';
+import { RecordExport } from '../utils/recordExport';
+import { logger } from '../utils/logger';
+
+export type ReportFormat = 'pdf' | 'xlsx' | 'csv';
+
+export interface RenderedReport {
+    content: Buffer;
+    contentType: string;
+    fileName: string;
+}
+
+interface ReportSection {
+    title: string;
+    labelHeader: string;
+    rows: Array<{ label: string; violations: number; amount: number }>;
+}
+
+const CONTENT_TYPES: { [format in ReportFormat]: string } = {
+    pdf: 'application/pdf',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    csv: 'text/csv; charset=utf-8',
+};
+
+const BRAND_COLOUR = '#0B5D3B';
+const ACCENT_COLOUR = '#E8F1EC';
+const CHART_ROWS = 10;
+
+// The standard PDF fonts have no naira sign
+const formatAmount = (amount: number): string =>
+    `NGN ${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const describeFilters = (filters: any): string => {
+    const entries = Object.entries(filters || {}).filter(([, value]) => value !== undefined && value !== null && value !== '');
+    return entries.length > 0 ? entries.map(([key, value]) => `${key}: ${value}`).join(', ') : 'None';
+};
+
+// Breakdowns in the order they are printed; amounts can come back from MySQL as strings
+const toSections = (report: ViolationReport): ReportSection[] => {
+    const { byState, byOfficer, byViolationType, byStatus, byCourtOutcome } = report.breakdowns;
+    const rows = <T extends { violations: number; amount: number }>(items: T[], label: (item: T) => string) =>
+        items.map(item => ({ label: label(item), violations: Number(item.violations), amount: Number(item.amount) || 0 }));
+
+    return [
+        { title: 'By State', labelHeader: 'State', rows: rows(byState, r => r.state) },
+        { title: 'By Officer', labelHeader: 'Officer', rows: rows(byOfficer, r => r.officer) },
+        { title: 'By Violation Type', labelHeader: 'Violation type', rows: rows(byViolationType, r => r.type) },
+        { title: 'By Status', labelHeader: 'Status', rows: rows(byStatus, r => r.status) },
+        { title: 'By Court Outcome', labelHeader: 'Court outcome', rows: rows(byCourtOutcome, r => r.outcome) },
+    ];
+};
+
+export class ReportExportService {
+    // Render a generated report as a printable or spreadsheet file
+    static async render(report: ViolationReport, format: ReportFormat): Promise<RenderedReport> {
+        const content = format === 'pdf'
+            ? await this.toPdf(report)
+            : format === 'xlsx'
+                ? await this.toXlsx(report)
+                : Buffer.from(this.toCsv(report), 'utf8');
+
+        const period = report.reportMetadata.period.replace(/\s+/g, '-');
+
+        return {
+            content,
+            contentType: CONTENT_TYPES[format],
+            fileName: `violation-report-${report.reportMetadata.type}-${period}.${format}`
+        };
+    }
+
+    // Branded PDF: summary figures, then a bar chart and full table for each breakdown
+    static toPdf(report: ViolationReport): Promise<Buffer> {
+        const doc = new PDFDocument({
+            size: 'A4',
+            margin: 50,
+            bufferPages: true,
+            info: {
+                Title: `${report.reportMetadata.type} violation report ${report.reportMetadata.period}`,
+                Author: appConfig.reportOrganisationName
+            }
+        });
+
+        const chunks: Buffer[] = [];
+        const rendered = new Promise<Buffer>((resolve, reject) => {
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+        });
+
+        const left = doc.page.margins.left;
+        const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+        const ensureSpace = (height: number) => {
+            if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+                doc.addPage();
+            }
+        };
+
+        // Header band
+        doc.rect(0, 0, doc.page.width, 80).fill(BRAND_COLOUR);
+        let titleLeft = left;
+
+        if (appConfig.reportLogoPath && fs.existsSync(appConfig.reportLogoPath)) {
+            try {
+                doc.image(appConfig.reportLogoPath, left, 15, { height: 50 });
+                titleLeft = left + 65;
+            } catch (error) {
+                logger.error(`Report logo ${appConfig.reportLogoPath} could not be drawn:`, error);
+            }
+        }
+
+        doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(16)
+            .text(appConfig.reportOrganisationName, titleLeft, 22, { width: width - (titleLeft - left) });
+        doc.font('Helvetica').fontSize(11)
+            .text(`${report.reportMetadata.type.charAt(0).toUpperCase()}${report.reportMetadata.type.slice(1)} violation report`, titleLeft, 46);
+
+        doc.fillColor('#000000').fontSize(10).text(`Period: ${report.reportMetadata.period}`, left, 100);
+        doc.text(`Generated: ${new Date(report.reportMetadata.generatedAt).toISOString().replace('T', ' ').substring(0, 19)} UTC`);
+        doc.text(`Filters: ${describeFilters(report.reportMetadata.filters)}`);
+
+        // Summary cards
+        const cards = [
+            { label: 'Total violations', value: report.summary.totalViolations.toLocaleString('en-NG') },
+            { label: 'Total fines', value: formatAmount(Number(report.summary.totalAmount) || 0) },
+            { label: 'Collection rate', value: `${report.summary.collectionRate}%` },
+        ];
+        const cardGap = 10;
+        const cardWidth = (width - cardGap * (cards.length - 1)) / cards.length;
+        const cardTop = doc.y + 15;
+
+        cards.forEach((card, index) => {
+            const x = left + index * (cardWidth + cardGap);
+            doc.rect(x, cardTop, cardWidth, 55).fill(ACCENT_COLOUR);
+            doc.fillColor('#555555').font('Helvetica').fontSize(9).text(card.label, x + 10, cardTop + 10, { width: cardWidth - 20 });
+            doc.fillColor(BRAND_COLOUR).font('Helvetica-Bold').fontSize(14).text(card.value, x + 10, cardTop + 26, { width: cardWidth - 20 });
+        });
+
+        doc.x = left;
+        doc.y = cardTop + 75;
+
+        for (const section of toSections(report)) {
+            ensureSpace(80);
+            doc.fillColor(BRAND_COLOUR).font('Helvetica-Bold').fontSize(13).text(section.title, left, doc.y);
+            doc.moveDown(0.5);
+
+            if (section.rows.length === 0) {
+                doc.fillColor('#555555').font('Helvetica').fontSize(10).text('No violations in this period.', left);
+                doc.moveDown(1.5);
+                continue;
+            }
+
+            this.drawBarChart(doc, section.rows.slice(0, CHART_ROWS), left, width, ensureSpace);
+            this.drawTable(doc, section, left, width, ensureSpace);
+            doc.moveDown(1.5);
+        }
+
+        // Page numbers go in the bottom margin, which would otherwise push the text onto a new page
+        const range = doc.bufferedPageRange();
+
+        for (let i = range.start; i < range.start + range.count; i++) {
+            doc.switchToPage(i);
+            const bottom = doc.page.margins.bottom;
+            doc.page.margins.bottom = 0;
+            doc.fillColor('#888888').font('Helvetica').fontSize(8)
+                .text(`${appConfig.reportOrganisationName} - page ${i + 1} of ${range.count}`, left, doc.page.height - 35, { width, align: 'center', lineBreak: false });
+            doc.page.margins.bottom = bottom;
+        }
+
+        doc.end();
+
+        return rendered;
+    }
+
+    // Workbook with the summary on the first sheet and each breakdown on its own sheet
+    static async toXlsx(report: ViolationReport): Promise<Buffer> {
+        const workbook = new ExcelJS.Workbook();
+        workbook.creator = appConfig.reportOrganisationName;
+        workbook.created = new Date(report.reportMetadata.generatedAt);
+
+        const summary = workbook.addWorksheet('Summary');
+        summary.columns = [
+            { header: 'Item', key: 'item', width: 28 },
+            { header: 'Value', key: 'value', width: 48 },
+        ];
+        summary.addRows([
+            { item: 'Organisation', value: appConfig.reportOrganisationName },
+            { item: 'Report type', value: report.reportMetadata.type },
+            { item: 'Period', value: report.reportMetadata.period },
+            { item: 'Generated', value: new Date(report.reportMetadata.generatedAt) },
+            { item: 'Filters', value: describeFilters(report.reportMetadata.filters) },
+            { item: 'Total violations', value: report.summary.totalViolations },
+            { item: 'Total fines (NGN)', value: Number(report.summary.totalAmount) || 0 },
+            { item: 'Collection rate (%)', value: report.summary.collectionRate },
+        ]);
+        this.styleHeader(summary);
+
+        for (const section of toSections(report)) {
+            const sheet = workbook.addWorksheet(section.title);
+            sheet.columns = [
+                { header: section.labelHeader, key: 'label', width: 40 },
+                { header: 'Violations', key: 'violations', width: 14 },
+                { header: 'Amount (NGN)', key: 'amount', width: 20, style: { numFmt: '#,##0.00' } },
+            ];
+            sheet.addRows(section.rows);
+
+            const totalRow = sheet.addRow({
+                label: 'Total',
+                violations: { formula: `SUM(B2:B${section.rows.length + 1})` },
+                amount: { formula: `SUM(C2:C${section.rows.length + 1})` }
+            });
+            totalRow.font = { bold: true };
+
+            sheet.views = [{ state: 'frozen', ySplit: 1 }];
+            sheet.autoFilter = 'A1:C1';
+            this.styleHeader(sheet);
+        }
+
+        return Buffer.from(await workbook.xlsx.writeBuffer());
+    }
+
+    // One row per breakdown entry; the summary comes first as its own section
+    static toCsv(report: ViolationReport): string {
+        const lines = [['section', 'label', 'violations', 'amount']];
+
+        lines.push([
+            'Summary',
+            `All violations (collection rate ${report.summary.collectionRate}%)`,
+            String(report.summary.totalViolations),
+            String(Number(report.summary.totalAmount) || 0)
+        ]);
+
+        for (const section of toSections(report)) {
+            for (const row of section.rows) {
+                lines.push([section.title, row.label, String(row.violations), String(row.amount)]);
+            }
+        }
+
+        return lines.map(line => line.map(cell => RecordExport.csvCell(cell)).join(',')).join('\r\n') + '\r\n';
+    }
+
+    // Horizontal bars scaled to the largest count
+    private static drawBarChart(
+        doc: PDFKit.PDFDocument,
+        rows: ReportSection['rows'],
+        left: number,
+        width: number,
+        ensureSpace: (height: number) => void
+    ): void {
+        const labelWidth = 150;
+        const valueWidth = 50;
+        const barHeight = 12;
+        const rowGap = 5;
+        const barArea = width - labelWidth - valueWidth - 10;
+        const max = Math.max(...rows.map(row => row.violations), 1);
+
+        ensureSpace(rows.length * (barHeight + rowGap) + 10);
+
+        let y = doc.y;
+
+        for (const row of rows) {
+            const barWidth = Math.max((row.violations / max) * barArea, 1);
+
+            doc.fillColor('#333333').font('Helvetica').fontSize(8)
+                .text(row.label, left, y + 2, { width: labelWidth - 5, ellipsis: true, lineBreak: false });
+            doc.rect(left + labelWidth, y, barWidth, barHeight).fill(BRAND_COLOUR);
+            doc.fillColor('#333333')
+                .text(String(row.violations), left + labelWidth + barWidth + 5, y + 2, { width: valueWidth, lineBreak: false });
+
+            y += barHeight + rowGap;
+        }
+
+        doc.x = left;
+        doc.y = y + 8;
+    }
+
+    // Table of every entry, repeating the header row on each new page
+    private static drawTable(
+        doc: PDFKit.PDFDocument,
+        section: ReportSection,
+        left: number,
+        width: number,
+        ensureSpace: (height: number) => void
+    ): void {
+        const rowHeight = 16;
+        const countWidth = 80;
+        const amountWidth = 120;
+        const labelWidth = width - countWidth - amountWidth;
+
+        const drawRow = (cells: string[], y: number, options: { header?: boolean; shaded?: boolean }) => {
+            if (options.header || options.shaded) {
+                doc.rect(left, y, width, rowHeight).fill(options.header ? BRAND_COLOUR : ACCENT_COLOUR);
+            }
+
+            doc.fillColor(options.header ? '#FFFFFF' : '#000000')
+                .font(options.header ? 'Helvetica-Bold' : 'Helvetica')
+                .fontSize(9);
+            doc.text(cells[0], left + 5, y + 4, { width: labelWidth - 10, ellipsis: true, lineBreak: false });
+            doc.text(cells[1], left + labelWidth, y + 4, { width: countWidth - 5, align: 'right', lineBreak: false });
+            doc.text(cells[2], left + labelWidth + countWidth, y + 4, { width: amountWidth - 5, align: 'right', lineBreak: false });
+        };
+
+        const header = [section.labelHeader, 'Violations', 'Amount'];
+
+        ensureSpace(rowHeight * 2);
+        let y = doc.y;
+        drawRow(header, y, { header: true });
+        y += rowHeight;
+
+        section.rows.forEach((row, index) => {
+            if (y + rowHeight > doc.page.height - doc.page.margins.bottom) {
+                doc.addPage();
+                y = doc.page.margins.top;
+                drawRow(header, y, { header: true });
+                y += rowHeight;
+            }
+
+            drawRow([row.label, row.violations.toLocaleString('en-NG'), formatAmount(row.amount)], y, { shaded: index % 2 === 1 });
+            y += rowHeight;
+        });
+
+        doc.x = left;
+        doc.y = y;
+    }
+
+    // Bold white-on-brand header row
+    private static styleHeader(sheet: ExcelJS.Worksheet): void {
+        const header = sheet.getRow(1);
+        header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+        header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0B5D3B' } };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,465 @@
+import { Op } from 'sequelize';
+import { ReportSchedule, ReportRun, User, sequelize } from '../models';
+import { ReportType, ReportScheduleFormat, ReportFrequency, ReportScheduleFilters } from '../models/ReportSchedule';
+import { ReportRunTrigger, ReportRunStatus } from '../models/ReportRun';
+import { ViolationService } from './violationService';
+import { ReportExportService } from './reportExportService';
+import { EmailService } from './notification/emailService';
+import { appConfig } from '../config/app';
+import { DB_TIMEZONE_OFFSET_MS } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface ReportScheduleData {
+    name: string;
+    reportType: ReportType;
+    filters?: ReportScheduleFilters | null;
+    format: ReportScheduleFormat;
+    recipients: string[];
+    frequency: ReportFrequency;
+    timeOfDay: string;
+    dayOfWeek?: number | null;
+    dayOfMonth?: number | null;
+    isActive?: boolean;
+}
+
+export interface ReportScheduleQuery {
+    isActive?: boolean;
+    page?: number;
+    limit?: number;
+}
+
+export interface ReportRunQuery {
+    status?: ReportRunStatus;
+    page?: number;
+    limit?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Fields that move the next run when they change
+const TIMING_FIELDS: Array<keyof ReportScheduleData> = ['frequency', 'timeOfDay', 'dayOfWeek', 'dayOfMonth', 'isActive'];
+
+export class ReportScheduleService {
+    // The complete days (in the database time zone) a report covers when run at the given time: the day, seven days or calendar month before it
+    static getReportPeriod(reportType: ReportType, runAt: Date): { start: Date; end: Date } {
+        const local = new Date(runAt.getTime() + DB_TIMEZONE_OFFSET_MS);
+        const end = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()));
+        const start = new Date(end);
+
+        if (reportType === 'monthly') {
+            end.setUTCDate(1);
+            start.setUTCDate(1);
+            start.setUTCMonth(start.getUTCMonth() - 1);
+        } else {
+            start.setUTCDate(start.getUTCDate() - (reportType === 'weekly' ? 7 : 1));
+        }
+
+        // Midnights on the wall clock, shifted back to the real moments
+        return {
+            start: new Date(start.getTime() - DB_TIMEZONE_OFFSET_MS),
+            end: new Date(end.getTime() - DB_TIMEZONE_OFFSET_MS)
+        };
+    }
+
+    // Save a report definition and schedule its first run
+    static async createSchedule(data: ReportScheduleData, createdBy: number): Promise<ReportSchedule> {
+        const schedule = ReportSchedule.build({
+            ...this.normalizeScheduleData(data),
+            nextRunAt: new Date(),
+            createdBy
+        });
+
+        schedule.nextRunAt = schedule.getNextRunAfter(new Date());
+        await schedule.save();
+
+        logger.info(`Report schedule "${schedule.name}" created by user ${createdBy}; first run at ${schedule.nextRunAt.toISOString()}`);
+
+        return schedule;
+    }
+
+    // List report schedules
+    static async getSchedules(query: ReportScheduleQuery): Promise<{
+        schedules: ReportSchedule[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { isActive, page = 1, limit = 20 } = query;
+
+        const whereConditions: any = {};
+
+        if (isActive !== undefined) whereConditions.isActive = isActive;
+
+        const { count, rows } = await ReportSchedule.findAndCountAll({
+            where: whereConditions,
+            include: [{
+                model: User,
+                as: 'creator',
+                attributes: ['id', 'fullName', 'employeeId']
+            }],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['nextRunAt', 'ASC']]
+        });
+
+        return {
+            schedules: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Get a report schedule with its latest runs
+    static async getScheduleById(id: number): Promise<ReportSchedule> {
+        const schedule = await ReportSchedule.findByPk(id, {
+            include: [
+                {
+                    model: User,
+                    as: 'creator',
+                    attributes: ['id', 'fullName', 'employeeId']
+                },
+                {
+                    model: ReportRun,
+                    as: 'runs',
+                    separate: true,
+                    limit: 10,
+                    order: [['startedAt', 'DESC']]
+                }
+            ]
+        });
+
+        if (!schedule) {
+            throw createError('Report schedule not found', 404);
+        }
+
+        return schedule;
+    }
+
+    // Update a report definition; changing its timing or reactivating it reschedules the next run
+    static async updateSchedule(id: number, data: Partial<ReportScheduleData>, updatedBy: number): Promise<ReportSchedule> {
+        const schedule = await ReportSchedule.findByPk(id);
+
+        if (!schedule) {
+            throw createError('Report schedule not found', 404);
+        }
+
+        const merged = this.normalizeScheduleData({
+            name: schedule.name,
+            reportType: schedule.reportType,
+            filters: schedule.filters,
+            format: schedule.format,
+            recipients: schedule.recipients,
+            frequency: schedule.frequency,
+            timeOfDay: schedule.timeOfDay,
+            dayOfWeek: schedule.dayOfWeek,
+            dayOfMonth: schedule.dayOfMonth,
+            isActive: schedule.isActive,
+            ...data
+        });
+
+        const reschedule = TIMING_FIELDS.some(field => merged[field] !== (schedule as any)[field]);
+
+        schedule.set({ ...merged, updatedBy });
+
+        if (reschedule) {
+            schedule.nextRunAt = schedule.getNextRunAfter(new Date());
+        }
+
+        await schedule.save();
+
+        logger.info(`Report schedule "${schedule.name}" updated by user ${updatedBy}${reschedule ? `; next run at ${schedule.nextRunAt.toISOString()}` : ''}`);
+
+        return schedule;
+    }
+
+    // Delete a report schedule and its run history
+    static async deleteSchedule(id: number, deletedBy: number): Promise<void> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const schedule = await ReportSchedule.findByPk(id, { transaction });
+
+            if (!schedule) {
+                throw createError('Report schedule not found', 404);
+            }
+
+            await ReportRun.destroy({ where: { scheduleId: id }, transaction });
+            await schedule.destroy({ transaction });
+
+            await transaction.commit();
+
+            logger.info(`Report schedule "${schedule.name}" deleted by user ${deletedBy}`);
+
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    // Get a schedule's run history, newest first
+    static async getScheduleRuns(scheduleId: number, query: ReportRunQuery): Promise<{
+        runs: ReportRun[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const schedule = await ReportSchedule.findByPk(scheduleId, { attributes: ['id'] });
+
+        if (!schedule) {
+            throw createError('Report schedule not found', 404);
+        }
+
+        const { status, page = 1, limit = 20 } = query;
+
+        const whereConditions: any = { scheduleId };
+
+        if (status) whereConditions.status = status;
+
+        const { count, rows } = await ReportRun.findAndCountAll({
+            where: whereConditions,
+            include: [{
+                model: User,
+                as: 'triggeredByUser',
+                attributes: ['id', 'fullName', 'employeeId']
+            }],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['startedAt', 'DESC']]
+        });
+
+        return {
+            runs: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Generate and send a schedule's report now, outside its timetable; the next scheduled run is unaffected
+    static async runNow(id: number, triggeredBy: number): Promise<ReportRun> {
+        const schedule = await ReportSchedule.findByPk(id);
+
+        if (!schedule) {
+            throw createError('Report schedule not found', 404);
+        }
+
+        logger.info(`Report schedule "${schedule.name}" run manually by user ${triggeredBy}`);
+
+        return this.startRun(schedule, 'manual', new Date(), triggeredBy);
+    }
+
+    // Run every schedule that has come due, then retry failed runs whose back-off has passed
+    static async runDueSchedules(now: Date = new Date()): Promise<{
+        runsStarted: number;
+        retriesAttempted: number;
+        succeeded: number;
+        failed: number;
+    }> {
+        let runsStarted = 0;
+        let retriesAttempted = 0;
+        let succeeded = 0;
+        let failed = 0;
+
+        const tally = (run: ReportRun) => {
+            if (run.status === 'succeeded') succeeded++;
+            if (run.status === 'failed') failed++;
+        };
+
+        const schedules = await ReportSchedule.findAll({
+            where: {
+                isActive: true,
+                nextRunAt: { [Op.lte]: now }
+            },
+            order: [['nextRunAt', 'ASC']]
+        });
+
+        for (const schedule of schedules) {
+            const scheduledFor = schedule.nextRunAt;
+
+            // Claim the slot before running so another server instance can't send the same report
+            const [claimed] = await ReportSchedule.update(
+                { nextRunAt: schedule.getNextRunAfter(now), lastRunAt: now },
+                { where: { id: schedule.id, nextRunAt: scheduledFor } }
+            );
+
+            if (claimed === 0) {
+                continue;
+            }
+
+            try {
+                // The period follows the slot, so a run delayed past midnight still covers the intended days
+                tally(await this.startRun(schedule, 'scheduled', scheduledFor));
+                runsStarted++;
+            } catch (error) {
+                logger.error(`Report schedule "${schedule.name}" could not be started:`, error);
+            }
+        }
+
+        const retries = await ReportRun.findAll({
+            where: {
+                status: 'retrying',
+                nextRetryAt: { [Op.lte]: now }
+            },
+            include: [{
+                model: ReportSchedule,
+                as: 'schedule'
+            }],
+            order: [['nextRetryAt', 'ASC']]
+        });
+
+        for (const run of retries) {
+            const [claimed] = await ReportRun.update(
+                { status: 'running' },
+                { where: { id: run.id, status: 'retrying' } }
+            );
+
+            if (claimed === 0) {
+                continue;
+            }
+
+            const schedule: ReportSchedule = (run as any).schedule;
+
+            try {
+                // A schedule switched off after the failure stops its retries too
+                if (!schedule.isActive) {
+                    run.status = 'failed';
+                    run.error = 'Report schedule was deactivated before the retry';
+                    run.nextRetryAt = null;
+                    run.completedAt = new Date();
+                    await run.save();
+                    failed++;
+                    continue;
+                }
+
+                run.status = 'running';
+                await this.attemptRun(run, schedule);
+                tally(run);
+                retriesAttempted++;
+            } catch (error) {
+                logger.error(`Retry of report run ${run.id} could not be recorded:`, error);
+            }
+        }
+
+        logger.info(`Report schedules processed: ${runsStarted} run(s) started, ${retriesAttempted} retried, ${succeeded} sent, ${failed} failed`);
+
+        return { runsStarted, retriesAttempted, succeeded, failed };
+    }
+
+    // Record a run for the period before runAt and make the first attempt
+    private static async startRun(
+        schedule: ReportSchedule,
+        trigger: ReportRunTrigger,
+        runAt: Date,
+        triggeredBy?: number
+    ): Promise<ReportRun> {
+        const { start, end } = this.getReportPeriod(schedule.reportType, runAt);
+
+        const run = await ReportRun.create({
+            scheduleId: schedule.id,
+            trigger,
+            periodStart: start,
+            periodEnd: end,
+            recipients: schedule.recipients,
+            triggeredBy,
+            startedAt: new Date()
+        });
+
+        await this.attemptRun(run, schedule);
+
+        return run;
+    }
+
+    // Generate, render and email the report once; a failure is retried with back-off until attempts run out
+    private static async attemptRun(run: ReportRun, schedule: ReportSchedule): Promise<void> {
+        run.attempts += 1;
+
+        try {
+            // Periods end at midnight; the report's date range is inclusive
+            const report = await ViolationService.generateReport(
+                schedule.reportType,
+                new Date(run.periodStart),
+                new Date(new Date(run.periodEnd).getTime() - 1),
+                schedule.filters || undefined
+            );
+
+            const file = await ReportExportService.render(report, schedule.format);
+
+            const email = EmailService.generateScheduledReportEmail({
+                reportName: schedule.name,
+                period: report.reportMetadata.period,
+                totalViolations: report.summary.totalViolations,
+                totalAmount: Number(report.summary.totalAmount) || 0,
+                collectionRate: report.summary.collectionRate,
+                fileName: file.fileName
+            });
+
+            const result = await EmailService.sendEmail({
+                to: run.recipients,
+                ...email,
+                attachments: [{
+                    filename: file.fileName,
+                    content: file.content,
+                    contentType: file.contentType
+                }]
+            });
+
+            if (!result.success) {
+                throw createError(result.error || 'Email sending failed', 502);
+            }
+
+            run.status = 'succeeded';
+            run.fileName = file.fileName;
+            run.error = null;
+            run.nextRetryAt = null;
+            run.completedAt = new Date();
+
+            logger.info(`Report "${schedule.name}" for ${report.reportMetadata.period} sent to ${run.recipients.length} recipient(s)`);
+
+        } catch (error: any) {
+            run.error = error.message || 'Report run failed';
+
+            if (run.attempts < appConfig.reportRunMaxAttempts) {
+                const delayMs = appConfig.reportRetryDelayMinutes * MINUTE_MS * 2 ** (run.attempts - 1);
+
+                run.status = 'retrying';
+                run.nextRetryAt = new Date(Date.now() + delayMs);
+
+                logger.warn(`Report run ${run.id} ("${schedule.name}") failed on attempt ${run.attempts}: ${run.error}; retrying at ${run.nextRetryAt.toISOString()}`);
+            } else {
+                run.status = 'failed';
+                run.nextRetryAt = null;
+                run.completedAt = new Date();
+
+                logger.error(`Report run ${run.id} ("${schedule.name}") failed after ${run.attempts} attempt(s):`, error);
+            }
+        }
+
+        await run.save();
+    }
+
+    // Keep only the definition fields, drop the day fields the frequency doesn't use and de-duplicate recipients
+    private static normalizeScheduleData(data: ReportScheduleData): ReportScheduleData {
+        if (data.frequency === 'weekly' && (data.dayOfWeek === undefined || data.dayOfWeek === null)) {
+            throw createError('Weekly schedules need a day of the week', 400);
+        }
+
+        if (data.frequency === 'monthly' && (data.dayOfMonth === undefined || data.dayOfMonth === null)) {
+            throw createError('Monthly schedules need a day of the month', 400);
+        }
+
+        return {
+            name: data.name,
+            reportType: data.reportType,
+            format: data.format,
+            frequency: data.frequency,
+            timeOfDay: data.timeOfDay,
+            filters: data.filters && Object.keys(data.filters).length > 0 ? data.filters : null,
+            recipients: [...new Set(data.recipients.map(email => email.trim().toLowerCase()))],
+            dayOfWeek: data.frequency === 'weekly' ? data.dayOfWeek : null,
+            dayOfMonth: data.frequency === 'monthly' ? data.dayOfMonth : null,
+            isActive: data.isActive ?? true
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { Op, WhereOptions } from 'sequelize';
+import { Violation, Payment, ViolationDailyStat, PaymentDailyStat, StatRollupRefresh, sequelize } from '../models';
+import { StatRollupSource } from '../models/StatRollupRefresh';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export interface RollupTotals {
+    key: any;
+    violations: number;
+    amount: number;
+}
+
+const REFRESH_BATCH_SIZE = 100;
+const MAX_REBUILD_DAYS = 3660;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class StatisticsRollupService {
+    // Rollup rows covering the calendar days from startDate to endDate inclusive; all days when no range is given
+    static getStatDateConditions(startDate?: Date, endDate?: Date): WhereOptions {
+        if (!startDate || !endDate) {
+            return {};
+        }
+
+        return {
+            statDate: {
+                [Op.between]: [StatRollupRefresh.getStatDate(startDate), StatRollupRefresh.getStatDate(endDate)]
+            }
+        };
+    }
+
+    // Ticket counts and fine totals from the daily rollup per value of one column (or per YYYY-MM month), largest first unless ordered by key
+    static async sumViolations(
+        whereConditions: WhereOptions,
+        groupBy: 'status' | 'violationTypeId' | 'officerId' | 'locationState' | 'statDate' | 'month',
+        options: { limit?: number; orderByKey?: 'ASC' | 'DESC' } = {}
+    ): Promise<RollupTotals[]> {
+        const groupAttribute: string | [ReturnType<typeof sequelize.fn>, string] = groupBy === 'month'
+            ? [sequelize.fn('DATE_FORMAT', sequelize.col('stat_date'), '%Y-%m'), 'month']
+            : groupBy;
+
+        const rows = await ViolationDailyStat.findAll({
+            where: whereConditions,
+            attributes: [
+                groupAttribute,
+                [sequelize.fn('SUM', sequelize.col('violations')), 'violationCount'],
+                [sequelize.fn('SUM', sequelize.col('fine_amount')), 'totalAmount']
+            ],
+            group: [groupBy],
+            order: options.orderByKey
+                ? [[sequelize.literal(groupBy), options.orderByKey]]
+                : [[sequelize.literal('violationCount'), 'DESC']],
+            limit: options.limit,
+            raw: true
+        });
+
+        return (rows as any[]).map(row => ({
+            key: row[groupBy],
+            violations: parseInt(row.violationCount) || 0,
+            amount: Number(row.totalAmount) || 0
+        }));
+    }
+
+    // Re-aggregate the days queued before this run started, oldest first
+    static async refreshStaleDays(): Promise<{ violationDays: number; paymentDays: number; failedDays: number }> {
+        const queuedBefore = new Date();
+        let violationDays = 0;
+        let paymentDays = 0;
+        let failedDays = 0;
+
+        for (;;) {
+            const batch = await StatRollupRefresh.findAll({
+                where: { createdAt: { [Op.lte]: queuedBefore } },
+                order: [['createdAt', 'ASC']],
+                limit: REFRESH_BATCH_SIZE
+            });
+
+            if (batch.length === 0) {
+                break;
+            }
+
+            for (const entry of batch) {
+                const { source, statDate } = entry;
+
+                // Dequeue before rebuilding, so a change committed mid-rebuild queues the day again instead of being lost
+                await entry.destroy();
+
+                try {
+                    if (source === 'violations') {
+                        await this.refreshViolationDay(statDate);
+                        violationDays++;
+                    } else {
+                        await this.refreshPaymentDay(statDate);
+                        paymentDays++;
+                    }
+                } catch (error) {
+                    failedDays++;
+                    logger.error(`Statistics rollup refresh failed for ${source} on ${statDate}:`, error);
+
+                    // Put it back with a fresh timestamp so the next run retries it after the rest of the queue
+                    await StatRollupRefresh.bulkCreate([{ source, statDate }], { ignoreDuplicates: true });
+                }
+            }
+
+            if (failedDays > 0 || batch.length < REFRESH_BATCH_SIZE) {
+                break;
+            }
+        }
+
+        if (violationDays + paymentDays + failedDays > 0) {
+            logger.info(`Statistics rollup refreshed: ${violationDays} violation day(s), ${paymentDays} payment day(s), ${failedDays} failed`);
+        }
+
+        return { violationDays, paymentDays, failedDays };
+    }
+
+    // Queue every day in the range for both rollups; used to backfill and after bulk data fixes
+    static async queueRebuild(startDate: Date, endDate: Date, requestedBy: number): Promise<{ daysQueued: number }> {
+        const first = new Date(`${StatRollupRefresh.getStatDate(startDate)}T00:00:00Z`);
+        const last = new Date(`${StatRollupRefresh.getStatDate(endDate)}T00:00:00Z`);
+        const days = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1;
+
+        if (days < 1) {
+            throw createError('End date must be on or after start date', 400);
+        }
+
+        if (days > MAX_REBUILD_DAYS) {
+            throw createError(`A rebuild can cover at most ${MAX_REBUILD_DAYS} days`, 400);
+        }
+
+        await this.queueDays(first, days);
+
+        logger.info(`Statistics rollup rebuild of ${days} day(s) from ${StatRollupRefresh.getStatDate(startDate)} queued by user ${requestedBy}`);
+
+        return { daysQueued: days };
+    }
+
+    // Queue the whole history when both rollups are empty, as on the first start after upgrading, so dashboards don't read zeros
+    static async backfillIfEmpty(): Promise<{ daysQueued: number }> {
+        const [violationRows, paymentRows, queuedDays] = await Promise.all([
+            ViolationDailyStat.count(),
+            PaymentDailyStat.count(),
+            StatRollupRefresh.count()
+        ]);
+
+        if (violationRows + paymentRows + queuedDays > 0) {
+            return { daysQueued: 0 };
+        }
+
+        const [firstViolation, firstPayment] = await Promise.all([
+            Violation.min<Date, Violation>('violationDate'),
+            Payment.min<Date, Payment>('paymentDate')
+        ]);
+
+        const earliest = [firstViolation, firstPayment]
+            .filter((date): date is Date => !!date)
+            .map(date => new Date(date).getTime());
+
+        if (earliest.length === 0) {
+            return { daysQueued: 0 };
+        }
+
+        const first = new Date(`${StatRollupRefresh.getStatDate(new Date(Math.min(...earliest)))}T00:00:00Z`);
+        const last = new Date(`${StatRollupRefresh.getStatDate(new Date())}T00:00:00Z`);
+        const days = Math.round((last.getTime() - first.getTime()) / DAY_MS) + 1;
+
+        await this.queueDays(first, days);
+
+        logger.info(`Statistics rollups are empty; backfill of ${days} day(s) from ${first.toISOString().split('T')[0]} queued`);
+
+        return { daysQueued: days };
+    }
+
+    // Queue both rollups for a run of consecutive days starting at a UTC midnight standing for the calendar day
+    private static async queueDays(first: Date, days: number): Promise<void> {
+        for (let offset = 0; offset < days; offset += REFRESH_BATCH_SIZE) {
+            const entries: Array<{ source: StatRollupSource; statDate: string }> = [];
+
+            for (let day = offset; day < Math.min(days, offset + REFRESH_BATCH_SIZE); day++) {
+                const statDate = new Date(first.getTime() + day * DAY_MS).toISOString().split('T')[0];
+                entries.push({ source: 'violations', statDate }, { source: 'payments', statDate });
+            }
+
+            await StatRollupRefresh.bulkCreate(entries, { ignoreDuplicates: true });
+        }
+    }
+
+    // Replace one day's violation rollup rows with fresh totals from the violations table
+    private static async refreshViolationDay(statDate: string): Promise<void> {
+        const { start, end } = StatRollupRefresh.getDayBounds(statDate);
+        const transaction = await sequelize.transaction();
+
+        try {
+            const rows = await Violation.findAll({
+                where: { violationDate: { [Op.gte]: start, [Op.lt]: end } },
+                attributes: [
+                    'locationState',
+                    'officerId',
+                    'violationTypeId',
+                    'status',
+                    [sequelize.fn('COUNT', sequelize.col('id')), 'violationCount'],
+                    [sequelize.fn('SUM', sequelize.col('fine_amount')), 'totalAmount']
+                ],
+                group: ['locationState', 'officerId', 'violationTypeId', 'status'],
+                raw: true,
+                transaction
+            });
+
+            await ViolationDailyStat.destroy({ where: { statDate }, transaction });
+
+            await ViolationDailyStat.bulkCreate((rows as any[]).map(row => ({
+                statDate,
+                locationState: row.locationState,
+                officerId: row.officerId,
+                violationTypeId: row.violationTypeId,
+                status: row.status,
+                violations: parseInt(row.violationCount) || 0,
+                fineAmount: Number(row.totalAmount) || 0
+            })), { transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
+    // Replace one day's payment rollup rows with fresh totals from the payments table
+    private static async refreshPaymentDay(statDate: string): Promise<void> {
+        const { start, end } = StatRollupRefresh.getDayBounds(statDate);
+        const transaction = await sequelize.transaction();
+
+        try {
+            const rows = await Payment.findAll({
+                where: { paymentDate: { [Op.gte]: start, [Op.lt]: end } },
+                attributes: [
+                    'gatewayProvider',
+                    'status',
+                    [sequelize.fn('COUNT', sequelize.col('id')), 'transactionCount'],
+                    [sequelize.fn('SUM', sequelize.col('amount')), 'totalAmount'],
+                    [sequelize.fn('SUM', sequelize.col('refunded_amount')), 'totalRefunded']
+                ],
+                group: ['gatewayProvider', 'status'],
+                raw: true,
+                transaction
+            });
+
+            await PaymentDailyStat.destroy({ where: { statDate }, transaction });
+
+            await PaymentDailyStat.bulkCreate((rows as any[]).map(row => ({
+                statDate,
+                gatewayProvider: row.gatewayProvider,
+                status: row.status,
+                transactions: parseInt(row.transactionCount) || 0,
+                amount: Number(row.totalAmount) || 0,
+                refundedAmount: Number(row.totalRefunded) || 0
+            })), { transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+}
\ No newline at end of file
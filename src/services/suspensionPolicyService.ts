@@ -0,0 +1,468 @@
+import { Op, Transaction } from 'sequelize';
+import { SuspensionPolicy, LicenseSuspension, VehicleOwner, Driver, Violation, ViolationType } from '../models';
+import { SuspensionTier } from '../models/SuspensionPolicy';
+import { NotificationService } from './notificationService';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+// Points accrue to the driver at the stop, or to the vehicle's owner for vehicle offences and unidentified drivers
+export type PointsHolder = VehicleOwner | Driver;
+
+export interface SuspensionPolicyData {
+    warningPoints: number;
+    tiers: SuspensionTier[];
+    offenceSuspensionDays: number;
+    revocationSuspensionCount: number;
+    revocationWindowMonths: number;
+}
+
+export interface PointsIncreaseContext {
+    previousPoints: number;
+    violationTypes?: ViolationType[];
+    // The tickets that added the points, in booking order; a new suspension is linked to the one that triggered it
+    violations?: Violation[];
+}
+
+export interface PolicyOutcome {
+    warningIssued: boolean;
+    suspension: LicenseSuspension | null;
+    revoked: boolean;
+}
+
+// Applied until an admin saves a policy; mirrors the old fixed 12-point threshold
+const DEFAULT_POLICY: SuspensionPolicyData = {
+    warningPoints: 8,
+    tiers: [
+        { points: 12, durationDays: 90 },
+        { points: 18, durationDays: 180 },
+    ],
+    offenceSuspensionDays: 30,
+    revocationSuspensionCount: 3,
+    revocationWindowMonths: 36,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suspension rows reference whichever licence the points sit on
+const suspensionKey = (holder: PointsHolder): { vehicleOwnerId: number } | { driverId: number } =>
+    holder instanceof Driver ? { driverId: holder.id } : { vehicleOwnerId: holder.id };
+
+// Identify the holder in logs and notifications
+export const describeHolder = (holder: PointsHolder): string =>
+    holder instanceof Driver ? `licence ${holder.licenseNumber}` : holder.plateNumber;
+
+export class SuspensionPolicyService {
+    // Get the policy in force, creating the default on first use
+    static async getPolicy(transaction?: Transaction): Promise<SuspensionPolicy> {
+        const [policy] = await SuspensionPolicy.findOrCreate({
+            where: {},
+            defaults: DEFAULT_POLICY,
+            order: [['id', 'ASC']],
+            transaction
+        });
+
+        return policy;
+    }
+
+    // Replace the policy settings
+    static async updatePolicy(data: SuspensionPolicyData, updatedBy: number): Promise<SuspensionPolicy> {
+        const tierPoints = data.tiers.map(tier => tier.points);
+
+        if (new Set(tierPoints).size !== tierPoints.length) {
+            throw createError('Each suspension tier must have a distinct points threshold', 400);
+        }
+
+        if (data.warningPoints >= Math.min(...tierPoints)) {
+            throw createError('Warning points must be below the lowest suspension tier', 400);
+        }
+
+        const policy = await this.getPolicy();
+
+        await policy.update({
+            ...data,
+            tiers: [...data.tiers].sort((a, b) => a.points - b.points),
+            updatedBy
+        });
+
+        logger.info(`Suspension policy updated by user ${updatedBy}: warning at ${policy.warningPoints}, tiers ${policy.tiers.map(t => `${t.points}pts/${t.durationDays}d`).join(', ')}`);
+
+        return policy;
+    }
+
+    // Apply warnings, suspensions and revocation after a driver or owner gains points; the caller saves the holder
+    static async applyPointsIncrease(
+        owner: PointsHolder,
+        context: PointsIncreaseContext,
+        transaction?: Transaction
+    ): Promise<PolicyOutcome> {
+        const outcome: PolicyOutcome = { warningIssued: false, suspension: null, revoked: false };
+
+        if (owner.status === 'revoked') {
+            return outcome;
+        }
+
+        const policy = await this.getPolicy(transaction);
+        const { previousPoints, violationTypes = [], violations = [] } = context;
+
+        const tier = policy.getCrossedTier(previousPoints, owner.currentPoints);
+        const suspensionOffence = violationTypes.find(type => type.suspensionEligible);
+
+        // Suspension-eligible offences suspend whatever the point total
+        const durationDays = Math.max(
+            tier ? tier.durationDays : 0,
+            suspensionOffence ? policy.offenceSuspensionDays : 0
+        );
+
+        if (durationDays === 0) {
+            if (previousPoints < policy.warningPoints && owner.currentPoints >= policy.warningPoints && owner.status === 'active') {
+                outcome.warningIssued = true;
+                logger.info(`Points warning issued for ${describeHolder(owner)} (${owner.currentPoints} points)`);
+            }
+            return outcome;
+        }
+
+        const startDate = new Date();
+        const endDate = new Date(startDate.getTime() + durationDays * DAY_MS);
+
+        const activeSuspension = await LicenseSuspension.findOne({
+            where: { ...suspensionKey(owner), status: 'active' },
+            order: [['endDate', 'DESC']],
+            transaction
+        });
+
+        // A further trigger while suspended extends the current suspension rather than counting as a new one
+        if (activeSuspension) {
+            if (endDate > new Date(activeSuspension.endDate)) {
+                activeSuspension.endDate = endDate;
+                await activeSuspension.save({ transaction });
+                logger.warn(`Suspension for ${describeHolder(owner)} extended to ${endDate.toISOString()}`);
+            }
+            outcome.suspension = activeSuspension;
+            return outcome;
+        }
+
+        outcome.suspension = await LicenseSuspension.create({
+            ...suspensionKey(owner),
+            violationId: this.findTriggeringViolation(violations, violationTypes, previousPoints, tier)?.id,
+            reason: tier ? 'points' : 'offence',
+            pointsAtSuspension: owner.currentPoints,
+            startDate,
+            endDate
+        }, { transaction });
+
+        owner.status = 'suspended';
+        logger.warn(`${owner instanceof Driver ? 'Driver' : 'Vehicle'} ${describeHolder(owner)} suspended until ${endDate.toISOString()} (${tier ? `${owner.currentPoints} points` : suspensionOffence!.code})`);
+
+        const recentSuspensions = await this.countRecentSuspensions(owner, policy, startDate, transaction);
+
+        if (recentSuspensions >= policy.revocationSuspensionCount) {
+            owner.status = 'revoked';
+            outcome.revoked = true;
+            logger.warn(`License for ${describeHolder(owner)} revoked after ${recentSuspensions} suspensions in ${policy.revocationWindowMonths} months`);
+        }
+
+        return outcome;
+    }
+
+    // The suspension-eligible ticket if there is one, since it suspends whatever happens to the points; otherwise the ticket that crossed the tier
+    private static findTriggeringViolation(
+        violations: Violation[],
+        violationTypes: ViolationType[],
+        previousPoints: number,
+        tier: SuspensionTier | null
+    ): Violation | undefined {
+        const offence = violations.find(violation =>
+            violationTypes.some(type => type.id === violation.violationTypeId && type.suspensionEligible)
+        );
+
+        if (offence || !tier) {
+            return offence;
+        }
+
+        let points = previousPoints;
+
+        return violations.find(violation => {
+            points += violation.points;
+            return points >= tier.points;
+        });
+    }
+
+    // Lift a points suspension the holder's points no longer support; the caller saves the holder
+    static async reviewPointsReduction(owner: PointsHolder, reason: string, transaction?: Transaction): Promise<boolean> {
+        if (owner.status !== 'suspended') {
+            return false;
+        }
+
+        const policy = await this.getPolicy(transaction);
+
+        if (owner.shouldBeSuspended(policy.getSuspensionThreshold())) {
+            return false;
+        }
+
+        const activeSuspensions = await LicenseSuspension.findAll({
+            where: { ...suspensionKey(owner), status: 'active' },
+            transaction
+        });
+
+        // Offence suspensions run their full term regardless of points
+        if (activeSuspensions.some(suspension => suspension.reason === 'offence')) {
+            return false;
+        }
+
+        for (const suspension of activeSuspensions) {
+            suspension.status = 'lifted';
+            suspension.liftedAt = new Date();
+            suspension.liftCause = 'points';
+            suspension.liftReason = reason;
+            await suspension.save({ transaction });
+        }
+
+        owner.status = 'active';
+        logger.info(`Suspension lifted for ${describeHolder(owner)}: ${reason}`);
+
+        return true;
+    }
+
+    // Lift the suspensions a ticket triggered once it is overturned, acquitted or voided; the caller saves the holder
+    static async liftForViolation(owner: PointsHolder, violationId: number, reason: string, transaction?: Transaction): Promise<boolean> {
+        const suspensions = await LicenseSuspension.findAll({
+            where: { ...suspensionKey(owner), violationId, status: 'active' },
+            transaction
+        });
+
+        if (suspensions.length === 0) {
+            return false;
+        }
+
+        // Another suspension-eligible ticket from the same stop still justifies the suspension
+        const stopOffence = await this.findStopOffence(owner, violationId, transaction);
+
+        if (stopOffence) {
+            for (const suspension of suspensions) {
+                suspension.violationId = stopOffence.id;
+                await suspension.save({ transaction });
+            }
+
+            logger.info(`Suspension for ${describeHolder(owner)} now rests on ${stopOffence.ticketNumber} after ${reason}`);
+            return false;
+        }
+
+        const policy = await this.getPolicy(transaction);
+
+        // Later points may have extended the suspension; if the remaining points still reach the threshold it stands on points alone
+        if (owner.shouldBeSuspended(policy.getSuspensionThreshold())) {
+            for (const suspension of suspensions) {
+                suspension.reason = 'points';
+                suspension.violationId = null;
+                await suspension.save({ transaction });
+            }
+
+            logger.info(`Suspension for ${describeHolder(owner)} kept on points (${owner.currentPoints}) after ${reason}`);
+            return false;
+        }
+
+        for (const suspension of suspensions) {
+            suspension.status = 'lifted';
+            suspension.liftedAt = new Date();
+            suspension.liftCause = 'ticket_invalidated';
+            suspension.liftReason = reason;
+            await suspension.save({ transaction });
+        }
+
+        logger.info(`${suspensions.length} suspension(s) lifted for ${describeHolder(owner)}: ${reason}`);
+
+        if (owner.status !== 'suspended' && owner.status !== 'revoked') {
+            return true;
+        }
+
+        const stillActive = await LicenseSuspension.count({
+            where: { ...suspensionKey(owner), status: 'active' },
+            transaction
+        });
+
+        if (owner.status === 'revoked') {
+            // A revocation the invalid ticket's suspension brought about no longer stands
+            if (await this.countRecentSuspensions(owner, policy, new Date(), transaction) < policy.revocationSuspensionCount) {
+                owner.status = stillActive > 0 ? 'suspended' : 'active';
+                logger.info(`Revocation withdrawn for ${describeHolder(owner)}: ${reason}`);
+            }
+        } else if (stillActive === 0) {
+            owner.status = 'active';
+            logger.info(`License reinstated for ${describeHolder(owner)}: ${reason}`);
+        }
+
+        return true;
+    }
+
+    // A still-valid suspension-eligible ticket booked against the holder at the same stop as the given ticket
+    private static async findStopOffence(owner: PointsHolder, violationId: number, transaction?: Transaction): Promise<Violation | null> {
+        const violation = await Violation.findByPk(violationId, { transaction });
+
+        if (!violation) {
+            return null;
+        }
+
+        return Violation.findOne({
+            where: {
+                id: { [Op.ne]: violation.id },
+                ...(owner instanceof Driver ? { driverId: owner.id } : { vehicleOwnerId: owner.id, driverId: null }),
+                officerId: violation.officerId,
+                violationDate: violation.violationDate,
+                status: { [Op.notIn]: ['dismissed', 'cautioned'] }
+            },
+            include: [{
+                model: ViolationType,
+                as: 'violationType',
+                where: { suspensionEligible: true }
+            }],
+            transaction
+        });
+    }
+
+    // Suspensions started in the revocation window up to a date; those lifted because their ticket was invalid never count
+    private static async countRecentSuspensions(
+        owner: PointsHolder,
+        policy: SuspensionPolicy,
+        asOf: Date,
+        transaction?: Transaction
+    ): Promise<number> {
+        const windowStart = new Date(asOf);
+        windowStart.setMonth(windowStart.getMonth() - policy.revocationWindowMonths);
+
+        return LicenseSuspension.count({
+            where: {
+                ...suspensionKey(owner),
+                startDate: { [Op.gte]: windowStart },
+                [Op.or]: [
+                    { liftCause: null },
+                    { liftCause: { [Op.ne]: 'ticket_invalidated' } }
+                ]
+            },
+            transaction
+        });
+    }
+
+    // End suspensions whose term has run out and reinstate the owners and drivers
+    static async completeExpiredSuspensions(asOf: Date = new Date()): Promise<{ suspensionsCompleted: number; ownersReinstated: number }> {
+        const suspensions = await LicenseSuspension.findAll({
+            where: {
+                status: 'active',
+                endDate: { [Op.lte]: asOf }
+            },
+            include: [
+                {
+                    model: VehicleOwner,
+                    as: 'vehicleOwner'
+                },
+                {
+                    model: Driver,
+                    as: 'driver'
+                }
+            ],
+            order: [['endDate', 'ASC']]
+        });
+
+        let suspensionsCompleted = 0;
+        let ownersReinstated = 0;
+
+        for (const suspension of suspensions) {
+            try {
+                suspension.status = 'completed';
+                await suspension.save();
+                suspensionsCompleted++;
+
+                const owner: PointsHolder | undefined = (suspension as any).driver || (suspension as any).vehicleOwner;
+
+                if (!owner || owner.status !== 'suspended') {
+                    continue;
+                }
+
+                const stillActive = await LicenseSuspension.count({
+                    where: { ...suspensionKey(owner), status: 'active' }
+                });
+
+                if (stillActive === 0) {
+                    owner.status = 'active';
+                    await owner.save();
+                    ownersReinstated++;
+                    logger.info(`Suspension term ended for ${describeHolder(owner)}; license reinstated`);
+                }
+            } catch (error) {
+                logger.error(`Suspension completion failed for suspension ${suspension.id}:`, error);
+            }
+        }
+
+        logger.info(`Suspension expiry completed: ${suspensionsCompleted} suspension(s) ended, ${ownersReinstated} owner(s) reinstated`);
+
+        return { suspensionsCompleted, ownersReinstated };
+    }
+
+    // Get an owner's suspension history
+    static async getOwnerSuspensions(vehicleOwnerId: number): Promise<LicenseSuspension[]> {
+        const owner = await VehicleOwner.findByPk(vehicleOwnerId, { attributes: ['id'] });
+
+        if (!owner) {
+            throw createError('Vehicle not found', 404);
+        }
+
+        return LicenseSuspension.findAll({
+            where: { vehicleOwnerId },
+            order: [['startDate', 'DESC']]
+        });
+    }
+
+    // Tell the driver or owner about a warning, suspension or revocation
+    static async notifyOutcome(owner: PointsHolder, outcome: PolicyOutcome): Promise<void> {
+        if (!owner.email && !owner.phone) {
+            return;
+        }
+
+        const recipient = {
+            name: owner.fullName,
+            email: owner.email || undefined,
+            phone: owner.phone || undefined
+        };
+
+        try {
+            if (outcome.revoked) {
+                await NotificationService.sendNotification({
+                    recipient,
+                    type: 'license_revoked',
+                    data: {
+                        plateNumber: describeHolder(owner),
+                        totalPoints: owner.currentPoints,
+                        revocationDate: new Date().toDateString()
+                    },
+                    channels: ['sms', 'email']
+                });
+            } else if (outcome.suspension) {
+                await NotificationService.sendNotification({
+                    recipient,
+                    type: 'license_suspended',
+                    data: {
+                        plateNumber: describeHolder(owner),
+                        totalPoints: owner.currentPoints,
+                        suspensionDate: new Date(outcome.suspension.startDate).toDateString(),
+                        suspendedUntil: new Date(outcome.suspension.endDate).toDateString()
+                    },
+                    channels: ['sms', 'email']
+                });
+            } else if (outcome.warningIssued) {
+                const policy = await this.getPolicy();
+
+                await NotificationService.sendNotification({
+                    recipient,
+                    type: 'points_warning',
+                    data: {
+                        plateNumber: describeHolder(owner),
+                        totalPoints: owner.currentPoints,
+                        suspensionThreshold: policy.getSuspensionThreshold()
+                    },
+                    channels: ['sms', 'email']
+                });
+            }
+        } catch (error) {
+            logger.error('Failed to send suspension policy notification:', error);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,427 @@
+import { Transaction } from 'sequelize';
+import { Violation, ViolationType, VehicleOwner, Driver, User, TicketCorrection, sequelize } from '../models';
+import { TicketCorrectionType, TicketCorrectionStatus, TicketCorrectionFields, TicketCorrectionSnapshot } from '../models/TicketCorrection';
+import { ViolationService } from './violationService';
+import { FineEscalationService } from './fineEscalationService';
+import { SuspensionPolicyService, PolicyOutcome, PointsHolder } from './suspensionPolicyService';
+import { createError } from '../middleware/errorHandler';
+import { appConfig } from '../config/app';
+import { PlateValidator } from '../utils/plateValidation';
+import { Measurements } from '../utils/measurements';
+import { logger } from '../utils/logger';
+
+export interface TicketCorrectionRequest {
+    type: TicketCorrectionType;
+    reason: string;
+    changes?: TicketCorrectionFields;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const snapshot = (violation: Violation): TicketCorrectionSnapshot => ({
+    plateNumber: violation.plateNumber,
+    vehicleOwnerId: violation.vehicleOwnerId,
+    violationTypeId: violation.violationTypeId,
+    locationAddress: violation.locationAddress,
+    locationLga: violation.locationLga,
+    officerNotes: violation.officerNotes,
+    measurements: violation.measurements ?? null,
+    fineAmount: Number(violation.fineAmount),
+    baseFineAmount: violation.baseFineAmount != null ? Number(violation.baseFineAmount) : undefined,
+    fineMultiplier: Number(violation.fineMultiplier),
+    escalationReason: violation.escalationReason,
+    points: violation.points,
+    status: violation.status
+});
+
+export class TicketCorrectionService {
+    // Officer asks to amend or void one of their own tickets within the grace period
+    static async requestCorrection(violationId: number, data: TicketCorrectionRequest, requestedBy: number): Promise<TicketCorrection> {
+        const { type, reason, changes } = data;
+
+        const violation = await Violation.findByPk(violationId);
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        if (violation.officerId !== requestedBy) {
+            throw createError('Corrections can only be requested by the issuing officer', 403);
+        }
+
+        const graceEnds = new Date(new Date(violation.createdAt).getTime() + appConfig.ticketCorrectionGraceHours * HOUR_MS);
+
+        if (new Date() > graceEnds) {
+            throw createError(`Corrections must be requested within ${appConfig.ticketCorrectionGraceHours} hours of issuing the ticket`, 400);
+        }
+
+        if (violation.status !== 'pending') {
+            throw createError(`Ticket ${violation.ticketNumber} is ${violation.status} and can no longer be corrected`, 400);
+        }
+
+        const openRequest = await TicketCorrection.findOne({
+            where: { violationId, status: 'pending' }
+        });
+
+        if (openRequest) {
+            throw createError('A correction request for this ticket is already awaiting review', 400);
+        }
+
+        let requestedChanges: TicketCorrectionFields | null = null;
+
+        if (type === 'amendment') {
+            requestedChanges = this.diffChanges(violation, changes || {});
+
+            if (Object.keys(requestedChanges).length === 0) {
+                throw createError('The amendment does not change anything on the ticket', 400);
+            }
+
+            // Catch measurements that will not fit the corrected offence before a supervisor sees the request
+            if (requestedChanges.violationTypeId !== undefined || requestedChanges.measurements !== undefined) {
+                const correctedType = await ViolationType.findByPk(requestedChanges.violationTypeId ?? violation.violationTypeId);
+
+                if (correctedType) {
+                    const measured = Measurements.validateValues(
+                        correctedType.measurementSchema,
+                        requestedChanges.measurements !== undefined ? requestedChanges.measurements : violation.measurements
+                    );
+
+                    if (measured.errors.length > 0) {
+                        throw createError(`Invalid measurements for ${correctedType.code}: ${measured.errors.join('; ')}`, 400);
+                    }
+
+                    if (requestedChanges.measurements !== undefined) {
+                        requestedChanges.measurements = measured.values;
+                    }
+                }
+            }
+        }
+
+        const correction = await TicketCorrection.create({
+            violationId,
+            type,
+            requestedBy,
+            reason,
+            requestedChanges
+        });
+
+        logger.info(`${type === 'void' ? 'Void' : 'Amendment'} requested for ${violation.ticketNumber} by officer ${requestedBy}`);
+
+        return correction;
+    }
+
+    // List correction requests for supervisors
+    static async getCorrectionQueue(query: { status?: TicketCorrectionStatus; page?: number; limit?: number }): Promise<{
+        corrections: TicketCorrection[];
+        totalCount: number;
+        currentPage: number;
+        totalPages: number;
+    }> {
+        const { status = 'pending', page = 1, limit = 20 } = query;
+
+        const { count, rows } = await TicketCorrection.findAndCountAll({
+            where: { status },
+            include: [
+                {
+                    model: Violation,
+                    as: 'violation',
+                    attributes: ['id', 'ticketNumber', 'plateNumber', 'violationTypeId', 'fineAmount', 'points', 'status', 'violationDate']
+                },
+                {
+                    model: User,
+                    as: 'requester',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                }
+            ],
+            limit,
+            offset: (page - 1) * limit,
+            order: [['createdAt', 'ASC']]
+        });
+
+        return {
+            corrections: rows,
+            totalCount: count,
+            currentPage: page,
+            totalPages: Math.ceil(count / limit)
+        };
+    }
+
+    // Get every correction raised against a ticket
+    static async getViolationCorrections(violationId: number): Promise<TicketCorrection[]> {
+        const violation = await Violation.findByPk(violationId, { attributes: ['id'] });
+
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
+
+        return TicketCorrection.findAll({
+            where: { violationId },
+            include: [
+                {
+                    model: User,
+                    as: 'requester',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                },
+                {
+                    model: User,
+                    as: 'reviewer',
+                    attributes: ['fullName', 'employeeId', 'rank']
+                }
+            ],
+            order: [['createdAt', 'DESC']]
+        });
+    }
+
+    // Approve or reject a correction; approval applies it and moves points between owners as needed
+    static async reviewCorrection(
+        id: number,
+        decision: 'approved' | 'rejected',
+        reviewNotes: string | undefined,
+        reviewedBy: number
+    ): Promise<TicketCorrection> {
+        const transaction = await sequelize.transaction();
+        let correction: TicketCorrection | null = null;
+        const outcomes: Array<{ owner: PointsHolder; outcome: PolicyOutcome }> = [];
+
+        try {
+            correction = await TicketCorrection.findByPk(id, { transaction });
+
+            if (!correction) {
+                throw createError('Correction request not found', 404);
+            }
+
+            if (!correction.isPending()) {
+                throw createError('This correction request has already been reviewed', 400);
+            }
+
+            if (correction.requestedBy === reviewedBy) {
+                throw createError('Correction requests must be reviewed by another supervisor', 403);
+            }
+
+            if (decision === 'approved') {
+                const violation = await Violation.findByPk(correction.violationId, {
+                    lock: transaction.LOCK.UPDATE,
+                    transaction
+                });
+
+                if (!violation) {
+                    throw createError('Violation not found', 404);
+                }
+
+                if (violation.status !== 'pending') {
+                    throw createError(`Ticket ${violation.ticketNumber} is ${violation.status} and can no longer be corrected`, 400);
+                }
+
+                correction.originalValues = snapshot(violation);
+
+                if (correction.type === 'void') {
+                    await this.applyVoid(violation, correction, reviewedBy, transaction);
+                } else {
+                    outcomes.push(...await this.applyAmendment(violation, correction, transaction));
+                }
+
+                correction.correctedValues = snapshot(violation);
+            }
+
+            correction.status = decision;
+            correction.reviewedBy = reviewedBy;
+            correction.reviewedAt = new Date();
+            correction.reviewNotes = reviewNotes;
+
+            await correction.save({ transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Ticket correction review failed:', error);
+            throw error;
+        }
+
+        logger.info(`Correction ${correction.id} (${correction.type}) ${decision} by user ${reviewedBy}`);
+
+        for (const { owner, outcome } of outcomes) {
+            await SuspensionPolicyService.notifyOutcome(owner, outcome);
+        }
+
+        return correction;
+    }
+
+    // Dismiss a voided ticket and take its points back off the driver or owner
+    private static async applyVoid(violation: Violation, correction: TicketCorrection, reviewedBy: number, transaction: Transaction): Promise<void> {
+        const reason = `Voided at officer request: ${correction.reason}`;
+
+        await ViolationService.changeStatus(violation, 'dismissed', reviewedBy, reason, transaction);
+
+        const pointsHolder = await ViolationService.getPointsHolder(violation, transaction);
+
+        if (pointsHolder) {
+            pointsHolder.currentPoints = Math.max(0, pointsHolder.currentPoints - violation.points);
+            await SuspensionPolicyService.liftForViolation(pointsHolder, violation.id, reason, transaction);
+            await SuspensionPolicyService.reviewPointsReduction(pointsHolder, reason, transaction);
+            await pointsHolder.save({ transaction });
+        }
+    }
+
+    // Apply the corrected fields, re-compute the fine and move points to the right driver or owner
+    private static async applyAmendment(
+        violation: Violation,
+        correction: TicketCorrection,
+        transaction: Transaction
+    ): Promise<Array<{ owner: PointsHolder; outcome: PolicyOutcome }>> {
+        const changes = correction.requestedChanges || {};
+        const outcomes: Array<{ owner: PointsHolder; outcome: PolicyOutcome }> = [];
+        const reason = `Ticket ${violation.ticketNumber} amended: ${correction.reason}`;
+
+        const oldType = await ViolationType.findByPk(violation.violationTypeId, { transaction });
+        let newType = oldType;
+
+        if (changes.violationTypeId !== undefined && changes.violationTypeId !== violation.violationTypeId) {
+            newType = await ViolationType.findOne({
+                where: { id: changes.violationTypeId, isActive: true },
+                transaction
+            });
+
+            if (!newType) {
+                throw createError('The corrected violation type is invalid or inactive', 400);
+            }
+        }
+
+        const oldHolder = await ViolationService.getPointsHolder(violation, transaction);
+        const oldOwner = oldHolder instanceof VehicleOwner
+            ? oldHolder
+            : violation.vehicleOwnerId ? await VehicleOwner.findByPk(violation.vehicleOwnerId, { transaction }) : null;
+        let newOwner = oldOwner;
+
+        if (changes.plateNumber !== undefined) {
+            newOwner = await ViolationService.resolveVehicleOwner(changes.plateNumber, transaction);
+        }
+
+        const typeChanged = newType!.id !== violation.violationTypeId;
+        const plateChanged = !!newOwner && newOwner.plateNumber !== violation.plateNumber;
+        const measurementsChanged = changes.measurements !== undefined;
+        const oldPoints = violation.points;
+
+        // Recorded values carry over to a corrected offence only when they fit its schema
+        const measured = Measurements.validateValues(
+            newType!.measurementSchema,
+            measurementsChanged ? changes.measurements : violation.measurements
+        );
+
+        if ((typeChanged || measurementsChanged) && measured.errors.length > 0) {
+            throw createError(`Invalid measurements for ${newType!.code}: ${measured.errors.join('; ')}`, 400);
+        }
+
+        if (typeChanged || plateChanged || measurementsChanged) {
+            // A plate-only correction keeps the values recorded under an older schema
+            const values = measured.errors.length > 0 ? violation.measurements : measured.values;
+
+            // The repeat-offence history belongs to the driver (or the corrected plate) and offence; bands follow the corrected values
+            const fine = await FineEscalationService.calculateFine(
+                newType!,
+                { plateNumber: newOwner!.plateNumber, driverId: newType!.liability === 'driver' ? violation.driverId : null },
+                new Date(violation.violationDate),
+                transaction,
+                values
+            );
+
+            violation.violationTypeId = newType!.id;
+            violation.measurements = values;
+            violation.fineAmount = fine.fineAmount;
+            violation.baseFineAmount = fine.baseFineAmount;
+            violation.fineMultiplier = fine.fineMultiplier;
+            violation.escalationReason = fine.escalationReason;
+            violation.points = fine.points;
+        }
+
+        if (newOwner) {
+            violation.plateNumber = newOwner.plateNumber;
+            violation.vehicleOwnerId = newOwner.id;
+        }
+
+        if (changes.locationAddress !== undefined) violation.locationAddress = changes.locationAddress;
+        if (changes.locationLga !== undefined) violation.locationLga = changes.locationLga;
+        if (changes.officerNotes !== undefined) violation.officerNotes = changes.officerNotes;
+
+        // An offence corrected to a vehicle offence moves from the driver to the owner
+        if (newType!.liability === 'vehicle') {
+            violation.driverId = null;
+        }
+
+        await violation.save({ transaction });
+
+        const newHolder: PointsHolder | null = violation.driverId
+            ? (oldHolder instanceof Driver ? oldHolder : await Driver.findByPk(violation.driverId, { transaction }))
+            : newOwner;
+        const holderChanged = (oldHolder?.constructor ?? null) !== (newHolder?.constructor ?? null)
+            || (oldHolder?.id ?? null) !== (newHolder?.id ?? null);
+
+        // Points leave the old licence when the plate was wrong or the offence is no longer the driver's
+        if (holderChanged && oldHolder) {
+            oldHolder.currentPoints = Math.max(0, oldHolder.currentPoints - oldPoints);
+            await SuspensionPolicyService.liftForViolation(oldHolder, violation.id, reason, transaction);
+            await SuspensionPolicyService.reviewPointsReduction(oldHolder, reason, transaction);
+            await oldHolder.save({ transaction });
+        }
+
+        if (newHolder) {
+            const previousPoints = newHolder.currentPoints;
+            const pointsBefore = holderChanged ? 0 : oldPoints;
+            newHolder.currentPoints = Math.max(0, previousPoints + violation.points - pointsBefore);
+
+            const newlySuspensionEligible = typeChanged && newType!.suspensionEligible && !oldType?.suspensionEligible;
+
+            // An offence corrected to one that does not suspend no longer supports the suspension it triggered
+            if (!holderChanged && typeChanged && oldType?.suspensionEligible && !newType!.suspensionEligible) {
+                await SuspensionPolicyService.liftForViolation(newHolder, violation.id, reason, transaction);
+            }
+
+            if (newHolder.currentPoints > previousPoints || newlySuspensionEligible || (holderChanged && newType!.suspensionEligible)) {
+                const outcome = await SuspensionPolicyService.applyPointsIncrease(
+                    newHolder,
+                    { previousPoints, violationTypes: [newType!], violations: [violation] },
+                    transaction
+                );
+                outcomes.push({ owner: newHolder, outcome });
+            } else if (newHolder.currentPoints < previousPoints) {
+                await SuspensionPolicyService.reviewPointsReduction(newHolder, reason, transaction);
+            }
+
+            await newHolder.save({ transaction });
+        }
+
+        return outcomes;
+    }
+
+    // Keep only the fields that actually differ from the ticket
+    private static diffChanges(violation: Violation, changes: TicketCorrectionFields): TicketCorrectionFields {
+        const diff: TicketCorrectionFields = {};
+
+        if (changes.plateNumber !== undefined) {
+            const normalized = PlateValidator.normalizePlateNumber(changes.plateNumber);
+            if (normalized !== violation.plateNumber) diff.plateNumber = normalized;
+        }
+
+        if (changes.violationTypeId !== undefined && changes.violationTypeId !== violation.violationTypeId) {
+            diff.violationTypeId = changes.violationTypeId;
+        }
+
+        if (changes.locationAddress !== undefined && changes.locationAddress !== violation.locationAddress) {
+            diff.locationAddress = changes.locationAddress;
+        }
+
+        if (changes.locationLga !== undefined && changes.locationLga !== violation.locationLga) {
+            diff.locationLga = changes.locationLga;
+        }
+
+        if (changes.officerNotes !== undefined && changes.officerNotes !== violation.officerNotes) {
+            diff.officerNotes = changes.officerNotes;
+        }
+
+        if (changes.measurements !== undefined && JSON.stringify(changes.measurements) !== JSON.stringify(violation.measurements ?? null)) {
+            diff.measurements = changes.measurements;
+        }
+
+        return diff;
+    }
+}
\ No newline at end of file
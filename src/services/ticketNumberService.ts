@@ -0,0 +1,34 @@
+import { Transaction } from 'sequelize';
+import { TicketSequence } from '../models';
+import { TicketNumber } from '../utils/ticketNumber';
+import { createError } from '../middleware/errorHandler';
+
+export class TicketNumberService {
+    // Allocate the next ticket number for a state; the sequence row stays locked until the transaction ends
+    static async nextTicketNumber(locationState: string, issuedAt: Date, transaction: Transaction): Promise<string> {
+        const stateCode = TicketNumber.resolveStateCode(locationState);
+
+        if (!stateCode) {
+            throw createError(`Unknown location state: ${locationState}`, 400);
+        }
+
+        const year = issuedAt.getFullYear();
+
+        await TicketSequence.findOrCreate({
+            where: { stateCode, year },
+            defaults: { stateCode, year, lastValue: 0 },
+            transaction
+        });
+
+        const sequence = await TicketSequence.findOne({
+            where: { stateCode, year },
+            lock: transaction.LOCK.UPDATE,
+            transaction
+        });
+
+        sequence!.lastValue += 1;
+        await sequence!.save({ transaction });
+
+        return TicketNumber.format(stateCode, year, sequence!.lastValue);
+    }
+}
\ No newline at end of file
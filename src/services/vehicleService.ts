@@ -1,5 +1,7 @@
-import { Op, WhereOptions } from 'sequelize';
-import { VehicleOwner } from '../models';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { VehicleOwner, Violation, sequelize } from '../models';
+import { SuspensionPolicyService } from './suspensionPolicyService';
+import { appConfig } from '../config/app';
 import { PlateValidator } from '../utils/plateValidation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
@@ -45,6 +47,8 @@ export interface VehicleSearchResult {
   hasPreviousPage: boolean;
 }
 
+const POINTS_BATCH_SIZE = 500;
+
 export class VehicleService {
   // Search vehicles with advanced filtering and pagination
   static async searchVehicles(query: VehicleSearchQuery): Promise<VehicleSearchResult> {
@@ -159,8 +163,8 @@ export class VehicleService {
     }
   }
 
-  // Lookup vehicle by plate number (primary method for officers)
-  static async lookupByPlateNumber(plateNumber: string): Promise<{
+  // Lookup vehicle by plate number (primary method for officers); within a transaction the row is locked for a points update
+  static async lookupByPlateNumber(plateNumber: string, transaction?: Transaction): Promise<{
     vehicle: VehicleOwner | null;
     plateValidation: any;
     suggestions?: string[];
@@ -178,7 +182,9 @@ export class VehicleService {
 
       // Direct search first
       let vehicle = await VehicleOwner.findOne({
-        where: { plateNumber: normalizedPlate }
+        where: { plateNumber: normalizedPlate },
+        transaction,
+        lock: transaction ? Transaction.LOCK.UPDATE : undefined
       });
 
       const suggestions: string[] = [];
@@ -187,7 +193,8 @@ export class VehicleService {
       if (!vehicle && !validation.isValid) {
         const allVehicles = await VehicleOwner.findAll({
           attributes: ['id', 'plateNumber', 'fullName'],
-          raw: true
+          raw: true,
+          transaction
         });
 
         const fuzzyMatches = allVehicles
@@ -202,7 +209,7 @@ export class VehicleService {
         if (fuzzyMatches.length > 0) {
           // Get the best match
           const bestMatch = fuzzyMatches[0];
-          vehicle = await VehicleOwner.findByPk(bestMatch.id);
+          vehicle = await VehicleOwner.findByPk(bestMatch.id, { transaction, lock: transaction ? Transaction.LOCK.UPDATE : undefined });
           
           // Add suggestions
           suggestions.push(...fuzzyMatches.map(m => m.plateNumber as string));
@@ -234,7 +241,7 @@ export class VehicleService {
   }
 
   // Create new vehicle owner record
-  static async createVehicle(data: VehicleCreateData): Promise<VehicleOwner> {
+  static async createVehicle(data: VehicleCreateData, transaction?: Transaction): Promise<VehicleOwner> {
     // Validate plate number format
     const plateValidation = PlateValidator.validatePlateNumber(data.plateNumber);
     
@@ -244,7 +251,8 @@ export class VehicleService {
 
     // Check if plate number already exists
     const existingVehicle = await VehicleOwner.findOne({
-      where: { plateNumber: plateValidation.normalized }
+      where: { plateNumber: plateValidation.normalized },
+      transaction
     });
 
     if (existingVehicle) {
@@ -254,7 +262,8 @@ export class VehicleService {
     // Check if license number already exists (if provided)
     if (data.licenseNumber) {
       const existingLicense = await VehicleOwner.findOne({
-        where: { licenseNumber: data.licenseNumber.toUpperCase() }
+        where: { licenseNumber: data.licenseNumber.toUpperCase() },
+        transaction
       });
 
       if (existingLicense) {
@@ -268,7 +277,7 @@ export class VehicleService {
         plateNumber: plateValidation.normalized,
         licenseNumber: data.licenseNumber?.toUpperCase(),
         email: data.email?.toLowerCase(),
-      });
+      }, { transaction });
 
       logger.info(`New vehicle created: ${vehicle.plateNumber} - ${vehicle.fullName}`);
       return vehicle;
@@ -425,15 +434,19 @@ export class VehicleService {
       throw createError('Vehicle not found', 404);
     }
 
+    const previousPoints = vehicle.currentPoints;
     const newPoints = vehicle.currentPoints + pointsToAdd;
     vehicle.currentPoints = Math.max(0, newPoints); // Don't allow negative points
 
-    // Check for suspension threshold (12 points)
-    if (vehicle.currentPoints >= 12 && vehicle.status === 'active') {
-      vehicle.status = 'suspended';
-      logger.warn(`Vehicle ${vehicle.plateNumber} suspended due to points (${vehicle.currentPoints})`);
+    // Apply the suspension policy to the new total
+    if (vehicle.currentPoints > previousPoints) {
+      const outcome = await SuspensionPolicyService.applyPointsIncrease(vehicle, { previousPoints });
+      await vehicle.save();
+      await SuspensionPolicyService.notifyOutcome(vehicle, outcome);
+      return vehicle;
     }
 
+    await SuspensionPolicyService.reviewPointsReduction(vehicle, 'Points adjusted');
     await vehicle.save();
     return vehicle;
   }
@@ -474,4 +487,93 @@ export class VehicleService {
       throw createError('Failed to find similar plate numbers', 500);
     }
   }
+
+  // Start of the rolling window; points from violations before it have expired
+  static getPointsWindowStart(asOf: Date = new Date()): Date {
+    const windowStart = new Date(asOf);
+    windowStart.setMonth(windowStart.getMonth() - appConfig.pointsExpiryMonths);
+    return windowStart;
+  }
+
+  // Rebuild every owner's points from violations inside the rolling window
+  static async recalculatePoints(asOf: Date = new Date()): Promise<{
+    ownersProcessed: number;
+    ownersUpdated: number;
+    suspensionsLifted: number;
+  }> {
+    const windowStart = this.getPointsWindowStart(asOf);
+    let ownersProcessed = 0;
+    let ownersUpdated = 0;
+    let suspensionsLifted = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const owners = await VehicleOwner.findAll({
+        where: { id: { [Op.gt]: lastId } },
+        order: [['id', 'ASC']],
+        limit: POINTS_BATCH_SIZE
+      });
+
+      if (owners.length === 0) {
+        break;
+      }
+
+      // Dismissed and overturned tickets never count towards points; tickets with a driver count against the driver
+      const rows = await Violation.findAll({
+        where: {
+          vehicleOwnerId: { [Op.in]: owners.map(o => o.id) },
+          driverId: null,
+          status: { [Op.ne]: 'dismissed' },
+          isOverturned: false,
+          violationDate: { [Op.gte]: windowStart, [Op.lte]: asOf }
+        },
+        attributes: [
+          'vehicleOwnerId',
+          [sequelize.fn('SUM', sequelize.col('points')), 'totalPoints']
+        ],
+        group: ['vehicleOwnerId'],
+        raw: true
+      });
+
+      const pointsByOwner: { [ownerId: number]: number } = {};
+      for (const row of rows as any[]) {
+        pointsByOwner[row.vehicleOwnerId] = parseInt(row.totalPoints) || 0;
+      }
+
+      for (const owner of owners) {
+        const points = pointsByOwner[owner.id] || 0;
+        let changed = false;
+
+        if (owner.currentPoints !== points) {
+          logger.info(`Points for ${owner.plateNumber} recalculated: ${owner.currentPoints} -> ${points}`);
+          owner.currentPoints = points;
+          changed = true;
+          ownersUpdated++;
+        }
+
+        // One owner's failure must not hold back the rest of the run
+        try {
+          // Lift points suspensions the window no longer supports
+          if (await SuspensionPolicyService.reviewPointsReduction(owner, 'Points expired')) {
+            changed = true;
+            suspensionsLifted++;
+          }
+
+          if (changed) {
+            await owner.save();
+          }
+        } catch (error) {
+          logger.error(`Points recalculation failed for ${owner.plateNumber}:`, error);
+        }
+
+        ownersProcessed++;
+      }
+
+      lastId = owners[owners.length - 1].id;
+    }
+
+    logger.info(`Points recalculation completed: ${ownersProcessed} owner(s), ${ownersUpdated} updated, ${suspensionsLifted} suspension(s) lifted`);
+
+    return { ownersProcessed, ownersUpdated, suspensionsLifted };
+  }
 }
\ No newline at end of file
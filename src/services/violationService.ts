@@ -1,8 +1,21 @@
 import { Op, WhereOptions, Transaction } from 'sequelize';
 import { v4 as uuidv4 } from 'uuid';
-import { Violation, ViolationType, VehicleOwner, User, Payment, sequelize } from '../models';
+import { Violation, ViolationType, VehicleOwner, Driver, User, Payment, ViolationStatusHistory, Appeal, CourtCase, Evidence, StatRollupRefresh, sequelize } from '../models';
+import { ViolationStatus } from '../models/Violation';
 import { VehicleService } from './vehicleService';
+import { SuspensionPolicyService, PolicyOutcome, PointsHolder } from './suspensionPolicyService';
+import { DriverService } from './driverService';
+import { FineEscalationService } from './fineEscalationService';
+import { EvidenceService } from './evidenceService';
+import { TicketNumberService } from './ticketNumberService';
+import { DuplicateReviewService } from './duplicateReviewService';
+import { StatisticsRollupService, RollupTotals } from './statisticsRollupService';
+import { appConfig } from '../config/app';
+import { ProcessedEvidenceFile } from '../middleware/upload';
 import { createError } from '../middleware/errorHandler';
+import { Measurements } from '../utils/measurements';
+import { FullTextSearch } from '../utils/fullTextSearch';
+import { RecordExport, RecordExportSource, ExportColumn } from '../utils/recordExport';
 import { logger } from '../utils/logger';
 
 export interface ViolationCreateData {
@@ -14,29 +27,41 @@ export interface ViolationCreateData {
     locationAddress?: string;
     locationState: string;
     locationLga?: string;
-    evidencePhotos?: string[]; // Array of photo filenames
+    evidenceFiles?: ProcessedEvidenceFile[]; // Processed uploads, recorded as Evidence rows
+    capturedAt?: Date;
     additionalEvidence?: string;
     officerNotes?: string;
     weatherCondition?: string;
     roadCondition?: string;
     trafficCondition?: string;
+    violationDate?: Date; // Device time for stops captured offline; defaults to now
+    clientReference?: string;
+    measurements?: { [violationTypeId: number]: any }; // Values per violation type, checked against each type's schema
+    driverLicenseNumber?: string; // Driver at the stop when known; takes the points for driver offences
+    driverName?: string;
+    driverPhone?: string;
+    mode?: 'ticket' | 'caution'; // A caution records the stop with no fine or points
 }
 
 export interface ViolationSearchQuery {
     plateNumber?: string;
     ticketNumber?: string;
     officerId?: number;
+    driverId?: number;
     violationTypeId?: number;
-    status?: 'pending' | 'paid' | 'partially_paid' | 'contested' | 'dismissed' | 'court_pending';
+    status?: ViolationStatus;
     locationState?: string;
     locationLga?: string;
     startDate?: Date;
     endDate?: Date;
     minAmount?: number;
     maxAmount?: number;
+    near?: { lat: number; lng: number; radiusMeters?: number };
+    bounds?: { west: number; south: number; east: number; north: number };
+    q?: string; // Free text matched against officer notes, location address and contest reason
     page?: number;
     limit?: number;
-    sortBy?: 'violationDate' | 'dueDate' | 'fineAmount' | 'ticketNumber';
+    sortBy?: 'violationDate' | 'dueDate' | 'fineAmount' | 'ticketNumber' | 'distance' | 'relevance';
     sortOrder?: 'ASC' | 'DESC';
 }
 
@@ -63,6 +88,7 @@ export interface ViolationStatistics {
     pendingViolations: number;
     pendingAmount: number;
     contestedViolations: number;
+    cautions: number;
     topViolationTypes: Array<{
         type: string;
         count: number;
@@ -75,6 +101,54 @@ export interface ViolationStatistics {
     }>;
 }
 
+export interface ViolationReport {
+    reportMetadata: {
+        type: string;
+        period: string;
+        generatedAt: Date;
+        filters: any;
+    };
+    summary: {
+        totalViolations: number;
+        totalAmount: number;
+        collectionRate: number;
+    };
+    breakdowns: {
+        byState: Array<{ state: string; violations: number; amount: number }>;
+        byOfficer: Array<{ officer: string; violations: number; amount: number }>;
+        byViolationType: Array<{ type: string; violations: number; amount: number }>;
+        byStatus: Array<{ status: string; violations: number; amount: number }>;
+        byCourtOutcome: Array<{ outcome: string; violations: number; amount: number }>;
+    };
+}
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Columns of the violation export, in file order
+const VIOLATION_EXPORT_COLUMNS: ExportColumn<Violation>[] = [
+    { header: 'id', value: v => v.id },
+    { header: 'ticketNumber', value: v => v.ticketNumber },
+    { header: 'plateNumber', value: v => v.plateNumber },
+    { header: 'violationCode', value: v => (v as any).violationType?.code },
+    { header: 'violationTitle', value: v => (v as any).violationType?.title },
+    { header: 'status', value: v => v.status },
+    { header: 'fineAmount', value: v => Number(v.fineAmount) },
+    { header: 'points', value: v => v.points },
+    { header: 'violationDate', value: v => v.violationDate },
+    { header: 'dueDate', value: v => v.dueDate },
+    { header: 'paidDate', value: v => v.paidDate },
+    { header: 'locationState', value: v => v.locationState },
+    { header: 'locationLga', value: v => v.locationLga },
+    { header: 'locationAddress', value: v => v.locationAddress },
+    { header: 'officerEmployeeId', value: v => (v as any).officer?.employeeId },
+    { header: 'driverLicenseNumber', value: v => (v as any).driver?.licenseNumber },
+];
+
+// Great-circle distance in metres from a point to each violation's GPS fix (MySQL 5.7+)
+const distanceFrom = (lat: number, lng: number) => sequelize.literal(
+    `ST_Distance_Sphere(POINT(\`Violation\`.\`location_lng\`, \`Violation\`.\`location_lat\`), POINT(${Number(lng)}, ${Number(lat)}))`
+);
+
 export class ViolationService {
     // Create new violation record
     static async createViolation(data: ViolationCreateData): Promise<{
@@ -82,7 +156,9 @@ export class ViolationService {
         totalAmount: number;
         totalPoints: number;
         vehicleOwner?: VehicleOwner;
+        driver?: Driver | null;
         suspensionTriggered: boolean;
+        flaggedDuplicates: Array<{ ticketNumber: string; duplicateOf: string; reviewId: number }>;
     }> {
         const transaction = await sequelize.transaction();
 
@@ -96,12 +172,19 @@ export class ViolationService {
                 locationAddress,
                 locationState,
                 locationLga,
-                evidencePhotos = [],
+                evidenceFiles = [],
+                capturedAt,
                 additionalEvidence,
                 officerNotes,
                 weatherCondition,
                 roadCondition,
                 trafficCondition,
+                clientReference,
+                measurements = {},
+                driverLicenseNumber,
+                driverName,
+                driverPhone,
+                mode = 'ticket',
             } = data;
 
             // Validate violation types
@@ -116,78 +199,173 @@ export class ViolationService {
                 throw createError('One or more violation types are invalid or inactive', 400);
             }
 
-            // Lookup or create vehicle owner
-            const vehicleLookup = await VehicleService.lookupByPlateNumber(plateNumber);
-            let vehicleOwner = vehicleLookup.vehicle;
+            if (mode === 'caution') {
+                const notCautionable = violationTypes.filter(type => !type.cautionEligible);
 
-            // If vehicle owner not found, create a basic record
-            if (!vehicleOwner) {
-                logger.warn(`Vehicle not found for plate ${plateNumber}, creating basic record`);
-                vehicleOwner = await VehicleService.createVehicle({
-                    plateNumber,
-                    fullName: 'Unknown Owner', // Will be updated when more info is available
-                });
+                if (notCautionable.length > 0) {
+                    throw createError(`A caution cannot be issued for ${notCautionable.map(type => type.code).join(', ')}; issue a ticket instead`, 400);
+                }
             }
 
+            // Locked so tickets booked against the plate at the same moment add their points one after the other
+            const vehicleOwner = await this.resolveVehicleOwner(plateNumber, transaction);
+
+            const driver = driverLicenseNumber
+                ? await DriverService.resolveDriver({ licenseNumber: driverLicenseNumber, fullName: driverName, phone: driverPhone }, transaction)
+                : null;
+
             // Create violation records (one for each violation type)
             const violations: Violation[] = [];
+            const flaggedDuplicates: Array<{ ticketNumber: string; duplicateOf: string; reviewId: number }> = [];
+            const violationDate = data.violationDate || new Date();
             let totalAmount = 0;
             let totalPoints = 0;
 
             for (const violationType of violationTypes) {
+                const measured = Measurements.validateValues(violationType.measurementSchema, measurements[violationType.id]);
+
+                if (measured.errors.length > 0) {
+                    throw createError(`Invalid measurements for ${violationType.code}: ${measured.errors.join('; ')}`, 400);
+                }
+
+                // Another officer may already have booked this plate for the same offence
+                const duplicate = await DuplicateReviewService.findProbableDuplicate({
+                    plateNumber: vehicleOwner.plateNumber,
+                    violationTypeId: violationType.id,
+                    violationDate,
+                    locationLat,
+                    locationLng
+                }, transaction);
+
+                if (duplicate && appConfig.duplicateAction === 'reject') {
+                    throw createError(`Probable duplicate of ticket ${duplicate.violation.ticketNumber} issued ${duplicate.minutesApart} minute(s) apart for ${violationType.code}`, 409);
+                }
+
+                // Vehicle offences stay with the owner even when the driver is known
+                const driverId = driver && violationType.liability === 'driver' ? driver.id : null;
+
+                // Repeat offences of the same code by the same driver (or the owner) attract an escalated fine; measured bands set the base fine
+                const fine = await FineEscalationService.calculateFine(
+                    violationType,
+                    { plateNumber: vehicleOwner.plateNumber, driverId, duplicateOfId: duplicate?.violation.id },
+                    violationDate,
+                    transaction,
+                    measured.values
+                );
+
+                // Cautions are for first offences; earlier cautions and tickets for the same code call for a ticket
+                if (mode === 'caution' && fine.offenceNumber > 1) {
+                    throw createError(`${driverId ? `Licence ${driver!.licenseNumber}` : vehicleOwner.plateNumber} already has ${fine.offenceNumber - 1} ${violationType.code} offence(s) within ${appConfig.fineEscalationWindowMonths} months; issue a ticket instead`, 400);
+                }
+
+                const charged = mode === 'caution'
+                    ? { fineAmount: 0, baseFineAmount: null, fineMultiplier: 1, escalationReason: null, points: 0 }
+                    : fine;
+
                 const violation = await Violation.create({
-                    ticketNumber: `TKT-${Date.now()}-${Math.floor(Math.random() * 1000)}`, // or uuidv4()
+                    ticketNumber: await TicketNumberService.nextTicketNumber(locationState, violationDate, transaction),
                     plateNumber: vehicleOwner.plateNumber,
                     vehicleOwnerId: vehicleOwner.id,
+                    driverId,
                     officerId,
                     violationTypeId: violationType.id,
-                    fineAmount: violationType.fineAmount,
-                    points: violationType.points,
+                    fineAmount: charged.fineAmount,
+                    baseFineAmount: charged.baseFineAmount,
+                    fineMultiplier: charged.fineMultiplier,
+                    escalationReason: charged.escalationReason,
+                    points: charged.points,
+                    status: mode === 'caution' ? 'cautioned' : 'pending',
+                    violationDate,
                     locationLat,
                     locationLng,
                     locationAddress,
                     locationState,
                     locationLga,
-                    evidencePhoto: evidencePhotos[0] || undefined,
-                    additionalEvidence: JSON.stringify({
-                        additionalPhotos: evidencePhotos.slice(1),
-                        notes: additionalEvidence
-                    }),
+                    evidencePhoto: evidenceFiles[0]?.fileName,
+                    additionalEvidence,
                     officerNotes,
                     weatherCondition,
                     roadCondition,
                     trafficCondition,
+                    clientReference,
+                    measurements: measured.values,
                 }, { transaction });
 
+                await ViolationStatusHistory.create({
+                    violationId: violation.id,
+                    fromStatus: null,
+                    toStatus: violation.status,
+                    changedBy: officerId,
+                    reason: mode === 'caution' ? 'Caution issued' : 'Ticket issued',
+                }, { transaction });
+
+                if (duplicate) {
+                    const review = await DuplicateReviewService.flagForReview(violation, duplicate, transaction);
+                    flaggedDuplicates.push({
+                        ticketNumber: violation.ticketNumber,
+                        duplicateOf: duplicate.violation.ticketNumber,
+                        reviewId: review.id
+                    });
+                }
+
                 violations.push(violation);
-                totalAmount += violationType.fineAmount;
-                totalPoints += violationType.points;
+                totalAmount += charged.fineAmount;
+                totalPoints += charged.points;
             }
 
-            // Update vehicle owner points
-            const newPoints = vehicleOwner.currentPoints + totalPoints;
-            let suspensionTriggered = false;
+            // Every ticket from the stop shares the same photos
+            await EvidenceService.createEvidenceRecords(
+                violations.map(v => v.id),
+                { files: evidenceFiles, uploadedBy: officerId, capturedAt },
+                transaction
+            );
+
+            // Update the driver's and the vehicle owner's points and apply the suspension policy to each
+            const outcomes: Array<{ holder: PointsHolder; outcome: PolicyOutcome }> = [];
+
+            for (const holder of driver ? [driver, vehicleOwner] : [vehicleOwner]) {
+                const holderViolations = violations.filter(v => v.status !== 'cautioned' && (holder === driver ? v.driverId === driver.id : !v.driverId));
+
+                if (holderViolations.length === 0) {
+                    continue;
+                }
+
+                const previousPoints = holder.currentPoints;
+                holder.currentPoints = previousPoints + holderViolations.reduce((sum, v) => sum + v.points, 0);
 
-            if (newPoints >= 12 && vehicleOwner.status === 'active') {
-                vehicleOwner.status = 'suspended';
-                suspensionTriggered = true;
-                logger.warn(`Vehicle ${vehicleOwner.plateNumber} suspended due to points (${newPoints})`);
+                const outcome = await SuspensionPolicyService.applyPointsIncrease(
+                    holder,
+                    {
+                        previousPoints,
+                        violationTypes: violationTypes.filter(type => holderViolations.some(v => v.violationTypeId === type.id)),
+                        violations: holderViolations
+                    },
+                    transaction
+                );
+
+                await holder.save({ transaction });
+                outcomes.push({ holder, outcome });
             }
 
-            vehicleOwner.currentPoints = newPoints;
-            await vehicleOwner.save({ transaction });
+            const suspensionTriggered = outcomes.some(({ outcome }) => outcome.suspension !== null);
 
             // Log violation creation
-            logger.info(`${violations.length} violation(s) created for ${plateNumber} by officer ${officerId}, Total: ₦${totalAmount}, Points: ${totalPoints}`);
+            logger.info(`${violations.length} ${mode === 'caution' ? 'caution' : 'violation'}(s) created for ${plateNumber} by officer ${officerId}, Total: ₦${totalAmount}, Points: ${totalPoints}`);
 
             await transaction.commit();
 
+            for (const { holder, outcome } of outcomes) {
+                await SuspensionPolicyService.notifyOutcome(holder, outcome);
+            }
+
             return {
                 violations,
                 totalAmount,
                 totalPoints,
                 vehicleOwner,
-                suspensionTriggered
+                driver,
+                suspensionTriggered,
+                flaggedDuplicates
             };
 
         } catch (error) {
@@ -197,12 +375,180 @@ export class ViolationService {
         }
     }
 
+    // The licence a ticket's points sit on: the driver when one is recorded, otherwise the vehicle owner
+    static async getPointsHolder(violation: Violation, transaction?: Transaction): Promise<PointsHolder | null> {
+        if (violation.driverId) {
+            return Driver.findByPk(violation.driverId, { transaction });
+        }
+
+        return violation.vehicleOwnerId
+            ? VehicleOwner.findByPk(violation.vehicleOwnerId, { transaction })
+            : null;
+    }
+
+    // Lookup the vehicle owner for a plate, creating a basic record when the plate is unknown
+    static async resolveVehicleOwner(plateNumber: string, transaction?: Transaction): Promise<VehicleOwner> {
+        const vehicleLookup = await VehicleService.lookupByPlateNumber(plateNumber, transaction);
+
+        if (vehicleLookup.vehicle) {
+            return vehicleLookup.vehicle;
+        }
+
+        logger.warn(`Vehicle not found for plate ${plateNumber}, creating basic record`);
+
+        try {
+            return await VehicleService.createVehicle({
+                plateNumber,
+                fullName: 'Unknown Owner', // Will be updated when more info is available
+            }, transaction);
+        } catch (error: any) {
+            // Another ticket or sync may have registered the plate since the lookup
+            if (error.statusCode !== 409) {
+                throw error;
+            }
+
+            const vehicleOwner = (await VehicleService.lookupByPlateNumber(plateNumber, transaction)).vehicle;
+
+            if (!vehicleOwner) {
+                throw error;
+            }
+
+            return vehicleOwner;
+        }
+    }
+
     // Search violations with advanced filtering
     static async searchViolations(query: ViolationSearchQuery): Promise<ViolationSearchResult> {
+        const {
+            page = 1,
+            limit = 20,
+            sortBy = 'violationDate',
+            sortOrder = 'DESC'
+        } = query;
+
+        const { whereConditions, distance, relevance, terms } = this.buildSearchConditions(query);
+
+        const computedAttributes: any[] = [];
+        if (distance) computedAttributes.push([distance, 'distanceMeters']);
+        if (relevance) computedAttributes.push([relevance, 'relevance']);
+
+        const orderBy: any = sortBy === 'distance' ? distance : sortBy === 'relevance' ? relevance : sortBy;
+
+        if (!orderBy) {
+            throw createError(`Sorting by ${sortBy} needs ${sortBy === 'distance' ? 'a location' : 'search text'}`, 400);
+        }
+
+        // Calculate pagination
+        const offset = (page - 1) * limit;
+
+        try {
+            // Execute search with includes
+            const { count, rows } = await Violation.findAndCountAll({
+                where: whereConditions,
+                attributes: computedAttributes.length > 0 ? { include: computedAttributes } : undefined,
+                include: [
+                    {
+                        model: ViolationType,
+                        as: 'violationType',
+                        attributes: ['title', 'code', 'category']
+                    },
+                    {
+                        model: User,
+                        as: 'officer',
+                        attributes: ['fullName', 'employeeId', 'rank']
+                    },
+                    {
+                        model: VehicleOwner,
+                        as: 'vehicleOwner',
+                        attributes: ['fullName', 'phone', 'email', 'currentPoints']
+                    },
+                    {
+                        model: Payment,
+                        as: 'payments',
+                        attributes: ['amount', 'status', 'paymentDate']
+                    }
+                ],
+                limit,
+                offset,
+                order: [[orderBy, sortOrder]],
+            });
+
+            // Show supervisors where each ticket matched
+            if (terms.length > 0) {
+                for (const violation of rows) {
+                    violation.setDataValue('highlights' as any, {
+                        officerNotes: FullTextSearch.snippet(violation.officerNotes, terms),
+                        locationAddress: FullTextSearch.snippet(violation.locationAddress, terms),
+                        contestReason: FullTextSearch.snippet(violation.contestReason, terms)
+                    });
+                }
+            }
+
+            // Calculate summary statistics
+            const summaryData = await this.calculateSearchSummary(whereConditions);
+
+            const totalPages = Math.ceil(count / limit);
+
+            return {
+                violations: rows,
+                totalCount: count,
+                currentPage: page,
+                totalPages,
+                hasNextPage: page < totalPages,
+                hasPreviousPage: page > 1,
+                summary: summaryData
+            };
+
+        } catch (error) {
+            logger.error('Violation search error:', error);
+            throw createError('Failed to search violations', 500);
+        }
+    }
+
+    // Every violation matching the search filters, read in id order a batch at a time; paging and sorting options do not apply
+    static exportViolations(query: ViolationSearchQuery): RecordExportSource<Violation> {
+        const { whereConditions } = this.buildSearchConditions(query);
+
+        const rows = RecordExport.inBatches(
+            (lastId, limit) => Violation.findAll({
+                where: { [Op.and]: [whereConditions, { id: { [Op.gt]: lastId } }] },
+                include: [
+                    {
+                        model: ViolationType,
+                        as: 'violationType',
+                        attributes: ['code', 'title']
+                    },
+                    {
+                        model: User,
+                        as: 'officer',
+                        attributes: ['employeeId']
+                    },
+                    {
+                        model: Driver,
+                        as: 'driver',
+                        attributes: ['licenseNumber']
+                    }
+                ],
+                order: [['id', 'ASC']],
+                limit
+            })
+        );
+
+        return { columns: VIOLATION_EXPORT_COLUMNS, rows };
+    }
+
+    // Build the WHERE clause shared by search and export, with the computed distance and full-text relevance
+    private static buildSearchConditions(query: ViolationSearchQuery): {
+        whereConditions: WhereOptions;
+        distance: ReturnType<typeof distanceFrom> | null;
+        relevance: ReturnType<typeof sequelize.literal> | null;
+        terms: string[];
+    } {
         const {
             plateNumber,
             ticketNumber,
             officerId,
+            driverId,
             violationTypeId,
             status,
             locationState,
@@ -211,14 +557,14 @@ export class ViolationService {
             endDate,
             minAmount,
             maxAmount,
-            page = 1,
-            limit = 20,
-            sortBy = 'violationDate',
-            sortOrder = 'DESC'
+            near,
+            bounds,
+            q
         } = query;
 
         // Build WHERE conditions
         const whereConditions: WhereOptions = {};
+        const filterConditions: any[] = [];
 
         if (plateNumber) {
             whereConditions.plateNumber = {
@@ -236,6 +582,10 @@ export class ViolationService {
             whereConditions.officerId = officerId;
         }
 
+        if (driverId) {
+            whereConditions.driverId = driverId;
+        }
+
         if (violationTypeId) {
             whereConditions.violationTypeId = violationTypeId;
         }
@@ -282,59 +632,50 @@ export class ViolationService {
             };
         }
 
-        // Calculate pagination
-        const offset = (page - 1) * limit;
+        const distance = near ? distanceFrom(near.lat, near.lng) : null;
 
-        try {
-            // Execute search with includes
-            const { count, rows } = await Violation.findAndCountAll({
-                where: whereConditions,
-                include: [
-                    {
-                        model: ViolationType,
-                        as: 'violationType',
-                        attributes: ['title', 'code', 'category']
-                    },
-                    {
-                        model: User,
-                        as: 'officer',
-                        attributes: ['fullName', 'employeeId', 'rank']
-                    },
-                    {
-                        model: VehicleOwner,
-                        as: 'vehicleOwner',
-                        attributes: ['fullName', 'phone', 'email', 'currentPoints']
-                    },
-                    {
-                        model: Payment,
-                        as: 'payments',
-                        attributes: ['amount', 'status', 'paymentDate']
-                    }
-                ],
-                limit,
-                offset,
-                order: [[sortBy, sortOrder]],
-            });
+        // Radius searches are narrowed to a bounding box first so the (lat, lng) index does the heavy lifting
+        if (near?.radiusMeters) {
+            const latDelta = near.radiusMeters / METERS_PER_DEGREE_LAT;
+            const lngDelta = near.radiusMeters / (METERS_PER_DEGREE_LAT * Math.max(Math.cos(near.lat * Math.PI / 180), 0.01));
 
-            // Calculate summary statistics
-            const summaryData = await this.calculateSearchSummary(whereConditions);
+            filterConditions.push(
+                { locationLat: { [Op.between]: [near.lat - latDelta, near.lat + latDelta] } },
+                { locationLng: { [Op.between]: [near.lng - lngDelta, near.lng + lngDelta] } },
+                sequelize.where(distance!, Op.lte, near.radiusMeters)
+            );
+        }
 
-            const totalPages = Math.ceil(count / limit);
+        if (bounds) {
+            filterConditions.push(
+                { locationLat: { [Op.between]: [bounds.south, bounds.north] } },
+                // A box drawn across the antimeridian has west greater than east
+                bounds.west <= bounds.east
+                    ? { locationLng: { [Op.between]: [bounds.west, bounds.east] } }
+                    : { [Op.or]: [{ locationLng: { [Op.gte]: bounds.west } }, { locationLng: { [Op.lte]: bounds.east } }] }
+            );
+        }
 
-            return {
-                violations: rows,
-                totalCount: count,
-                currentPage: page,
-                totalPages,
-                hasNextPage: page < totalPages,
-                hasPreviousPage: page > 1,
-                summary: summaryData
-            };
+        const terms = q ? FullTextSearch.parseTerms(q) : [];
 
-        } catch (error) {
-            logger.error('Violation search error:', error);
-            throw createError('Failed to search violations', 500);
+        if (q && terms.length === 0) {
+            throw createError('Search text must contain at least one word', 400);
+        }
+
+        // Scored by the FULLTEXT index, which MATCH must name column for column
+        const relevance = terms.length > 0 ? sequelize.literal(
+            `MATCH(\`Violation\`.\`officer_notes\`, \`Violation\`.\`location_address\`, \`Violation\`.\`contest_reason\`) AGAINST (${sequelize.escape(FullTextSearch.toBooleanQuery(terms))} IN BOOLEAN MODE)`
+        ) : null;
+
+        if (relevance) {
+            filterConditions.push(sequelize.where(relevance, Op.gt, 0));
+        }
+
+        if (filterConditions.length > 0) {
+            Object.assign(whereConditions, { [Op.and]: filterConditions });
         }
+
+        return { whereConditions, distance, relevance, terms };
     }
 
     // Calculate summary for search results
@@ -411,9 +752,28 @@ export class ViolationService {
                     model: VehicleOwner,
                     as: 'vehicleOwner'
                 },
+                {
+                    model: Driver,
+                    as: 'driver',
+                    attributes: ['id', 'licenseNumber', 'fullName', 'licenseClass', 'status', 'currentPoints']
+                },
                 {
                     model: Payment,
                     as: 'payments'
+                },
+                {
+                    model: Appeal,
+                    as: 'appeal'
+                },
+                {
+                    model: CourtCase,
+                    as: 'courtCase',
+                    attributes: ['id', 'caseNumber', 'courtName', 'status', 'nextHearingDate', 'verdict']
+                },
+                {
+                    model: Evidence,
+                    as: 'evidence',
+                    attributes: ['id', 'fileName', 'mimeType', 'size', 'sha256', 'width', 'height', 'capturedAt', 'uploadedBy', 'createdAt']
                 }
             ]
         });
@@ -457,63 +817,145 @@ export class ViolationService {
         return violation;
     }
 
-    // Update violation status
-    static async updateViolationStatus(
-        id: number,
-        status: 'pending' | 'paid' | 'partially_paid' | 'contested' | 'dismissed' | 'court_pending',
-        updatedBy: number,
-        notes?: string
+    // Move a violation to a new status, enforcing the lifecycle and recording the change
+    static async changeStatus(
+        violation: Violation,
+        status: ViolationStatus,
+        changedBy: number | null,
+        reason?: string,
+        transaction?: Transaction
     ): Promise<Violation> {
-        const violation = await Violation.findByPk(id);
+        const oldStatus = violation.status;
 
-        if (!violation) {
-            throw createError('Violation not found', 404);
+        if (!violation.canTransitionTo(status)) {
+            throw createError(`Cannot change violation status from ${oldStatus} to ${status}`, 409);
         }
 
-        const oldStatus = violation.status;
         violation.status = status;
 
-        if (notes) {
-            const existingNotes = violation.officerNotes || '';
-            violation.officerNotes = `${existingNotes}\n[${new Date().toISOString()}] Status changed from ${oldStatus} to ${status}: ${notes}`;
-        }
-
         if (status === 'paid') {
             violation.paidDate = new Date();
         }
 
-        await violation.save();
+        await violation.save({ transaction });
+
+        await ViolationStatusHistory.create({
+            violationId: violation.id,
+            fromStatus: oldStatus,
+            toStatus: status,
+            changedBy,
+            reason,
+        }, { transaction });
 
-        logger.info(`Violation ${violation.ticketNumber} status updated from ${oldStatus} to ${status} by user ${updatedBy}`);
+        logger.info(`Violation ${violation.ticketNumber} status updated from ${oldStatus} to ${status} by user ${changedBy ?? 'system'}`);
 
         return violation;
     }
 
+    // Update violation status
+    static async updateViolationStatus(
+        id: number,
+        status: ViolationStatus,
+        updatedBy: number,
+        notes?: string
+    ): Promise<Violation> {
+        const transaction = await sequelize.transaction();
+
+        try {
+            const violation = await Violation.findByPk(id, { transaction });
+
+            if (!violation) {
+                throw createError('Violation not found', 404);
+            }
+
+            await this.changeStatus(violation, status, updatedBy, notes, transaction);
+
+            await transaction.commit();
+
+            return violation;
+
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
+        }
+    }
+
     // Contest violation
     static async contestViolation(
         id: number,
         contestReason: string,
         contestedBy?: number
     ): Promise<Violation> {
-        const violation = await Violation.findByPk(id);
+        const transaction = await sequelize.transaction();
 
-        if (!violation) {
-            throw createError('Violation not found', 404);
-        }
+        try {
+            const violation = await Violation.findByPk(id, { transaction });
+
+            if (!violation) {
+                throw createError('Violation not found', 404);
+            }
+
+            if (violation.status !== 'pending') {
+                throw createError('Only pending violations can be contested', 400);
+            }
+
+            const existingAppeal = await Appeal.findOne({ where: { violationId: id }, transaction });
+
+            if (existingAppeal) {
+                throw createError('This violation has already been contested', 400);
+            }
+
+            violation.contestDate = new Date();
+            violation.contestReason = contestReason;
+
+            await this.changeStatus(violation, 'contested', contestedBy ?? null, contestReason, transaction);
 
-        if (violation.status !== 'pending') {
-            throw createError('Only pending violations can be contested', 400);
+            // Open the appeal case that reviewers will adjudicate
+            await Appeal.create({
+                violationId: violation.id,
+                reason: contestReason,
+                submittedBy: contestedBy ?? null,
+                originalFineAmount: violation.fineAmount,
+            }, { transaction });
+
+            await transaction.commit();
+
+            logger.info(`Violation ${violation.ticketNumber} contested: ${contestReason}`);
+
+            return violation;
+
+        } catch (error) {
+            await transaction.rollback();
+            throw error;
         }
+    }
 
-        violation.status = 'contested';
-        violation.contestDate = new Date();
-        violation.contestReason = contestReason;
+    // Get the full status timeline of a violation
+    static async getStatusHistory(id: number): Promise<{
+        violation: Violation;
+        history: ViolationStatusHistory[];
+    }> {
+        const violation = await Violation.findByPk(id, {
+            attributes: ['id', 'ticketNumber', 'plateNumber', 'status', 'violationDate']
+        });
 
-        await violation.save();
+        if (!violation) {
+            throw createError('Violation not found', 404);
+        }
 
-        logger.info(`Violation ${violation.ticketNumber} contested: ${contestReason}`);
+        const history = await ViolationStatusHistory.findAll({
+            where: { violationId: id },
+            include: [
+                {
+                    model: User,
+                    as: 'changedByUser',
+                    attributes: ['fullName', 'employeeId', 'role']
+                }
+            ],
+            order: [['createdAt', 'ASC'], ['id', 'ASC']]
+        });
 
-        return violation;
+        return { violation, history };
     }
 
     // Get violations for a specific plate number
@@ -524,6 +966,7 @@ export class ViolationService {
             totalAmount: number;
             paidAmount: number;
             outstandingAmount: number;
+            cautions: number;
             currentPoints: number;
             suspensionStatus: string;
         };
@@ -571,6 +1014,7 @@ export class ViolationService {
                     totalAmount,
                     paidAmount,
                     outstandingAmount: totalAmount - paidAmount,
+                    cautions: violations.filter(v => v.status === 'cautioned').length,
                     currentPoints: vehicleOwner?.currentPoints || 0,
                     suspensionStatus: vehicleOwner?.status || 'unknown'
                 }
@@ -582,10 +1026,11 @@ export class ViolationService {
         }
     }
 
-    // Get officer violation statistics
+    // Get officer violation statistics from the daily rollup
     static async getOfficerStats(officerId: number, startDate?: Date, endDate?: Date): Promise<{
         totalViolations: number;
         totalAmount: number;
+        cautionsIssued: number;
         averagePerDay: number;
         topViolationTypes: Array<{
             type: string;
@@ -598,70 +1043,35 @@ export class ViolationService {
         }>;
     }> {
         try {
-            const whereConditions: WhereOptions = { officerId };
+            const whereConditions: WhereOptions = {
+                officerId,
+                ...StatisticsRollupService.getStatDateConditions(startDate, endDate)
+            };
 
-            if (startDate && endDate) {
-                whereConditions.violationDate = {
-                    [Op.between]: [startDate, endDate]
-                };
-            }
+            const [byStatus, byType, byDay] = await Promise.all([
+                StatisticsRollupService.sumViolations(whereConditions, 'status'),
+                StatisticsRollupService.sumViolations(whereConditions, 'violationTypeId', { limit: 5 }),
+                StatisticsRollupService.sumViolations(whereConditions, 'statDate', { orderByKey: 'ASC' })
+            ]);
 
-            const violations = await Violation.findAll({
-                where: whereConditions,
-                include: [
-                    {
-                        model: ViolationType,
-                        as: 'violationType',
-                        attributes: ['title', 'code']
-                    }
-                ],
-                order: [['violationDate', 'DESC']]
-            });
+            const typeTitles = await this.getViolationTypeTitles(byType.map(row => row.key));
 
-            // Calculate statistics
-            const totalViolations = violations.length;
-            const totalAmount = violations.reduce((sum, v) => sum + v.fineAmount, 0);
+            const totalViolations = byStatus.reduce((sum, row) => sum + row.violations, 0);
+            const totalAmount = byStatus.reduce((sum, row) => sum + row.amount, 0);
+            const cautionsIssued = byStatus.find(row => row.key === 'cautioned')?.violations || 0;
 
             const daysDiff = startDate && endDate
                 ? Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 3600 * 24))
                 : 30; // Default to 30 days
             const averagePerDay = totalViolations / daysDiff;
 
-            // Top violation types - FIXED: proper type access
-            const typeMap: { [key: string]: number } = {};
-            violations.forEach(v => {
-                // Use type assertion to access the included relation
-                const violationWithType = v as any;
-                const type = violationWithType.violationType?.title || 'Unknown';
-                typeMap[type] = (typeMap[type] || 0) + 1;
-            });
-
-            const topViolationTypes = Object.entries(typeMap)
-                .map(([type, count]) => ({ type, count }))
-                .sort((a, b) => b.count - a.count)
-                .slice(0, 5);
-
-            // Daily activity (last 30 days)
-            const dailyMap: { [key: string]: { violations: number; amount: number } } = {};
-            violations.forEach(v => {
-                const date = v.violationDate.toISOString().split('T')[0];
-                if (!dailyMap[date]) {
-                    dailyMap[date] = { violations: 0, amount: 0 };
-                }
-                dailyMap[date].violations++;
-                dailyMap[date].amount += v.fineAmount;
-            });
-
-            const dailyActivity = Object.entries(dailyMap)
-                .map(([date, data]) => ({ date, ...data }))
-                .sort((a, b) => a.date.localeCompare(b.date));
-
             return {
                 totalViolations,
                 totalAmount,
+                cautionsIssued,
                 averagePerDay: Math.round(averagePerDay * 100) / 100,
-                topViolationTypes,
-                dailyActivity
+                topViolationTypes: byType.map(row => ({ type: typeTitles[row.key] || 'Unknown', count: row.violations })),
+                dailyActivity: byDay.map(row => ({ date: row.key, violations: row.violations, amount: row.amount }))
             };
 
         } catch (error) {
@@ -670,89 +1080,33 @@ export class ViolationService {
         }
     }
 
-    // Get system-wide violation statistics
+    // Get system-wide violation statistics from the daily rollup
     static async getSystemStatistics(startDate?: Date, endDate?: Date): Promise<ViolationStatistics> {
         try {
-            const whereConditions: WhereOptions = {};
-
-            if (startDate && endDate) {
-                whereConditions.violationDate = {
-                    [Op.between]: [startDate, endDate]
-                };
-            }
-
-            // Get all violations with related data
-            const violations = await Violation.findAll({
-                where: whereConditions,
-                include: [
-                    {
-                        model: ViolationType,
-                        as: 'violationType',
-                        attributes: ['title', 'category']
-                    }
-                ]
-            });
-
-            // Calculate basic stats
-            const totalViolations = violations.length;
-            const totalAmount = violations.reduce((sum, v) => sum + v.fineAmount, 0);
-
-            const paidViolations = violations.filter(v => v.status === 'paid').length;
-            const paidAmount = violations
-                .filter(v => v.status === 'paid')
-                .reduce((sum, v) => sum + v.fineAmount, 0);
-
-            const pendingViolations = violations.filter(v => v.status === 'pending').length;
-            const pendingAmount = violations
-                .filter(v => v.status === 'pending')
-                .reduce((sum, v) => sum + v.fineAmount, 0);
-
-            const contestedViolations = violations.filter(v => v.status === 'contested').length;
-
-            // Top violation types - FIXED: proper type access
-            const typeMap: { [key: string]: { count: number; amount: number } } = {};
-            violations.forEach(v => {
-                // Use type assertion to access the included relation
-                const violationWithType = v as any;
-                const type = violationWithType.violationType?.title || 'Unknown';
-                if (!typeMap[type]) {
-                    typeMap[type] = { count: 0, amount: 0 };
-                }
-                typeMap[type].count++;
-                typeMap[type].amount += v.fineAmount;
-            });
+            const whereConditions = StatisticsRollupService.getStatDateConditions(startDate, endDate);
 
-            const topViolationTypes = Object.entries(typeMap)
-                .map(([type, data]) => ({ type, count: data.count, totalAmount: data.amount }))
-                .sort((a, b) => b.count - a.count)
-                .slice(0, 10);
-
-            // Monthly trends (last 12 months)
-            const monthlyMap: { [key: string]: { violations: number; amount: number } } = {};
-            violations.forEach(v => {
-                const monthKey = v.violationDate.toISOString().substring(0, 7); // YYYY-MM
-                if (!monthlyMap[monthKey]) {
-                    monthlyMap[monthKey] = { violations: 0, amount: 0 };
-                }
-                monthlyMap[monthKey].violations++;
-                monthlyMap[monthKey].amount += v.fineAmount;
-            });
+            const [byStatus, byType, byMonth] = await Promise.all([
+                StatisticsRollupService.sumViolations(whereConditions, 'status'),
+                StatisticsRollupService.sumViolations(whereConditions, 'violationTypeId', { limit: 10 }),
+                StatisticsRollupService.sumViolations(whereConditions, 'month', { orderByKey: 'DESC', limit: 12 }) // Last 12 months
+            ]);
 
-            const monthlyTrends = Object.entries(monthlyMap)
-                .map(([month, data]) => ({ month, ...data }))
-                .sort((a, b) => a.month.localeCompare(b.month))
-                .slice(-12); // Last 12 months
+            const typeTitles = await this.getViolationTypeTitles(byType.map(row => row.key));
+            const statusTotals = (status: ViolationStatus) => byStatus.find(row => row.key === status) || { violations: 0, amount: 0 };
 
             return {
-                totalViolations,
-                totalAmount,
-                paidViolations,
-                paidAmount,
-                pendingViolations,
-                pendingAmount,
-                contestedViolations,
-                topViolationTypes,
-                monthlyTrends
+                totalViolations: byStatus.reduce((sum, row) => sum + row.violations, 0),
+                totalAmount: byStatus.reduce((sum, row) => sum + row.amount, 0),
+                paidViolations: statusTotals('paid').violations,
+                paidAmount: statusTotals('paid').amount,
+                pendingViolations: statusTotals('pending').violations,
+                pendingAmount: statusTotals('pending').amount,
+                contestedViolations: statusTotals('contested').violations,
+                cautions: statusTotals('cautioned').violations,
+                topViolationTypes: byType.map(row => ({ type: typeTitles[row.key] || 'Unknown', count: row.violations, totalAmount: row.amount })),
+                monthlyTrends: byMonth
+                    .map(row => ({ month: row.key, violations: row.violations, amount: row.amount }))
+                    .reverse()
             };
 
         } catch (error) {
@@ -771,25 +1125,7 @@ export class ViolationService {
             officerId?: number;
             violationTypeId?: number;
         }
-    ): Promise<{
-        reportMetadata: {
-            type: string;
-            period: string;
-            generatedAt: Date;
-            filters: any;
-        };
-        summary: {
-            totalViolations: number;
-            totalAmount: number;
-            collectionRate: number;
-        };
-        breakdowns: {
-            byState: Array<{ state: string; violations: number; amount: number }>;
-            byOfficer: Array<{ officer: string; violations: number; amount: number }>;
-            byViolationType: Array<{ type: string; violations: number; amount: number }>;
-            byStatus: Array<{ status: string; violations: number; amount: number }>;
-        };
-    }> {
+    ): Promise<ViolationReport> {
         try {
             const whereConditions: WhereOptions = {
                 violationDate: {
@@ -801,44 +1137,38 @@ export class ViolationService {
             if (filters?.officerId) whereConditions.officerId = filters.officerId;
             if (filters?.violationTypeId) whereConditions.violationTypeId = filters.violationTypeId;
 
-            const violations = await Violation.findAll({
-                where: whereConditions,
-                include: [
-                    {
-                        model: ViolationType,
-                        as: 'violationType',
-                        attributes: ['title', 'code']
-                    },
-                    {
-                        model: User,
-                        as: 'officer',
-                        attributes: ['fullName', 'employeeId']
-                    }
-                ]
-            });
+            // Reports cover exact times and court outcomes, so they aggregate the violations table rather than the daily rollup
+            const [byStatus, byState, byOfficer, byType, byCourtOutcome] = await Promise.all([
+                this.sumViolationsBy(whereConditions, 'status'),
+                this.sumViolationsBy(whereConditions, 'locationState'),
+                this.sumViolationsBy(whereConditions, 'officerId'),
+                this.sumViolationsBy(whereConditions, 'violationTypeId'),
+                this.sumCourtOutcomes(whereConditions)
+            ]);
+
+            const [officers, typeTitles] = await Promise.all([
+                User.findAll({
+                    where: { id: { [Op.in]: byOfficer.map(row => row.key) } },
+                    attributes: ['id', 'fullName', 'employeeId']
+                }),
+                this.getViolationTypeTitles(byType.map(row => row.key))
+            ]);
+
+            const officerNames: { [id: number]: string } = {};
+            for (const officer of officers) {
+                officerNames[officer.id] = `${officer.fullName} (${officer.employeeId})`;
+            }
 
             // Calculate summary
-            const totalViolations = violations.length;
-            const totalAmount = violations.reduce((sum, v) => sum + v.fineAmount, 0);
-            const paidAmount = violations
-                .filter(v => v.status === 'paid')
-                .reduce((sum, v) => sum + v.fineAmount, 0);
+            const totalViolations = byStatus.reduce((sum, row) => sum + row.violations, 0);
+            const totalAmount = byStatus.reduce((sum, row) => sum + row.amount, 0);
+            const paidAmount = byStatus.find(row => row.key === 'paid')?.amount || 0;
             const collectionRate = totalAmount > 0 ? (paidAmount / totalAmount) * 100 : 0;
 
-            // Generate breakdowns using the fixed helper method
-            const byState = this.generateBreakdown(violations, 'locationState') as Array<{ state: string; violations: number; amount: number }>;
-            const byOfficer = this.generateBreakdown(violations, 'officer', (v: any) =>
-                `${v.officer?.fullName} (${v.officer?.employeeId})`
-            ) as Array<{ officer: string; violations: number; amount: number }>;
-            const byViolationType = this.generateBreakdown(violations, 'violationType', (v: any) =>
-                v.violationType?.title || 'Unknown'
-            ) as Array<{ type: string; violations: number; amount: number }>;
-            const byStatus = this.generateBreakdown(violations, 'status') as Array<{ status: string; violations: number; amount: number }>;
-
             return {
                 reportMetadata: {
                     type: reportType,
-                    period: `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`,
+                    period: `${StatRollupRefresh.getStatDate(startDate)} to ${StatRollupRefresh.getStatDate(endDate)}`,
                     generatedAt: new Date(),
                     filters: filters || {}
                 },
@@ -848,10 +1178,11 @@ export class ViolationService {
                     collectionRate: Math.round(collectionRate * 100) / 100
                 },
                 breakdowns: {
-                    byState,
-                    byOfficer,
-                    byViolationType,
-                    byStatus
+                    byState: byState.map(row => ({ state: row.key, violations: row.violations, amount: row.amount })),
+                    byOfficer: byOfficer.map(row => ({ officer: officerNames[row.key] || 'Unknown', violations: row.violations, amount: row.amount })),
+                    byViolationType: byType.map(row => ({ type: typeTitles[row.key] || 'Unknown', violations: row.violations, amount: row.amount })),
+                    byStatus: byStatus.map(row => ({ status: row.key, violations: row.violations, amount: row.amount })),
+                    byCourtOutcome: byCourtOutcome.map(row => ({ outcome: row.key, violations: row.violations, amount: row.amount }))
                 }
             };
 
@@ -861,45 +1192,74 @@ export class ViolationService {
         }
     }
 
-    // Helper method for generating breakdowns - FIXED VERSION
-    private static generateBreakdown(
-        violations: Violation[],
-        field: string,
-        valueExtractor?: (violation: any) => string
-    ): any[] {
-        const map: { [key: string]: { violations: number; amount: number } } = {};
-
-        violations.forEach(v => {
-            let key: string;
-            if (valueExtractor) {
-                key = valueExtractor(v);
-            } else {
-                key = (v as any)[field] || 'Unknown';
-            }
+    // Ticket counts and fine totals per value of one violation column, largest first
+    private static async sumViolationsBy(
+        whereConditions: WhereOptions,
+        groupBy: 'status' | 'locationState' | 'officerId' | 'violationTypeId'
+    ): Promise<RollupTotals[]> {
+        const rows = await Violation.findAll({
+            where: whereConditions,
+            attributes: [
+                groupBy,
+                [sequelize.fn('COUNT', sequelize.col('id')), 'violationCount'],
+                [sequelize.fn('SUM', sequelize.col('fine_amount')), 'totalAmount']
+            ],
+            group: [groupBy],
+            order: [[sequelize.literal('violationCount'), 'DESC']],
+            raw: true
+        });
 
-            if (!map[key]) {
-                map[key] = { violations: 0, amount: 0 };
-            }
-            map[key].violations++;
-            map[key].amount += v.fineAmount;
+        return (rows as any[]).map(row => ({
+            key: row[groupBy],
+            violations: parseInt(row.violationCount) || 0,
+            amount: Number(row.totalAmount) || 0
+        }));
+    }
+
+    // Ticket counts and fine totals per court verdict, for tickets that went to court
+    private static async sumCourtOutcomes(whereConditions: WhereOptions): Promise<RollupTotals[]> {
+        const rows = await Violation.findAll({
+            where: whereConditions,
+            include: [{
+                model: CourtCase,
+                as: 'courtCase',
+                attributes: [],
+                required: true
+            }],
+            attributes: [
+                [sequelize.fn('COALESCE', sequelize.col('courtCase.verdict'), 'awaiting_verdict'), 'outcome'],
+                [sequelize.fn('COUNT', sequelize.col('Violation.id')), 'violationCount'],
+                [sequelize.fn('SUM', sequelize.col('Violation.fine_amount')), 'totalAmount']
+            ],
+            group: ['outcome'],
+            order: [[sequelize.literal('violationCount'), 'DESC']],
+            raw: true
         });
 
-        // Return appropriate structure based on field type
-        return Object.entries(map)
-            .map(([key, data]) => {
-                switch (field) {
-                    case 'locationState':
-                        return { state: key, violations: data.violations, amount: data.amount };
-                    case 'officer':
-                        return { officer: key, violations: data.violations, amount: data.amount };
-                    case 'violationType':
-                        return { type: key, violations: data.violations, amount: data.amount };
-                    case 'status':
-                        return { status: key, violations: data.violations, amount: data.amount };
-                    default:
-                        return { [field]: key, violations: data.violations, amount: data.amount };
-                }
-            })
-            .sort((a, b) => b.violations - a.violations);
+        return (rows as any[]).map(row => ({
+            key: row.outcome,
+            violations: parseInt(row.violationCount) || 0,
+            amount: Number(row.totalAmount) || 0
+        }));
+    }
+
+    // Titles of the given violation types, by id
+    private static async getViolationTypeTitles(ids: number[]): Promise<{ [id: number]: string }> {
+        const titles: { [id: number]: string } = {};
+
+        if (ids.length === 0) {
+            return titles;
+        }
+
+        const types = await ViolationType.findAll({
+            where: { id: { [Op.in]: ids } },
+            attributes: ['id', 'title']
+        });
+
+        for (const type of types) {
+            titles[type.id] = type.title;
+        }
+
+        return titles;
     }
 }
\ No newline at end of file
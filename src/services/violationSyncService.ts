@@ -0,0 +1,150 @@
+import { UniqueConstraintError } from 'sequelize';
+import { Violation } from '../models';
+import { ViolationService, ViolationCreateData } from './violationService';
+import { appConfig } from '../config/app';
+import { logger } from '../utils/logger';
+
+export interface OfflineViolationItem extends Omit<ViolationCreateData, 'officerId' | 'violationDate' | 'clientReference' | 'evidenceFiles' | 'capturedAt'> {
+    clientReference: string;
+    recordedAt: Date; // Device clock when the stop was captured
+}
+
+export interface SyncItemResult {
+    clientReference: string;
+    status: 'created' | 'duplicate' | 'failed';
+    violations?: Array<{
+        id: number;
+        ticketNumber: string;
+        violationTypeId: number;
+        fineAmount: number;
+        violationDate: Date;
+        status: string;
+    }>;
+    error?: string;
+}
+
+// Tolerate small device clock drift ahead of the server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const summarise = (violation: Violation) => ({
+    id: violation.id,
+    ticketNumber: violation.ticketNumber,
+    violationTypeId: violation.violationTypeId,
+    fineAmount: Number(violation.fineAmount),
+    violationDate: violation.violationDate,
+    status: violation.status
+});
+
+export class ViolationSyncService {
+    // Create the tickets captured offline; safe to resend as items already synced are reported as duplicates
+    static async syncBatch(items: OfflineViolationItem[], officerId: number): Promise<{
+        results: SyncItemResult[];
+        summary: { created: number; duplicate: number; failed: number };
+    }> {
+        const results: SyncItemResult[] = [];
+
+        // Items are processed in capture order so repeat-offence fines escalate as they would have online
+        const ordered = [...items].sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+
+        for (const item of ordered) {
+            results.push(await this.syncItem(item, officerId));
+        }
+
+        const summary = {
+            created: results.filter(r => r.status === 'created').length,
+            duplicate: results.filter(r => r.status === 'duplicate').length,
+            failed: results.filter(r => r.status === 'failed').length
+        };
+
+        logger.info(`Offline sync by officer ${officerId}: ${summary.created} created, ${summary.duplicate} duplicate, ${summary.failed} failed`);
+
+        // Report in the order the device sent them
+        const byReference = new Map(results.map(result => [result.clientReference, result]));
+
+        return {
+            results: items.map(item => byReference.get(item.clientReference)!),
+            summary
+        };
+    }
+
+    // Sync one stop, returning the tickets already issued for it when it was synced before
+    private static async syncItem(item: OfflineViolationItem, officerId: number): Promise<SyncItemResult> {
+        const { clientReference, recordedAt, ...stop } = item;
+        const violationDate = new Date(recordedAt);
+
+        try {
+            const existing = await this.findSynced(clientReference);
+
+            if (existing) {
+                return existing.officerId === officerId
+                    ? existing.result
+                    : { clientReference, status: 'failed', error: 'Client reference has already been used by another officer' };
+            }
+
+            const now = Date.now();
+
+            if (violationDate.getTime() > now + MAX_CLOCK_SKEW_MS) {
+                return { clientReference, status: 'failed', error: 'Recorded time is in the future; check the device clock' };
+            }
+
+            if (violationDate.getTime() < now - appConfig.offlineSyncMaxAgeDays * DAY_MS) {
+                return { clientReference, status: 'failed', error: `Stops older than ${appConfig.offlineSyncMaxAgeDays} days cannot be synced` };
+            }
+
+            // Photos are uploaded separately once the tickets exist
+            const result = await ViolationService.createViolation({
+                ...stop,
+                officerId,
+                violationDate,
+                clientReference,
+                evidenceFiles: [],
+                capturedAt: undefined
+            });
+
+            return {
+                clientReference,
+                status: 'created',
+                violations: result.violations.map(summarise)
+            };
+
+        } catch (error: any) {
+            // A concurrent retry of the same item got there first
+            if (error instanceof UniqueConstraintError) {
+                const existing = await this.findSynced(clientReference);
+                if (existing && existing.officerId === officerId) {
+                    return existing.result;
+                }
+            }
+
+            logger.error(`Offline sync failed for ${clientReference}:`, error);
+
+            return {
+                clientReference,
+                status: 'failed',
+                error: error.isOperational ? error.message : 'Ticket could not be created'
+            };
+        }
+    }
+
+    // Tickets already issued for a client reference, with the officer who synced them
+    private static async findSynced(clientReference: string): Promise<{ officerId: number; result: SyncItemResult } | null> {
+        const violations = await Violation.findAll({
+            where: { clientReference },
+            order: [['id', 'ASC']]
+        });
+
+        if (violations.length === 0) {
+            return null;
+        }
+
+        return {
+            officerId: violations[0].officerId,
+            result: {
+                clientReference,
+                status: 'duplicate',
+                violations: violations.map(summarise)
+            }
+        };
+    }
+}
\ No newline at end of file
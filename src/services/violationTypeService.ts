@@ -0,0 +1,386 @@
+import { Op, Transaction } from 'sequelize';
+import { ViolationType, FineSchedule, User, sequelize } from '../models';
+import { MeasurementSchema, MeasurementValues, ViolationLiability } from '../models/ViolationType';
+import { FineBand } from '../models/FineSchedule';
+import { createError } from '../middleware/errorHandler';
+import { Measurements } from '../utils/measurements';
+import { logger } from '../utils/logger';
+
+export type ViolationCategory = ViolationType['category'];
+
+export interface ViolationTypeData {
+    code: string;
+    title: string;
+    description: string;
+    category: ViolationCategory;
+    fineAmount: number;
+    points: number;
+    suspensionEligible?: boolean;
+    cautionEligible?: boolean;
+    liability?: ViolationLiability;
+    measurementSchema?: MeasurementSchema | null;
+    bands?: FineBand[];
+    reference?: string;
+}
+
+export interface ViolationTypeUpdateData {
+    title?: string;
+    description?: string;
+    category?: ViolationCategory;
+    suspensionEligible?: boolean;
+    cautionEligible?: boolean;
+    liability?: ViolationLiability;
+    measurementSchema?: MeasurementSchema | null;
+}
+
+export interface FineScheduleData {
+    fineAmount: number;
+    points: number;
+    effectiveFrom?: Date;
+    bands?: FineBand[];
+    reference?: string;
+}
+
+export interface FineRate {
+    fineAmount: number;
+    points: number;
+    fineScheduleId: number | null;
+    band: FineBand | null;
+}
+
+// Allowance for the admin's clock when a schedule is meant to take effect immediately
+const EFFECTIVE_FROM_TOLERANCE_MS = 5 * 60 * 1000;
+
+export class ViolationTypeService {
+    // List offence codes with the rate currently in force
+    static async getViolationTypes(query: { category?: ViolationCategory; includeInactive?: boolean }): Promise<ViolationType[]> {
+        const whereConditions: any = {};
+
+        if (query.category) whereConditions.category = query.category;
+        if (!query.includeInactive) whereConditions.isActive = true;
+
+        const violationTypes = await ViolationType.findAll({
+            where: whereConditions,
+            order: [['category', 'ASC'], ['code', 'ASC']]
+        });
+
+        const now = new Date();
+
+        for (const violationType of violationTypes) {
+            violationType.setDataValue('currentRate' as any, await this.getRate(violationType, now));
+        }
+
+        return violationTypes;
+    }
+
+    // Get an offence code with its full fine history
+    static async getViolationTypeById(id: number): Promise<ViolationType> {
+        const violationType = await ViolationType.findByPk(id, {
+            include: [{
+                model: FineSchedule,
+                as: 'fineSchedules',
+                include: [{
+                    model: User,
+                    as: 'creator',
+                    attributes: ['fullName', 'employeeId']
+                }]
+            }],
+            order: [[{ model: FineSchedule, as: 'fineSchedules' }, 'effectiveFrom', 'DESC']]
+        });
+
+        if (!violationType) {
+            throw createError('Violation type not found', 404);
+        }
+
+        violationType.setDataValue('currentRate' as any, await this.getRate(violationType, new Date()));
+
+        return violationType;
+    }
+
+    // Create an offence code with its opening fine schedule
+    static async createViolationType(data: ViolationTypeData, createdBy: number): Promise<ViolationType> {
+        const code = data.code.trim().toUpperCase();
+
+        this.assertValidPricing(data.measurementSchema, data.bands);
+
+        const transaction = await sequelize.transaction();
+        let violationType: ViolationType;
+
+        try {
+            const existingType = await ViolationType.findOne({ where: { code }, transaction });
+
+            if (existingType) {
+                throw createError(`Violation code ${code} already exists`, 409);
+            }
+
+            violationType = await ViolationType.create({
+                code,
+                title: data.title,
+                description: data.description,
+                category: data.category,
+                fineAmount: data.fineAmount,
+                points: data.points,
+                suspensionEligible: data.suspensionEligible,
+                cautionEligible: data.cautionEligible,
+                liability: data.liability,
+                measurementSchema: data.measurementSchema || null
+            }, { transaction });
+
+            await FineSchedule.create({
+                violationTypeId: violationType.id,
+                fineAmount: data.fineAmount,
+                points: data.points,
+                effectiveFrom: violationType.createdAt,
+                bands: data.bands?.length ? data.bands : null,
+                reference: data.reference,
+                createdBy
+            }, { transaction });
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Violation type creation failed:', error);
+            throw error;
+        }
+
+        logger.info(`Violation type ${violationType.code} created at ₦${data.fineAmount}/${data.points} point(s) by user ${createdBy}`);
+
+        return this.getViolationTypeById(violationType.id);
+    }
+
+    // Update the descriptive fields; the code is fixed and fines change through schedules
+    static async updateViolationType(id: number, data: ViolationTypeUpdateData, updatedBy: number): Promise<ViolationType> {
+        const violationType = await ViolationType.findByPk(id);
+
+        if (!violationType) {
+            throw createError('Violation type not found', 404);
+        }
+
+        if (data.title !== undefined) violationType.title = data.title;
+        if (data.description !== undefined) violationType.description = data.description;
+        if (data.category !== undefined) violationType.category = data.category;
+        if (data.suspensionEligible !== undefined) violationType.suspensionEligible = data.suspensionEligible;
+        if (data.cautionEligible !== undefined) violationType.cautionEligible = data.cautionEligible;
+        if (data.liability !== undefined) violationType.liability = data.liability;
+
+        // Tickets keep the values they were recorded with; the new schema applies to tickets issued from now
+        if (data.measurementSchema !== undefined) {
+            this.assertValidPricing(data.measurementSchema);
+
+            // Bands still in force or scheduled must keep a basis to match against
+            const currentSchedules = await FineSchedule.findAll({
+                where: {
+                    violationTypeId: id,
+                    [Op.or]: [
+                        { effectiveTo: null },
+                        { effectiveTo: { [Op.gt]: new Date() } }
+                    ]
+                }
+            });
+
+            for (const schedule of currentSchedules) {
+                this.assertValidPricing(data.measurementSchema, schedule.bands || []);
+            }
+
+            violationType.measurementSchema = data.measurementSchema;
+        }
+
+        await violationType.save();
+
+        logger.info(`Violation type ${violationType.code} updated by user ${updatedBy}`);
+
+        return this.getViolationTypeById(id);
+    }
+
+    // Activate or deactivate an offence code; inactive codes cannot be booked but existing tickets keep them
+    static async setActive(id: number, isActive: boolean, updatedBy: number): Promise<ViolationType> {
+        const violationType = await ViolationType.findByPk(id);
+
+        if (!violationType) {
+            throw createError('Violation type not found', 404);
+        }
+
+        if (violationType.isActive === isActive) {
+            throw createError(`Violation type ${violationType.code} is already ${isActive ? 'active' : 'inactive'}`, 400);
+        }
+
+        violationType.isActive = isActive;
+        await violationType.save();
+
+        logger.info(`Violation type ${violationType.code} ${isActive ? 'activated' : 'deactivated'} by user ${updatedBy}`);
+
+        return this.getViolationTypeById(id);
+    }
+
+    // Schedule a new fine and points; the previous schedule ends when this one starts
+    static async addFineSchedule(id: number, data: FineScheduleData, createdBy: number): Promise<ViolationType> {
+        const now = new Date();
+        const effectiveFrom = data.effectiveFrom || now;
+
+        // Tickets already issued keep the fine they were issued with, so schedules cannot be backdated
+        if (effectiveFrom.getTime() < now.getTime() - EFFECTIVE_FROM_TOLERANCE_MS) {
+            throw createError('Effective date cannot be in the past', 400);
+        }
+
+        const transaction = await sequelize.transaction();
+        let violationType: ViolationType | null;
+
+        try {
+            violationType = await ViolationType.findByPk(id, { transaction, lock: Transaction.LOCK.UPDATE });
+
+            if (!violationType) {
+                throw createError('Violation type not found', 404);
+            }
+
+            this.assertValidPricing(violationType.measurementSchema, data.bands);
+
+            let latest = await FineSchedule.findOne({
+                where: { violationTypeId: id },
+                order: [['effectiveFrom', 'DESC']],
+                transaction
+            });
+
+            // Codes seeded before schedules existed get their original rate recorded first
+            if (!latest) {
+                latest = await FineSchedule.create({
+                    violationTypeId: id,
+                    fineAmount: violationType.fineAmount,
+                    points: violationType.points,
+                    effectiveFrom: violationType.createdAt,
+                    reference: 'Rate in force before fine schedules were recorded'
+                }, { transaction });
+            }
+
+            if (effectiveFrom <= new Date(latest.effectiveFrom)) {
+                throw createError(`Effective date must be after the latest schedule, which starts ${new Date(latest.effectiveFrom).toISOString()}`, 400);
+            }
+
+            latest.effectiveTo = effectiveFrom;
+            await latest.save({ transaction });
+
+            await FineSchedule.create({
+                violationTypeId: id,
+                fineAmount: data.fineAmount,
+                points: data.points,
+                effectiveFrom,
+                bands: data.bands?.length ? data.bands : null,
+                reference: data.reference,
+                createdBy
+            }, { transaction });
+
+            // The type's own fine and points mirror the rate in force for listings
+            if (effectiveFrom <= now) {
+                violationType.fineAmount = data.fineAmount;
+                violationType.points = data.points;
+                await violationType.save({ transaction });
+            }
+
+            await transaction.commit();
+
+        } catch (error) {
+            await transaction.rollback();
+            logger.error('Fine schedule update failed:', error);
+            throw error;
+        }
+
+        logger.info(`Fine for ${violationType.code} set to ₦${data.fineAmount}/${data.points} point(s) from ${effectiveFrom.toISOString()} by user ${createdBy}`);
+
+        return this.getViolationTypeById(id);
+    }
+
+    // Fine and points in force for an offence at a given time; a band matching the measured values overrides the base rate
+    static async getRate(
+        violationType: ViolationType,
+        at: Date,
+        transaction?: Transaction,
+        measurements?: MeasurementValues | null
+    ): Promise<FineRate> {
+        const schedule = await FineSchedule.findOne({
+            where: {
+                violationTypeId: violationType.id,
+                effectiveFrom: { [Op.lte]: at },
+                [Op.or]: [
+                    { effectiveTo: null },
+                    { effectiveTo: { [Op.gt]: at } }
+                ]
+            },
+            order: [['effectiveFrom', 'DESC']],
+            transaction
+        });
+
+        // Codes without a schedule still carry the rate they were seeded with
+        if (!schedule) {
+            return {
+                fineAmount: Number(violationType.fineAmount),
+                points: violationType.points,
+                fineScheduleId: null,
+                band: null
+            };
+        }
+
+        const bandValue = Measurements.getBandValue(violationType.measurementSchema, measurements);
+        const band = bandValue !== null ? schedule.findBand(bandValue) : null;
+
+        return {
+            fineAmount: Number(band ? band.fineAmount : schedule.fineAmount),
+            points: band ? band.points : schedule.points,
+            fineScheduleId: schedule.id,
+            band
+        };
+    }
+
+    // Copy schedules that have taken effect onto their offence codes, so future-dated rates reach the type's own fine and points
+    static async syncEffectiveRates(asOf: Date = new Date()): Promise<{ typesUpdated: number }> {
+        const schedules = await FineSchedule.findAll({
+            where: {
+                effectiveFrom: { [Op.lte]: asOf },
+                [Op.or]: [
+                    { effectiveTo: null },
+                    { effectiveTo: { [Op.gt]: asOf } }
+                ]
+            },
+            include: [{
+                model: ViolationType,
+                as: 'violationType'
+            }]
+        });
+
+        let typesUpdated = 0;
+
+        for (const schedule of schedules) {
+            const violationType: ViolationType | undefined = (schedule as any).violationType;
+
+            if (!violationType || (Number(violationType.fineAmount) === Number(schedule.fineAmount) && violationType.points === schedule.points)) {
+                continue;
+            }
+
+            try {
+                violationType.fineAmount = schedule.fineAmount;
+                violationType.points = schedule.points;
+                await violationType.save();
+                typesUpdated++;
+
+                logger.info(`Fine for ${violationType.code} now ₦${schedule.fineAmount}/${schedule.points} point(s) under schedule ${schedule.id}`);
+            } catch (error) {
+                logger.error(`Fine schedule sync failed for violation type ${violationType.id}:`, error);
+            }
+        }
+
+        logger.info(`Fine schedule sync completed: ${typesUpdated} violation type(s) updated`);
+
+        return { typesUpdated };
+    }
+
+    // Reject a schema or set of fine bands that cannot be used to price tickets
+    private static assertValidPricing(schema: MeasurementSchema | null | undefined, bands: FineBand[] = []): void {
+        const errors = [
+            ...(schema ? Measurements.validateSchema(schema) : []),
+            ...Measurements.validateBands(schema, bands)
+        ];
+
+        if (errors.length > 0) {
+            throw createError(errors.join('; '), 400);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+// Turns free text typed by a supervisor into a MySQL boolean-mode FULLTEXT query
+// and cuts highlighted snippets out of the columns it matched
+
+// Characters with a meaning in boolean mode; users get plain words and "quoted phrases" only
+const OPERATOR_PATTERN = /[+\-<>()~*"@]+/g;
+const MAX_TERMS = 10;
+const SNIPPET_RADIUS = 60;
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class FullTextSearch {
+  // Split the text into phrases (kept together when quoted) and single words
+  static parseTerms(text: string): string[] {
+    const terms: string[] = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null && terms.length < MAX_TERMS) {
+      const term = (match[1] ?? match[2]).replace(OPERATOR_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+      if (term && !terms.includes(term.toLowerCase())) {
+        terms.push(term.toLowerCase());
+      }
+    }
+
+    return terms;
+  }
+
+  // Phrases must match as written; words also match longer words they start ("toll" finds "tollgate")
+  static toBooleanQuery(terms: string[]): string {
+    return terms.map(term => term.includes(' ') ? `"${term}"` : `${term}*`).join(' ');
+  }
+
+  // Window of text around the first match with every match wrapped in <mark>; the text is HTML-escaped
+  static snippet(text: string | null | undefined, terms: string[]): string | null {
+    if (!text || terms.length === 0) {
+      return null;
+    }
+
+    const pattern = new RegExp(
+      terms.map(term => term.includes(' ')
+        ? term.split(' ').map(escapeRegExp).join('\\s+')
+        : `\\b${escapeRegExp(term)}\\w*`
+      ).join('|'),
+      'gi'
+    );
+
+    const first = pattern.exec(text);
+
+    if (!first) {
+      return null;
+    }
+
+    let start = Math.max(0, first.index - SNIPPET_RADIUS);
+    let end = Math.min(text.length, first.index + first[0].length + SNIPPET_RADIUS);
+
+    // Don't cut words in half at either edge
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      if (space !== -1 && space < first.index) start = space + 1;
+    }
+
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      if (space > first.index + first[0].length) end = space;
+    }
+
+    const window = text.slice(start, end);
+    let highlighted = '';
+    let last = 0;
+
+    // matchAll starts from where exec left off
+    pattern.lastIndex = 0;
+
+    for (const match of window.matchAll(pattern)) {
+      highlighted += escapeHtml(window.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+      last = match.index! + match[0].length;
+    }
+
+    highlighted += escapeHtml(window.slice(last));
+
+    return `${start > 0 ? '…' : ''}${highlighted}${end < text.length ? '…' : ''}`;
+  }
+}
\ No newline at end of file
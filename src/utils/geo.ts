@@ -0,0 +1,14 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance between two points (haversine)
+export const distanceInMeters = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
\ No newline at end of file
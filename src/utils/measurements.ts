@@ -0,0 +1,206 @@
+// Checks measured values (speed, axle weight, breathalyser reading...) against the schema
+// a violation type declares, and works out the value its fine bands are matched against
+
+import { MeasurementSchema, MeasurementValues, MeasurementFieldType } from '../models/ViolationType';
+import { FineBand } from '../models/FineSchedule';
+
+const FIELD_TYPES: MeasurementFieldType[] = ['number', 'integer', 'string', 'boolean'];
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,39}$/;
+const MAX_FIELDS = 10;
+const MAX_BANDS = 10;
+
+export class Measurements {
+  // Check a schema an admin submits for a violation type
+  static validateSchema(schema: MeasurementSchema): string[] {
+    const errors: string[] = [];
+
+    if (!schema || !Array.isArray(schema.fields) || schema.fields.length === 0) {
+      return ['Measurement schema must declare at least one field'];
+    }
+
+    if (schema.fields.length > MAX_FIELDS) {
+      errors.push(`Measurement schema cannot declare more than ${MAX_FIELDS} fields`);
+    }
+
+    const keys = new Set<string>();
+
+    for (const field of schema.fields) {
+      if (!field || typeof field.key !== 'string' || !KEY_PATTERN.test(field.key)) {
+        errors.push('Field keys must start with a letter and contain only letters, digits and underscores');
+        continue;
+      }
+
+      if (keys.has(field.key)) {
+        errors.push(`Field ${field.key} is declared more than once`);
+      }
+      keys.add(field.key);
+
+      if (typeof field.label !== 'string' || field.label.trim().length === 0) {
+        errors.push(`Field ${field.key} needs a label`);
+      }
+
+      if (!FIELD_TYPES.includes(field.type)) {
+        errors.push(`Field ${field.key} must have a type of ${FIELD_TYPES.join(', ')}`);
+      }
+
+      const numeric = field.type === 'number' || field.type === 'integer';
+
+      if ((field.min !== undefined || field.max !== undefined) && !numeric) {
+        errors.push(`Field ${field.key} can only have min and max when numeric`);
+      }
+
+      if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+        errors.push(`Field ${field.key} has min greater than max`);
+      }
+
+      if (field.options !== undefined && (field.type !== 'string' || !Array.isArray(field.options) || field.options.length === 0)) {
+        errors.push(`Field ${field.key} can only list options when it is a string field`);
+      }
+    }
+
+    if (schema.bandBasis) {
+      if (typeof schema.bandBasis.field !== 'string') {
+        errors.push('Band basis must name the field bands are matched against');
+      }
+
+      for (const key of [schema.bandBasis.field, schema.bandBasis.subtract]) {
+        if (key === undefined) continue;
+
+        const field = schema.fields.find(f => f.key === key);
+
+        if (!field || (field.type !== 'number' && field.type !== 'integer') || !field.required) {
+          errors.push(`Band basis field ${key} must be a required numeric field`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  // Check fine bands against the schema of the type they price
+  static validateBands(schema: MeasurementSchema | null | undefined, bands: FineBand[]): string[] {
+    if (bands.length === 0) {
+      return [];
+    }
+
+    if (!schema?.bandBasis) {
+      return ['Fine bands need a violation type whose measurement schema declares a band basis'];
+    }
+
+    if (bands.length > MAX_BANDS) {
+      return [`No more than ${MAX_BANDS} fine bands can be set`];
+    }
+
+    const errors: string[] = [];
+    const sorted = [...bands].sort((a, b) => a.from - b.from);
+
+    sorted.forEach((band, index) => {
+      const to = band.to ?? null;
+
+      if (to !== null && to <= band.from) {
+        errors.push(`Band starting at ${band.from} must end above where it starts`);
+      }
+
+      const next = sorted[index + 1];
+
+      if (next && (to === null || to > next.from)) {
+        errors.push(`Band starting at ${band.from} overlaps the band starting at ${next.from}`);
+      }
+    });
+
+    return errors;
+  }
+
+  // Check and coerce the values recorded for one violation; multipart forms send everything as strings
+  static validateValues(schema: MeasurementSchema | null | undefined, input: any): { values: MeasurementValues | null; errors: string[] } {
+    if (!schema || schema.fields.length === 0) {
+      return input === undefined || input === null || (typeof input === 'object' && Object.keys(input).length === 0)
+        ? { values: null, errors: [] }
+        : { values: null, errors: ['This violation type does not take measurements'] };
+    }
+
+    if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+      return { values: null, errors: ['Measurements must be an object of field values'] };
+    }
+
+    const raw = input || {};
+    const values: MeasurementValues = {};
+    const errors: string[] = [];
+
+    const unknown = Object.keys(raw).filter(key => !schema.fields.some(field => field.key === key));
+
+    if (unknown.length > 0) {
+      errors.push(`Unknown measurement(s): ${unknown.join(', ')}`);
+    }
+
+    for (const field of schema.fields) {
+      const value = raw[field.key];
+
+      if (value === undefined || value === null || value === '') {
+        if (field.required) {
+          errors.push(`${field.label} is required`);
+        }
+        continue;
+      }
+
+      const unit = field.unit ? ` ${field.unit}` : '';
+
+      switch (field.type) {
+        case 'number':
+        case 'integer': {
+          const number = typeof value === 'number' ? value : Number(value);
+
+          if (typeof value === 'boolean' || !Number.isFinite(number) || (field.type === 'integer' && !Number.isInteger(number))) {
+            errors.push(`${field.label} must be ${field.type === 'integer' ? 'a whole number' : 'a number'}`);
+          } else if (field.min !== undefined && number < field.min) {
+            errors.push(`${field.label} must be at least ${field.min}${unit}`);
+          } else if (field.max !== undefined && number > field.max) {
+            errors.push(`${field.label} cannot exceed ${field.max}${unit}`);
+          } else {
+            values[field.key] = number;
+          }
+          break;
+        }
+
+        case 'boolean':
+          if (value === true || value === 'true') {
+            values[field.key] = true;
+          } else if (value === false || value === 'false') {
+            values[field.key] = false;
+          } else {
+            errors.push(`${field.label} must be true or false`);
+          }
+          break;
+
+        default:
+          if (typeof value !== 'string' || value.length > 255) {
+            errors.push(`${field.label} must be text of at most 255 characters`);
+          } else if (field.options && !field.options.includes(value)) {
+            errors.push(`${field.label} must be one of: ${field.options.join(', ')}`);
+          } else {
+            values[field.key] = value.trim();
+          }
+      }
+    }
+
+    return { values: errors.length > 0 ? null : values, errors };
+  }
+
+  // Value the fine bands are matched against, or null when the schema has no basis or the values are missing
+  static getBandValue(schema: MeasurementSchema | null | undefined, values: MeasurementValues | null | undefined): number | null {
+    const basis = schema?.bandBasis;
+
+    if (!basis || !values) {
+      return null;
+    }
+
+    const measured = values[basis.field];
+    const subtracted = basis.subtract !== undefined ? values[basis.subtract] : 0;
+
+    if (typeof measured !== 'number' || typeof subtracted !== 'number') {
+      return null;
+    }
+
+    return Math.round((measured - subtracted) * 1000) / 1000;
+  }
+}
\ No newline at end of file
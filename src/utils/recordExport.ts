@@ -0,0 +1,133 @@
+// Streams search results to the client as CSV or NDJSON, reading the table a batch at a time
+// in id order so an export of any size holds at most one batch in memory
+
+import { once } from 'events';
+import { Response } from 'express';
+import { logger } from './logger';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+}
+
+export interface RecordExportSource<T> {
+  columns: ExportColumn<T>[];
+  rows: AsyncIterable<T>;
+}
+
+const EXPORT_BATCH_SIZE = 1000;
+const FLUSH_BYTES = 64 * 1024;
+
+const CONTENT_TYPES: { [format in ExportFormat]: string } = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export class RecordExport {
+  // Keyset pagination: each batch starts after the last id of the previous one, so late pages cost the same as early ones
+  static async *inBatches<T extends { id: number }>(
+    fetchAfter: (lastId: number, limit: number) => Promise<T[]>,
+    batchSize: number = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<T> {
+    let lastId = 0;
+
+    for (;;) {
+      const batch = await fetchAfter(lastId, batchSize);
+
+      yield* batch;
+
+      if (batch.length < batchSize) {
+        return;
+      }
+
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  // Quote a CSV cell; cells a spreadsheet would read as a formula are prefixed so they stay text
+  static csvCell(value: string | number | boolean | Date | null | undefined): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Write every row to the response, pausing whenever the client falls behind; returns the number of rows sent
+  static async stream<T>(
+    res: Response,
+    options: RecordExportSource<T> & { format: ExportFormat; fileName: string }
+  ): Promise<number> {
+    const { format, fileName, columns, rows } = options;
+    let buffer = '';
+    let count = 0;
+
+    const flush = async () => {
+      if (buffer && !res.write(buffer)) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      }
+      buffer = '';
+    };
+
+    res.status(200);
+    res.setHeader('Content-Type', CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      buffer = columns.map(column => this.csvCell(column.header)).join(',') + '\r\n';
+    }
+
+    try {
+      for await (const row of rows) {
+        // Stop querying once the client has gone away
+        if (res.destroyed) {
+          logger.warn(`Export ${fileName} abandoned by the client after ${count} row(s)`);
+          return count;
+        }
+
+        if (format === 'csv') {
+          buffer += columns.map(column => this.csvCell(column.value(row))).join(',') + '\r\n';
+        } else {
+          const record: { [header: string]: any } = {};
+          for (const column of columns) {
+            record[column.header] = column.value(row) ?? null;
+          }
+          buffer += JSON.stringify(record) + '\n';
+        }
+
+        count++;
+
+        if (buffer.length >= FLUSH_BYTES) {
+          await flush();
+        }
+      }
+
+      await flush();
+      res.end();
+
+    } catch (error) {
+      // Once rows have gone out the status can't change; cutting the connection tells the client the file is incomplete
+      if (!res.headersSent) {
+        // Nothing has been written yet, so drop the download headers and let the error handler answer with JSON
+        res.removeHeader('Content-Type');
+        res.removeHeader('Content-Disposition');
+        res.removeHeader('Cache-Control');
+        throw error;
+      }
+
+      logger.error(`Export ${fileName} failed after ${count} row(s):`, error);
+      res.destroy();
+    }
+
+    return count;
+  }
+}
\ No newline at end of file
@@ -1,6 +1,26 @@
-import { User, ViolationType, VehicleOwner } from '../models';
+import { User, ViolationType, VehicleOwner, PenaltyRule, FineEscalationRule, FineSchedule } from '../models';
+import { MeasurementSchema } from '../models/ViolationType';
 import { logger } from './logger';
 
+// Speed is matched to fine bands by how far it exceeds the limit
+const SPEED_MEASUREMENTS: MeasurementSchema = {
+  fields: [
+    { key: 'recordedSpeed', label: 'Recorded speed', type: 'integer', unit: 'km/h', required: true, min: 1, max: 300 },
+    { key: 'speedLimit', label: 'Speed limit', type: 'integer', unit: 'km/h', required: true, min: 5, max: 150 },
+    { key: 'device', label: 'Measuring device', type: 'string', options: ['radar', 'laser', 'camera', 'pacing'] },
+  ],
+  bandBasis: { field: 'recordedSpeed', subtract: 'speedLimit' },
+};
+
+const LOAD_MEASUREMENTS: MeasurementSchema = {
+  fields: [
+    { key: 'measuredLoadKg', label: 'Measured axle load', type: 'number', unit: 'kg', required: true, min: 0 },
+    { key: 'permittedLoadKg', label: 'Permitted axle load', type: 'number', unit: 'kg', required: true, min: 1 },
+    { key: 'excessPassengers', label: 'Excess passengers', type: 'integer', min: 0, max: 100 },
+  ],
+  bandBasis: { field: 'measuredLoadKg', subtract: 'permittedLoadKg' },
+};
+
 // Seed violation types (Nigerian traffic offenses)
 export const seedViolationTypes = async () => {
   const violationTypes = [
@@ -13,6 +33,8 @@ export const seedViolationTypes = async () => {
       points: 1,
       category: 'equipment' as const,
       suspensionEligible: false,
+      cautionEligible: true,
+      liability: 'vehicle' as const,
     },
     {
       code: 'EQ002',
@@ -22,6 +44,8 @@ export const seedViolationTypes = async () => {
       points: 1,
       category: 'equipment' as const,
       suspensionEligible: false,
+      cautionEligible: true,
+      liability: 'vehicle' as const,
     },
     {
       code: 'EQ003',
@@ -31,6 +55,8 @@ export const seedViolationTypes = async () => {
       points: 1,
       category: 'equipment' as const,
       suspensionEligible: false,
+      cautionEligible: true,
+      liability: 'vehicle' as const,
     },
     {
       code: 'EQ004',
@@ -40,6 +66,8 @@ export const seedViolationTypes = async () => {
       points: 1,
       category: 'equipment' as const,
       suspensionEligible: false,
+      cautionEligible: true,
+      liability: 'vehicle' as const,
     },
 
     // Documentation Violations
@@ -60,6 +88,7 @@ export const seedViolationTypes = async () => {
       points: 2,
       category: 'documentation' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
     },
     {
       code: 'DOC003',
@@ -69,6 +98,7 @@ export const seedViolationTypes = async () => {
       points: 2,
       category: 'documentation' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
     },
     {
       code: 'DOC004',
@@ -78,6 +108,7 @@ export const seedViolationTypes = async () => {
       points: 2,
       category: 'documentation' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
     },
 
     // Traffic Violations
@@ -89,6 +120,7 @@ export const seedViolationTypes = async () => {
       points: 4,
       category: 'traffic' as const,
       suspensionEligible: true,
+      measurementSchema: SPEED_MEASUREMENTS,
     },
     {
       code: 'TRF002',
@@ -156,6 +188,7 @@ export const seedViolationTypes = async () => {
       points: 1,
       category: 'vehicle_condition' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
     },
     {
       code: 'VEH002',
@@ -165,6 +198,8 @@ export const seedViolationTypes = async () => {
       points: 2,
       category: 'vehicle_condition' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
+      measurementSchema: LOAD_MEASUREMENTS,
     },
     {
       code: 'VEH003',
@@ -174,6 +209,7 @@ export const seedViolationTypes = async () => {
       points: 2,
       category: 'vehicle_condition' as const,
       suspensionEligible: false,
+      liability: 'vehicle' as const,
     },
   ];
 
@@ -191,6 +227,86 @@ export const seedViolationTypes = async () => {
   }
 };
 
+// Seed default overdue surcharge: 10% of the fine every 30 days, capped at half the fine
+export const seedPenaltyRules = async () => {
+  try {
+    const violationTypes = await ViolationType.findAll();
+
+    for (const violationType of violationTypes) {
+      await PenaltyRule.findOrCreate({
+        where: { violationTypeId: violationType.id },
+        defaults: {
+          violationTypeId: violationType.id,
+          ruleType: 'percentage',
+          amount: 10,
+          intervalDays: 30,
+          maxAmount: Number(violationType.fineAmount) * 0.5,
+        },
+      });
+    }
+    logger.info('Penalty rules seeded successfully');
+  } catch (error) {
+    logger.error('Error seeding penalty rules:', error);
+    throw error;
+  }
+};
+
+// Seed default repeat-offender escalation schedule
+export const seedFineEscalationRules = async () => {
+  try {
+    const defaults = [
+      { offenceNumber: 2, multiplier: 1.5 },
+      { offenceNumber: 3, multiplier: 2 },
+    ];
+
+    for (const rule of defaults) {
+      await FineEscalationRule.findOrCreate({
+        where: { violationTypeId: null, offenceNumber: rule.offenceNumber },
+        defaults: rule,
+      });
+    }
+    logger.info('Fine escalation rules seeded successfully');
+  } catch (error) {
+    logger.error('Error seeding fine escalation rules:', error);
+    throw error;
+  }
+};
+
+// Seed opening fine schedules; speeding is priced by how far over the limit the vehicle was
+export const seedFineSchedules = async () => {
+  const bands: { [code: string]: Array<{ from: number; to?: number | null; fineAmount: number; points: number }> } = {
+    TRF001: [
+      { from: 20, to: 40, fineAmount: 35000, points: 6 },
+      { from: 40, to: null, fineAmount: 50000, points: 8 },
+    ],
+    VEH002: [
+      { from: 2000, to: null, fineAmount: 25000, points: 4 },
+    ],
+  };
+
+  try {
+    const violationTypes = await ViolationType.findAll();
+
+    for (const violationType of violationTypes) {
+      await FineSchedule.findOrCreate({
+        where: { violationTypeId: violationType.id },
+        defaults: {
+          violationTypeId: violationType.id,
+          fineAmount: violationType.fineAmount,
+          points: violationType.points,
+          effectiveFrom: violationType.createdAt,
+          bands: bands[violationType.code] || null,
+          reference: 'Opening schedule',
+        },
+      });
+    }
+    logger.info('Fine schedules seeded successfully');
+  } catch (error) {
+    logger.error('Error seeding fine schedules:', error);
+    throw error;
+  }
+};
+
 // Seed admin user
 export const seedAdminUser = async () => {
   try {
@@ -376,6 +492,9 @@ export const runSeeders = async () => {
     logger.info('Starting database seeding...');
     
     await seedViolationTypes();
+    await seedPenaltyRules();
+    await seedFineEscalationRules();
+    await seedFineSchedules();
     await seedAdminUser();
     await seedSampleOfficers();
     await seedSampleVehicles();
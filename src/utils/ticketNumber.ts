@@ -0,0 +1,136 @@
+// Ticket numbers look like LA-SW-25-0000123-58: state, geopolitical zone, two-digit year,
+// per-state yearly sequence and ISO 7064 MOD 97-10 check digits over everything before them
+
+export interface ParsedTicketNumber {
+  stateCode: string;
+  zoneCode: string;
+  year: number;
+  sequence: number;
+  checkDigits: string;
+}
+
+// ISO 3166-2:NG state codes grouped by geopolitical zone
+const STATE_ZONES: { [zoneCode: string]: string[] } = {
+  NC: ['BE', 'FC', 'KO', 'KW', 'NA', 'NI', 'PL'],
+  NE: ['AD', 'BA', 'BO', 'GO', 'TA', 'YO'],
+  NW: ['JI', 'KD', 'KE', 'KN', 'KT', 'SO', 'ZA'],
+  SE: ['AB', 'AN', 'EB', 'EN', 'IM'],
+  SS: ['AK', 'BY', 'CR', 'DE', 'ED', 'RI'],
+  SW: ['EK', 'LA', 'OG', 'ON', 'OS', 'OY'],
+};
+
+const STATE_NAMES: { [name: string]: string } = {
+  'abia': 'AB', 'adamawa': 'AD', 'akwa ibom': 'AK', 'anambra': 'AN', 'bauchi': 'BA',
+  'bayelsa': 'BY', 'benue': 'BE', 'borno': 'BO', 'cross river': 'CR', 'delta': 'DE',
+  'ebonyi': 'EB', 'edo': 'ED', 'ekiti': 'EK', 'enugu': 'EN', 'fct': 'FC',
+  'abuja': 'FC', 'federal capital territory': 'FC', 'gombe': 'GO', 'imo': 'IM', 'jigawa': 'JI',
+  'kaduna': 'KD', 'kano': 'KN', 'katsina': 'KT', 'kebbi': 'KE', 'kogi': 'KO',
+  'kwara': 'KW', 'lagos': 'LA', 'nasarawa': 'NA', 'niger': 'NI', 'ogun': 'OG',
+  'ondo': 'ON', 'osun': 'OS', 'oyo': 'OY', 'plateau': 'PL', 'rivers': 'RI',
+  'sokoto': 'SO', 'taraba': 'TA', 'yobe': 'YO', 'zamfara': 'ZA',
+};
+
+const TICKET_PATTERN = /^([A-Z]{2})-?([A-Z]{2})-?(\d{2})-?(\d{7,9})-?(\d{2})$/;
+
+// Tickets issued before the sequence-backed scheme; they carry no check digits
+const LEGACY_PATTERNS = [/^TKT-\d{13}-\d{1,3}$/, /^TK\d{10}$/];
+
+export class TicketNumber {
+  // Map a state name ("Lagos", "Lagos State") or ISO code ("LA") to its code
+  static resolveStateCode(state: string): string | null {
+    if (!state) return null;
+
+    const cleaned = state.trim().toLowerCase().replace(/\s+state$/, '').replace(/\s+/g, ' ');
+    const upper = cleaned.toUpperCase();
+
+    if (STATE_NAMES[cleaned]) {
+      return STATE_NAMES[cleaned];
+    }
+
+    return this.getZoneCode(upper) ? upper : null;
+  }
+
+  // Geopolitical zone for a state code
+  static getZoneCode(stateCode: string): string | null {
+    const zone = Object.keys(STATE_ZONES).find(code => STATE_ZONES[code].includes(stateCode));
+    return zone || null;
+  }
+
+  // Build a ticket number from its parts
+  static format(stateCode: string, year: number, sequence: number): string {
+    const zoneCode = this.getZoneCode(stateCode);
+
+    if (!zoneCode) {
+      throw new Error(`Unknown state code: ${stateCode}`);
+    }
+
+    const yy = (year % 100).toString().padStart(2, '0');
+    const seq = sequence.toString().padStart(7, '0');
+    const checkDigits = this.calculateCheckDigits(`${stateCode}${zoneCode}${yy}${seq}`);
+
+    return `${stateCode}-${zoneCode}-${yy}-${seq}-${checkDigits}`;
+  }
+
+  // Split a ticket number into its parts; accepts missing hyphens and lower case
+  static parse(ticketNumber: string): ParsedTicketNumber | null {
+    const match = ticketNumber.trim().toUpperCase().replace(/\s+/g, '').match(TICKET_PATTERN);
+
+    if (!match) return null;
+
+    const [, stateCode, zoneCode, yy, seq, checkDigits] = match;
+
+    return {
+      stateCode,
+      zoneCode,
+      year: 2000 + parseInt(yy),
+      sequence: parseInt(seq),
+      checkDigits,
+    };
+  }
+
+  // Check a ticket number typed in by a citizen or officer
+  static validate(ticketNumber: string): { isValid: boolean; normalized: string; isLegacy: boolean; error?: string } {
+    const input = (ticketNumber || '').trim().toUpperCase();
+
+    if (LEGACY_PATTERNS.some(pattern => pattern.test(input))) {
+      return { isValid: true, normalized: input, isLegacy: true };
+    }
+
+    const compact = input.replace(/\s+/g, '');
+    const parsed = this.parse(compact);
+
+    if (!parsed) {
+      return { isValid: false, normalized: input, isLegacy: false, error: 'Ticket number format is invalid (expected e.g. LA-SW-25-0000123-58)' };
+    }
+
+    const { stateCode, zoneCode, checkDigits } = parsed;
+    const body = compact.replace(/-/g, '').slice(0, -2);
+    const normalized = `${stateCode}-${zoneCode}-${body.slice(4, 6)}-${body.slice(6)}-${checkDigits}`;
+
+    if (this.getZoneCode(stateCode) !== zoneCode) {
+      return { isValid: false, normalized, isLegacy: false, error: 'Ticket number state and zone do not match' };
+    }
+
+    if (this.calculateCheckDigits(body) !== checkDigits) {
+      return { isValid: false, normalized, isLegacy: false, error: 'Ticket number check digits do not match; please check it for typing errors' };
+    }
+
+    return { isValid: true, normalized, isLegacy: false };
+  }
+
+  // ISO 7064 MOD 97-10, with letters counted as 10-35 as in IBANs
+  static calculateCheckDigits(body: string): string {
+    const numeric = body
+      .toUpperCase()
+      .split('')
+      .map(char => /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char)
+      .join('') + '00';
+
+    let remainder = 0;
+    for (const digit of numeric) {
+      remainder = (remainder * 10 + parseInt(digit)) % 97;
+    }
+
+    return (98 - remainder).toString().padStart(2, '0');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { HotspotService } from '../../src/services/hotspotService';
+
+type Cells = Map<string, { x: number; y: number; count: number }>;
+
+const getisOrdGiStar: (cells: Cells) => Map<string, number> = HotspotService['getisOrdGiStar'].bind(HotspotService);
+
+const grid = (counts: Array<[number, number, number]>): Cells =>
+  new Map(counts.map(([x, y, count]) => [`${x}:${y}`, { x, y, count }]));
+
+describe('Getis-Ord Gi* scoring', () => {
+  it('scores nothing without cells', () => {
+    expect(getisOrdGiStar(new Map()).size).toBe(0);
+  });
+
+  it('scores nothing when the extent is a single cell', () => {
+    expect(getisOrdGiStar(grid([[3, 7, 12]])).size).toBe(0);
+  });
+
+  it('scores nothing when every cell in the extent has the same count', () => {
+    expect(getisOrdGiStar(grid([[0, 0, 4], [0, 1, 4], [1, 0, 4], [1, 1, 4]])).size).toBe(0);
+  });
+
+  it('scores a cluster against the whole extent, counting empty cells as zero', () => {
+    // 5x5 extent: a cluster around (2,2) and two isolated single tickets in opposite corners
+    const scores = getisOrdGiStar(grid([[0, 0, 1], [4, 4, 1], [2, 2, 10], [2, 3, 8], [3, 2, 6]]));
+
+    expect(scores.size).toBe(5);
+    expect(scores.get('2:2')).toBeCloseTo(2.259, 3);
+    expect(scores.get('2:3')).toBeCloseTo(2.259, 3);
+    expect(scores.get('3:2')).toBeCloseTo(2.259, 3);
+    expect(scores.get('0:0')).toBeCloseTo(-0.638, 3);
+    expect(scores.get('4:4')).toBeCloseTo(-0.638, 3);
+  });
+
+  it('leaves neighbours outside the extent out of the weights', () => {
+    // A corner cell of a 3x3 extent weighs itself and three neighbours, not nine cells
+    const scores = getisOrdGiStar(grid([[0, 0, 5], [2, 2, 5], [1, 1, 1]]));
+
+    expect(scores.get('0:0')).toBeCloseTo(0.344, 3);
+    expect(scores.get('2:2')).toBeCloseTo(0.344, 3);
+  });
+
+  it('ranks a dense cluster above an isolated cell of the same count', () => {
+    const scores = getisOrdGiStar(grid([[0, 0, 9], [1, 0, 9], [0, 1, 9], [5, 5, 9]]));
+
+    expect(scores.get('0:0')!).toBeGreaterThan(scores.get('5:5')!);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { RecordExport } from '../../src/utils/recordExport';
+
+describe('RecordExport.csvCell', () => {
+  it('writes empty cells for null and undefined', () => {
+    expect(RecordExport.csvCell(null)).toBe('');
+    expect(RecordExport.csvCell(undefined)).toBe('');
+  });
+
+  it('leaves plain values unquoted', () => {
+    expect(RecordExport.csvCell('LA-SW-25-0000123-58')).toBe('LA-SW-25-0000123-58');
+    expect(RecordExport.csvCell(25000)).toBe('25000');
+    expect(RecordExport.csvCell(false)).toBe('false');
+  });
+
+  it('writes dates as ISO 8601', () => {
+    expect(RecordExport.csvCell(new Date(Date.UTC(2025, 2, 4, 9, 30)))).toBe('2025-03-04T09:30:00.000Z');
+  });
+
+  it('quotes cells containing commas, quotes or line breaks and doubles the quotes', () => {
+    expect(RecordExport.csvCell('Ikeja, Lagos')).toBe('"Ikeja, Lagos"');
+    expect(RecordExport.csvCell('Driver said "no"')).toBe('"Driver said ""no"""');
+    expect(RecordExport.csvCell('line one\nline two')).toBe('"line one\nline two"');
+    expect(RecordExport.csvCell('line one\r\nline two')).toBe('"line one\r\nline two"');
+  });
+
+  it('prefixes text a spreadsheet would read as a formula', () => {
+    expect(RecordExport.csvCell('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(RecordExport.csvCell('+2348012345678')).toBe("'+2348012345678");
+    expect(RecordExport.csvCell('-1+1')).toBe("'-1+1");
+    expect(RecordExport.csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(RecordExport.csvCell('\tcmd')).toBe("'\tcmd");
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    expect(RecordExport.csvCell(-500)).toBe('-500');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import ReportSchedule, { ReportFrequency } from '../../src/models/ReportSchedule';
+import { ReportScheduleService } from '../../src/services/reportScheduleService';
+
+jest.mock('../../src/services/violationService', () => ({ ViolationService: {} }));
+jest.mock('../../src/services/reportExportService', () => ({ ReportExportService: {} }));
+jest.mock('../../src/services/notification/emailService', () => ({ EmailService: {} }));
+
+// Times are given in UTC; the database time zone is West Africa Time (UTC+1)
+const schedule = (frequency: ReportFrequency, timeOfDay: string, day?: number) => ReportSchedule.build({
+  name: 'Test schedule',
+  reportType: 'daily',
+  format: 'csv',
+  recipients: ['reports@example.com'],
+  frequency,
+  timeOfDay,
+  dayOfWeek: frequency === 'weekly' ? day : null,
+  dayOfMonth: frequency === 'monthly' ? day : null,
+  nextRunAt: new Date(),
+  createdBy: 1,
+});
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('ReportSchedule.getNextRunAfter', () => {
+  it('runs a daily schedule later the same day on the WAT clock', () => {
+    expect(schedule('daily', '08:00').getNextRunAfter(utc('2025-03-04T06:00:00'))).toEqual(utc('2025-03-04T07:00:00'));
+  });
+
+  it('moves to the next day once the time has been reached', () => {
+    expect(schedule('daily', '08:00').getNextRunAfter(utc('2025-03-04T07:00:00'))).toEqual(utc('2025-03-05T07:00:00'));
+  });
+
+  it('uses the WAT date when it is already tomorrow in Lagos', () => {
+    // 23:00 UTC on the 4th is midnight on the 5th in WAT
+    expect(schedule('daily', '00:30').getNextRunAfter(utc('2025-03-04T23:00:00'))).toEqual(utc('2025-03-04T23:30:00'));
+  });
+
+  it('runs a weekly schedule on the next matching weekday', () => {
+    // 4 March 2025 is a Tuesday; the schedule runs on Mondays
+    expect(schedule('weekly', '09:00', 1).getNextRunAfter(utc('2025-03-04T10:00:00'))).toEqual(utc('2025-03-10T08:00:00'));
+    expect(schedule('weekly', '09:00', 1).getNextRunAfter(utc('2025-03-10T07:59:00'))).toEqual(utc('2025-03-10T08:00:00'));
+    expect(schedule('weekly', '09:00', 1).getNextRunAfter(utc('2025-03-10T08:00:00'))).toEqual(utc('2025-03-17T08:00:00'));
+  });
+
+  it('runs a monthly schedule on its day of the month', () => {
+    expect(schedule('monthly', '06:00', 28).getNextRunAfter(utc('2025-01-10T00:00:00'))).toEqual(utc('2025-01-28T05:00:00'));
+    expect(schedule('monthly', '06:00', 28).getNextRunAfter(utc('2025-01-28T05:00:00'))).toEqual(utc('2025-02-28T05:00:00'));
+  });
+
+  it('rolls a monthly schedule over the year end on the WAT clock', () => {
+    // 23:00 UTC on 31 December is midnight on 1 January in WAT
+    expect(schedule('monthly', '00:00', 1).getNextRunAfter(utc('2025-12-31T23:00:00'))).toEqual(utc('2026-01-31T23:00:00'));
+  });
+});
+
+describe('ReportScheduleService.getReportPeriod', () => {
+  it('covers the previous WAT day for a daily report', () => {
+    expect(ReportScheduleService.getReportPeriod('daily', utc('2025-03-04T07:00:00'))).toEqual({
+      start: utc('2025-03-02T23:00:00'),
+      end: utc('2025-03-03T23:00:00'),
+    });
+  });
+
+  it('uses the WAT date of a run just after midnight in Lagos', () => {
+    expect(ReportScheduleService.getReportPeriod('daily', utc('2025-03-04T23:30:00'))).toEqual({
+      start: utc('2025-03-03T23:00:00'),
+      end: utc('2025-03-04T23:00:00'),
+    });
+  });
+
+  it('covers the previous seven days for a weekly report', () => {
+    expect(ReportScheduleService.getReportPeriod('weekly', utc('2025-03-10T08:00:00'))).toEqual({
+      start: utc('2025-03-02T23:00:00'),
+      end: utc('2025-03-09T23:00:00'),
+    });
+  });
+
+  it('covers the previous calendar month for a monthly report', () => {
+    const period = {
+      start: utc('2025-01-31T23:00:00'),
+      end: utc('2025-02-28T23:00:00'),
+    };
+
+    expect(ReportScheduleService.getReportPeriod('monthly', utc('2025-03-15T05:00:00'))).toEqual(period);
+    expect(ReportScheduleService.getReportPeriod('monthly', utc('2025-02-28T23:30:00'))).toEqual(period);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import SuspensionPolicy from '../../src/models/SuspensionPolicy';
+import Violation from '../../src/models/Violation';
+import ViolationType from '../../src/models/ViolationType';
+import { SuspensionPolicyService } from '../../src/services/suspensionPolicyService';
+
+jest.mock('../../src/services/notificationService', () => ({ NotificationService: {} }));
+
+const policy = SuspensionPolicy.build({
+  warningPoints: 8,
+  tiers: [
+    { points: 20, durationDays: 180 },
+    { points: 12, durationDays: 30 },
+    { points: 16, durationDays: 90 },
+  ],
+  offenceSuspensionDays: 30,
+  revocationSuspensionCount: 3,
+  revocationWindowMonths: 36,
+});
+
+const ticket = (id: number, violationTypeId: number, points: number) => Violation.build({
+  id,
+  ticketNumber: `LA-SW-25-000000${id}-00`,
+  plateNumber: 'ABC123XY',
+  officerId: 1,
+  violationTypeId,
+  fineAmount: 10000,
+  points,
+  locationState: 'Lagos',
+  isOverturned: false,
+});
+
+const violationType = (id: number, suspensionEligible: boolean) => ViolationType.build({
+  id,
+  code: `VT${id}`,
+  title: 'Test offence',
+  description: 'Test offence',
+  fineAmount: 10000,
+  category: 'traffic',
+  suspensionEligible,
+});
+
+const violationTypes = [violationType(1, false), violationType(2, true)];
+
+const findTriggeringViolation = SuspensionPolicyService['findTriggeringViolation'].bind(SuspensionPolicyService);
+
+describe('Suspension tier selection', () => {
+  it('uses the lowest tier as the suspension threshold', () => {
+    expect(policy.getSuspensionThreshold()).toBe(12);
+  });
+
+  it('returns no tier when the points stay under every threshold', () => {
+    expect(policy.getCrossedTier(4, 11)).toBeNull();
+  });
+
+  it('returns the tier whose threshold is reached exactly', () => {
+    expect(policy.getCrossedTier(10, 12)).toEqual({ points: 12, durationDays: 30 });
+  });
+
+  it('returns the highest tier when one increase crosses several', () => {
+    expect(policy.getCrossedTier(10, 21)).toEqual({ points: 20, durationDays: 180 });
+  });
+
+  it('ignores tiers the holder had already reached', () => {
+    expect(policy.getCrossedTier(12, 15)).toBeNull();
+    expect(policy.getCrossedTier(14, 17)).toEqual({ points: 16, durationDays: 90 });
+  });
+});
+
+describe('Triggering ticket of a suspension', () => {
+  it('prefers a suspension-eligible offence from the stop', () => {
+    const tickets = [ticket(1, 1, 6), ticket(2, 2, 2)];
+
+    expect(findTriggeringViolation(tickets, violationTypes, 8, { points: 12, durationDays: 30 })?.id).toBe(2);
+  });
+
+  it('otherwise picks the ticket whose points cross the tier', () => {
+    const tickets = [ticket(1, 1, 2), ticket(2, 1, 3), ticket(3, 1, 4)];
+
+    expect(findTriggeringViolation(tickets, violationTypes, 8, { points: 12, durationDays: 30 })?.id).toBe(2);
+  });
+
+  it('links nothing when no tier was crossed and no offence was recorded', () => {
+    const tickets = [ticket(1, 1, 2)];
+
+    expect(findTriggeringViolation(tickets, violationTypes, 8, null)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { TicketNumber } from '../../src/utils/ticketNumber';
+
+describe('TicketNumber check digits', () => {
+  it('calculates ISO 7064 MOD 97-10 check digits with letters counted as 10-35', () => {
+    expect(TicketNumber.calculateCheckDigits('LASW250000123')).toBe('58');
+    expect(TicketNumber.calculateCheckDigits('FCNC260000001')).toBe('24');
+  });
+
+  it('pads single-digit check digits', () => {
+    expect(TicketNumber.calculateCheckDigits('KNNW251234567')).toBe('05');
+  });
+
+  it('formats a ticket number with its zone and check digits', () => {
+    expect(TicketNumber.format('LA', 2025, 123)).toBe('LA-SW-25-0000123-58');
+  });
+
+  it('rejects an unknown state code when formatting', () => {
+    expect(() => TicketNumber.format('XX', 2025, 1)).toThrow('Unknown state code: XX');
+  });
+});
+
+describe('TicketNumber validation', () => {
+  it('accepts a ticket number it formatted', () => {
+    const ticketNumber = TicketNumber.format('KN', 2025, 1234567);
+
+    expect(TicketNumber.validate(ticketNumber)).toEqual({ isValid: true, normalized: ticketNumber, isLegacy: false });
+  });
+
+  it('normalizes lower case and missing hyphens', () => {
+    const result = TicketNumber.validate(' lasw250000123 58 ');
+
+    expect(result.isValid).toBe(true);
+    expect(result.normalized).toBe('LA-SW-25-0000123-58');
+  });
+
+  it('catches a single mistyped digit', () => {
+    const result = TicketNumber.validate('LA-SW-25-0000128-58');
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toMatch(/check digits do not match/);
+  });
+
+  it('catches two transposed digits', () => {
+    expect(TicketNumber.validate('LA-SW-25-0000213-58').isValid).toBe(false);
+  });
+
+  it('rejects a state filed under the wrong zone', () => {
+    const result = TicketNumber.validate('LA-NC-25-0000123-58');
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('Ticket number state and zone do not match');
+  });
+
+  it('passes legacy ticket numbers through without check digits', () => {
+    expect(TicketNumber.validate('TKT-1726480000000-42')).toEqual({ isValid: true, normalized: 'TKT-1726480000000-42', isLegacy: true });
+    expect(TicketNumber.validate('TK1234567890').isLegacy).toBe(true);
+  });
+
+  it('rejects malformed input', () => {
+    expect(TicketNumber.validate('LA-SW-25-12-58').isValid).toBe(false);
+    expect(TicketNumber.validate('').isValid).toBe(false);
+  });
+});
+
+describe('TicketNumber state codes', () => {
+  it('resolves state names and codes', () => {
+    expect(TicketNumber.resolveStateCode('Lagos State')).toBe('LA');
+    expect(TicketNumber.resolveStateCode('akwa  ibom')).toBe('AK');
+    expect(TicketNumber.resolveStateCode('Abuja')).toBe('FC');
+    expect(TicketNumber.resolveStateCode('kn')).toBe('KN');
+    expect(TicketNumber.resolveStateCode('Atlantis')).toBeNull();
+  });
+});
\ No newline at end of file
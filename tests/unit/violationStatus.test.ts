@@ -0,0 +1,56 @@
+import Violation, { VIOLATION_STATUS_TRANSITIONS, ViolationStatus } from '../../src/models/Violation';
+
+const ticketWithStatus = (status: ViolationStatus) => Violation.build({
+  ticketNumber: 'LA-SW-25-0000001-00',
+  plateNumber: 'ABC123XY',
+  officerId: 1,
+  violationTypeId: 1,
+  fineAmount: 10000,
+  locationState: 'Lagos',
+  isOverturned: false,
+  status,
+});
+
+describe('Violation status transitions', () => {
+  it('lets a pending ticket be paid, contested, dismissed or sent to court', () => {
+    const ticket = ticketWithStatus('pending');
+
+    expect(ticket.canTransitionTo('paid')).toBe(true);
+    expect(ticket.canTransitionTo('partially_paid')).toBe(true);
+    expect(ticket.canTransitionTo('contested')).toBe(true);
+    expect(ticket.canTransitionTo('dismissed')).toBe(true);
+    expect(ticket.canTransitionTo('court_pending')).toBe(true);
+    expect(ticket.canTransitionTo('cautioned')).toBe(false);
+  });
+
+  it('treats dismissed as terminal', () => {
+    const ticket = ticketWithStatus('dismissed');
+
+    for (const status of Object.keys(VIOLATION_STATUS_TRANSITIONS) as ViolationStatus[]) {
+      expect(ticket.canTransitionTo(status)).toBe(false);
+    }
+  });
+
+  it('only reverses a paid ticket through a refund', () => {
+    const ticket = ticketWithStatus('paid');
+
+    expect(ticket.canTransitionTo('pending')).toBe(true);
+    expect(ticket.canTransitionTo('partially_paid')).toBe(true);
+    expect(ticket.canTransitionTo('dismissed')).toBe(false);
+    expect(ticket.canTransitionTo('contested')).toBe(false);
+  });
+
+  it('only lets a caution be dismissed', () => {
+    const ticket = ticketWithStatus('cautioned');
+
+    expect(ticket.canTransitionTo('dismissed')).toBe(true);
+    expect(ticket.canTransitionTo('paid')).toBe(false);
+    expect(ticket.canTransitionTo('pending')).toBe(false);
+  });
+
+  it('never lists a status as a transition to itself', () => {
+    for (const [from, targets] of Object.entries(VIOLATION_STATUS_TRANSITIONS)) {
+      expect(targets).not.toContain(from);
+    }
+  });
+});
\ No newline at end of file